@@ -1,9 +1,14 @@
-import { Loader2, FileSearch, Brain, CheckCircle } from 'lucide-react';
+import { Loader2, FileSearch, Brain, CheckCircle, X } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { ParseProgress } from '@/lib/parseShards';
 
 interface AnalysisLoaderProps {
   stage: 'parsing' | 'analyzing' | 'generating';
+  progress?: ParseProgress | null;
+  onCancel?: () => void;
 }
 
 const STAGES = [
@@ -12,8 +17,15 @@ const STAGES = [
   { id: 'generating', label: 'Generating Insights', icon: CheckCircle },
 ];
 
-export function AnalysisLoader({ stage }: AnalysisLoaderProps) {
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function AnalysisLoader({ stage, progress, onCancel }: AnalysisLoaderProps) {
   const currentIndex = STAGES.findIndex(s => s.id === stage);
+  const isParsing = stage === 'parsing';
   
   return (
     <Card className="border-primary/20">
@@ -31,6 +43,27 @@ export function AnalysisLoader({ stage }: AnalysisLoaderProps) {
             Our AI is examining test failures, identifying patterns, and preparing actionable insights.
           </p>
           
+          {isParsing && progress && (
+            <div className="w-full max-w-md mb-8 space-y-2">
+              <Progress value={progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0} className="h-2" />
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  {progress.stage === 'reading'
+                    ? `Reading ${formatBytes(progress.bytesRead)} of ${formatBytes(progress.totalBytes)}`
+                    : `Read ${formatBytes(progress.bytesRead)} of ${formatBytes(progress.totalBytes)}, parsing…`}
+                </span>
+                <span>
+                  {progress.testsFound === 0 && progress.stage === 'parsing'
+                    ? 'Counting tests…'
+                    : `${progress.testsFound} test${progress.testsFound !== 1 ? 's' : ''} found${progress.stage === 'parsing' ? ' so far' : ''}`}
+                </span>
+              </div>
+              {progress.fileName && (
+                <p className="text-xs text-muted-foreground font-mono truncate">{progress.fileName}</p>
+              )}
+            </div>
+          )}
+          
           <div className="flex items-center gap-2">
             {STAGES.map((s, index) => {
               const Icon = s.icon;
@@ -58,6 +91,13 @@ export function AnalysisLoader({ stage }: AnalysisLoaderProps) {
               );
             })}
           </div>
+          
+          {isParsing && onCancel && (
+            <Button variant="ghost" size="sm" className="mt-6" onClick={onCancel}>
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -1,81 +1,142 @@
-import { CheckCircle, XCircle, SkipForward, Clock, TrendingUp } from 'lucide-react';
+import { CheckCircle, XCircle, SkipForward, Clock, TrendingUp, Server } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { AnalysisResult } from '@/types/analysis';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { AnalysisResult, ShardSummary } from '@/types/analysis';
 
 interface AnalysisSummaryProps {
   result: AnalysisResult;
 }
 
+function formatDuration(seconds: number): string {
+  return seconds > 60 ? `${(seconds / 60).toFixed(1)}m` : `${seconds.toFixed(1)}s`;
+}
+
+// A shard failing at more than twice the run's overall rate points at that agent, not the tests
+function isOutlier(shard: ShardSummary, shards: ShardSummary[]): boolean {
+  const total = shards.reduce((sum, s) => sum + s.total, 0);
+  const failed = shards.reduce((sum, s) => sum + s.failed, 0);
+  if (shard.total === 0) return total > 0;
+  return shard.failed > 0 && shard.failed / shard.total > 2 * (failed / total);
+}
+
+function ShardTable({ shards }: { shards: ShardSummary[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Server className="h-4 w-4 text-muted-foreground" />
+          Shards ({shards.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Report</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Passed</TableHead>
+              <TableHead className="text-right">Failed</TableHead>
+              <TableHead className="text-right">Skipped</TableHead>
+              <TableHead className="text-right">Pass Rate</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shards.map(shard => (
+              <TableRow key={shard.name} className={cn(isOutlier(shard, shards) && 'bg-destructive/5')}>
+                <TableCell className="font-mono text-xs">{shard.name}</TableCell>
+                <TableCell className="text-right">{shard.total}</TableCell>
+                <TableCell className="text-right text-green-600">{shard.passed}</TableCell>
+                <TableCell className={cn('text-right', shard.failed > 0 && 'text-destructive font-medium')}>{shard.failed}</TableCell>
+                <TableCell className="text-right text-yellow-600">{shard.skipped}</TableCell>
+                <TableCell className="text-right">
+                  {shard.total > 0 ? `${((shard.passed / shard.total) * 100).toFixed(1)}%` : '—'}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">{formatDuration(shard.duration)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
 export function AnalysisSummary({ result }: AnalysisSummaryProps) {
   const { summary } = result;
   
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-      <Card>
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm font-medium text-muted-foreground">Total Tests</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-3xl font-bold">{summary.total}</div>
-          <p className="text-xs text-muted-foreground mt-1">Test cases analyzed</p>
-        </CardContent>
-      </Card>
-      
-      <Card className="border-l-4 border-l-green-500">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
-            <CheckCircle className="h-4 w-4 text-green-500" />
-            Passed
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-3xl font-bold text-green-600">{summary.passed}</div>
-          <Progress value={(summary.passed / summary.total) * 100} className="mt-2 h-1" />
-        </CardContent>
-      </Card>
-      
-      <Card className="border-l-4 border-l-destructive">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
-            <XCircle className="h-4 w-4 text-destructive" />
-            Failed
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-3xl font-bold text-destructive">{summary.failed}</div>
-          <Progress value={(summary.failed / summary.total) * 100} className="mt-2 h-1 [&>div]:bg-destructive" />
-        </CardContent>
-      </Card>
-      
-      <Card className="border-l-4 border-l-yellow-500">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
-            <SkipForward className="h-4 w-4 text-yellow-500" />
-            Skipped
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-3xl font-bold text-yellow-600">{summary.skipped}</div>
-          <Progress value={(summary.skipped / summary.total) * 100} className="mt-2 h-1 [&>div]:bg-yellow-500" />
-        </CardContent>
-      </Card>
-      
-      <Card className="border-l-4 border-l-primary">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
-            <TrendingUp className="h-4 w-4 text-primary" />
-            Pass Rate
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-3xl font-bold text-primary">{summary.passRate.toFixed(1)}%</div>
-          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
-            <Clock className="h-3 w-3" />
-            {summary.duration}
-          </div>
-        </CardContent>
-      </Card>
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Tests</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">{summary.total}</div>
+            <p className="text-xs text-muted-foreground mt-1">Test cases analyzed</p>
+          </CardContent>
+        </Card>
+
+        <Card className="border-l-4 border-l-green-500">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              Passed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-green-600">{summary.passed}</div>
+            <Progress value={(summary.passed / summary.total) * 100} className="mt-2 h-1" />
+          </CardContent>
+        </Card>
+
+        <Card className="border-l-4 border-l-destructive">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <XCircle className="h-4 w-4 text-destructive" />
+              Failed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-destructive">{summary.failed}</div>
+            <Progress value={(summary.failed / summary.total) * 100} className="mt-2 h-1 [&>div]:bg-destructive" />
+          </CardContent>
+        </Card>
+
+        <Card className="border-l-4 border-l-yellow-500">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <SkipForward className="h-4 w-4 text-yellow-500" />
+              Skipped
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-yellow-600">{summary.skipped}</div>
+            <Progress value={(summary.skipped / summary.total) * 100} className="mt-2 h-1 [&>div]:bg-yellow-500" />
+          </CardContent>
+        </Card>
+
+        <Card className="border-l-4 border-l-primary">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <TrendingUp className="h-4 w-4 text-primary" />
+              Pass Rate
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-primary">{summary.passRate.toFixed(1)}%</div>
+            <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+              <Clock className="h-3 w-3" />
+              {summary.duration}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {result.shards && result.shards.length > 1 && <ShardTable shards={result.shards} />}
     </div>
   );
 }
@@ -216,7 +216,7 @@ h2. Test Details
     description += `h2. Steps to Reproduce
 `;
     testCase.stepsToReproduce.forEach((step, index) => {
-      description += `${index + 1}. ${step}\n`;
+      description += `${index + 1}. ${step}${index === testCase.failedStepIndex ? ' *(failed)*' : ''}\n`;
     });
     description += '\n';
   }
@@ -1,4 +1,4 @@
-import { ChevronDown, ChevronUp, AlertTriangle, Bug, Database, Server, Settings, Zap, Image } from 'lucide-react';
+import { ChevronDown, ChevronUp, AlertTriangle, Bug, Database, Server, Settings, Zap, Image, Paperclip } from 'lucide-react';
 import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { FailureAnalysis, CATEGORY_LABELS, DefectCategory, TestCase } from '@/types/analysis';
 import { CreateJiraIssueButton } from '@/components/CreateJiraIssueButton';
+import { StepTree } from '@/components/StepTree';
+import { StackTraceView } from '@/components/StackTraceView';
 import { cn } from '@/lib/utils';
 
 interface FailureCardProps {
@@ -31,6 +33,7 @@ const CONFIDENCE_COLORS = {
 export function FailureCard({ failure, onJiraIssueCreated }: FailureCardProps) {
   const [isOpen, setIsOpen] = useState(false);
   const Icon = CATEGORY_ICONS[failure.category] || Bug;
+  const isDegraded = (failure.defaultedFields?.length ?? 0) > 0;
   const testCase: TestCase = failure.testCase || { 
     id: 'unknown', 
     name: 'Unknown Test', 
@@ -55,11 +58,30 @@ export function FailureCard({ failure, onJiraIssueCreated }: FailureCardProps) {
                   </CardTitle>
                   <p className="text-sm text-muted-foreground mt-1 truncate">
                     {testCase.className}
+                    {testCase.configMethod && ` • ${testCase.configMethod}`}
+                    {testCase.browser && ` • ${testCase.browser}`}
                   </p>
+                  {failure.cluster && (
+                    <p className="text-xs text-muted-foreground mt-1 truncate" title={failure.cluster.signature}>
+                      {failure.cluster.size - 1} other {failure.cluster.size === 2 ? 'test shares' : 'tests share'} this failure
+                    </p>
+                  )}
                 </div>
               </div>
               
               <div className="flex items-center gap-2 flex-shrink-0">
+                {testCase.knownIssue && <Badge variant="secondary">Known issue</Badge>}
+                {testCase.muted && <Badge variant="secondary">Muted</Badge>}
+                {failure.ruleId && (
+                  <Badge variant="secondary" className="font-mono font-normal" title="Labelled by a failure-signature rule, not by the AI">
+                    rule: {failure.ruleId}
+                  </Badge>
+                )}
+                {isDegraded && (
+                  <Badge variant="outline" className="border-destructive/50 text-destructive" title={`Defaulted: ${failure.defaultedFields?.join(', ')}`}>
+                    Incomplete analysis
+                  </Badge>
+                )}
                 <Badge variant="outline" className="flex items-center gap-1.5">
                   <Icon className="h-3 w-3" />
                   <span className="hidden sm:inline">{CATEGORY_LABELS[failure.category] || 'Unknown'}</span>
@@ -88,18 +110,73 @@ export function FailureCard({ failure, onJiraIssueCreated }: FailureCardProps) {
               </div>
             )}
             
+            {isDegraded && (
+              <div className="flex items-start gap-2 py-2 px-3 bg-destructive/5 rounded-md border border-destructive/20 text-sm">
+                <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+                <span>
+                  The AI reply was missing or invalid for <span className="font-mono">{failure.defaultedFields?.join(', ')}</span>.
+                  These show placeholder values, not a verdict - review this failure manually.
+                </span>
+              </div>
+            )}
+            
             <div>
               <h4 className="text-sm font-semibold mb-2">Root Cause Analysis</h4>
               <p className="text-sm text-muted-foreground">{failure.rootCause}</p>
             </div>
             
-            {/* Steps to Reproduce */}
-            {testCase.stepsToReproduce && testCase.stepsToReproduce.length > 0 && (
+            {((testCase.parameters && testCase.parameters.length > 0) || (testCase.tags && testCase.tags.length > 0)) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {testCase.parameters?.map((param, index) => (
+                  <Badge key={`param-${index}`} variant="secondary" className="font-mono font-normal">
+                    {param.name ? `${param.name}=${param.value}` : param.value}
+                  </Badge>
+                ))}
+                {testCase.tags?.map(tag => (
+                  <Badge key={`tag-${tag}`} variant="outline">{tag}</Badge>
+                ))}
+              </div>
+            )}
+            
+            {testCase.attempts && testCase.attempts.length > 1 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Attempts ({testCase.attempts.length})</h4>
+                <ul className="space-y-1">
+                  {testCase.attempts.map((attempt, index) => (
+                    <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
+                      <Badge variant={attempt.status === 'fail' ? 'destructive' : 'outline'} className="capitalize">
+                        {attempt.rawStatus || attempt.status}
+                      </Badge>
+                      <span>
+                        Attempt {attempt.attempt + 1} • {attempt.duration.toFixed(1)}s
+                        {attempt.errorMessage && ` — ${attempt.errorMessage}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
+            {/* Step tree with the failing step highlighted in context, or the flat outline */}
+            {testCase.steps && testCase.steps.length > 0 ? (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Steps</h4>
+                <div className="bg-card p-2 rounded-md border max-h-96 overflow-y-auto">
+                  <StepTree steps={testCase.steps} screenshots={testCase.screenshots} />
+                </div>
+              </div>
+            ) : testCase.stepsToReproduce && testCase.stepsToReproduce.length > 0 && (
               <div>
                 <h4 className="text-sm font-semibold mb-2">Steps to Reproduce</h4>
                 <ol className="list-decimal list-inside space-y-1">
                   {testCase.stepsToReproduce.map((step, index) => (
-                    <li key={index} className="text-sm text-muted-foreground">
+                    <li
+                      key={index}
+                      className={cn(
+                        'text-sm',
+                        index === testCase.failedStepIndex ? 'text-destructive font-medium' : 'text-muted-foreground'
+                      )}
+                    >
                       {step}
                     </li>
                   ))}
@@ -119,9 +196,7 @@ export function FailureCard({ failure, onJiraIssueCreated }: FailureCardProps) {
             {testCase.stackTrace && (
               <div>
                 <h4 className="text-sm font-semibold mb-2">Stack Trace</h4>
-                <pre className="text-xs bg-card p-3 rounded-md overflow-x-auto font-mono border max-h-48 overflow-y-auto">
-                  {testCase.stackTrace}
-                </pre>
+                <StackTraceView stackTrace={testCase.stackTrace} parsedStackTrace={testCase.parsedStackTrace} />
               </div>
             )}
             
@@ -156,6 +231,22 @@ export function FailureCard({ failure, onJiraIssueCreated }: FailureCardProps) {
               </div>
             )}
             
+            {testCase.attachments && testCase.attachments.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                  <Paperclip className="h-4 w-4" />
+                  Attachments ({testCase.attachments.length})
+                </h4>
+                <ul className="space-y-1">
+                  {testCase.attachments.map((attachment, index) => (
+                    <li key={index} className="text-sm text-muted-foreground font-mono truncate">
+                      {attachment.name}{attachment.path && ` — ${attachment.path}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
             {failure.evidence.length > 0 && (
               <div>
                 <h4 className="text-sm font-semibold mb-2">Evidence</h4>
@@ -1,11 +1,17 @@
 import { useCallback, useState } from 'react';
-import { Upload, FileText, AlertCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, FolderOpen } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { getReportParsers, getSupportedExtensions } from '@/lib/reportParsers';
+import { toSelectedFiles, groupLooseFiles, SelectedFile } from '@/lib/reportFiles';
+
+const SUPPORTED_EXTENSIONS = getSupportedExtensions();
+const SUPPORTED_FORMATS = getReportParsers().map(p => p.label).join(', ');
 
 interface FileUploadProps {
-  onFileSelect: (content: string, fileName: string) => void;
+  // One group of files per report; several groups are shards of the same run
+  onFileSelect: (shards: SelectedFile[][]) => void;
   isLoading: boolean;
 }
 
@@ -14,41 +20,40 @@ export function FileUpload({ onFileSelect, isLoading }: FileUploadProps) {
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
 
-  const handleFile = useCallback((file: File) => {
+  const handleFiles = useCallback((files: File[]) => {
     setError(null);
     
-    if (!file.name.endsWith('.html') && !file.name.endsWith('.htm')) {
-      setError('Please upload an HTML file (.html or .htm)');
+    // Several files picked together are shards of one run; a folder or an Allure results set is one report with its assets
+    const isFolder = files.some(file => file.webkitRelativePath);
+    const selected = toSelectedFiles(files);
+    const shards = isFolder ? [selected] : groupLooseFiles(selected);
+
+    // Files picked from a folder or results set are checked by the parser, not by extension
+    const isSupported = ({ file }: SelectedFile) => SUPPORTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+    if (!isFolder && !shards.every(shard => shard.length > 1 || isSupported(shard[0]))) {
+      setError(`Unsupported file type. Please upload one of: ${SUPPORTED_EXTENSIONS.join(', ')}`);
       return;
     }
     
-    if (file.size > 50 * 1024 * 1024) {
+    if (files.reduce((total, file) => total + file.size, 0) > 50 * 1024 * 1024) {
       setError('File size exceeds 50MB limit');
       return;
     }
     
-    setFileName(file.name);
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      onFileSelect(content, file.name);
-    };
-    reader.onerror = () => {
-      setError('Failed to read file');
-    };
-    reader.readAsText(file);
+    const singleName = isFolder ? selected[0].path.split('/')[0] : files.length > 1 ? `${files.length} files` : files[0].name;
+    setFileName(shards.length === 1 ? singleName : `${shards.length} reports`);
+    onFileSelect(shards);
   }, [onFileSelect]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      handleFile(file);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      handleFiles(files);
     }
-  }, [handleFile]);
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -61,11 +66,11 @@ export function FileUpload({ onFileSelect, isLoading }: FileUploadProps) {
   }, []);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFile(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      handleFiles(files);
     }
-  }, [handleFile]);
+  }, [handleFiles]);
 
   return (
     <Card 
@@ -101,29 +106,49 @@ export function FileUpload({ onFileSelect, isLoading }: FileUploadProps) {
         ) : (
           <>
             <h3 className="text-xl font-semibold mb-2">
-              {isDragging ? 'Drop your file here' : 'Upload Spark Extent Report'}
+              {isDragging ? 'Drop your files here' : 'Upload Test Report'}
             </h3>
             <p className="text-muted-foreground text-center mb-6 max-w-md">
-              Drag and drop your HTML report file here, or click to browse.
-              Supports Spark Extent Reports from TestNG, JUnit, and Cucumber.
+              Drag and drop your report file or zipped results here, or click to browse.
+              Select several reports from parallel CI runs to merge them into one analysis.
+              The report format is detected automatically.
+              Supports {SUPPORTED_FORMATS}.
             </p>
           </>
         )}
         
         <input
           type="file"
-          accept=".html,.htm"
+          multiple
+          accept={SUPPORTED_EXTENSIONS.join(',')}
           onChange={handleInputChange}
           className="hidden"
           id="file-upload"
           disabled={isLoading}
         />
+        <input
+          type="file"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+          id="folder-upload"
+          disabled={isLoading}
+          {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+        />
         
-        <Button asChild variant={fileName ? "outline" : "default"} size="lg" disabled={isLoading}>
-          <label htmlFor="file-upload" className="cursor-pointer">
-            {fileName ? 'Choose Different File' : 'Select File'}
-          </label>
-        </Button>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <Button asChild variant={fileName ? "outline" : "default"} size="lg" disabled={isLoading}>
+            <label htmlFor="file-upload" className="cursor-pointer">
+              {fileName ? 'Choose Different Files' : 'Select Files'}
+            </label>
+          </Button>
+          <Button asChild variant="outline" size="lg" disabled={isLoading}>
+            <label htmlFor="folder-upload" className="cursor-pointer">
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Select Folder
+            </label>
+          </Button>
+        </div>
         
         {error && (
           <div className="flex items-center gap-2 mt-4 text-destructive">
@@ -133,7 +158,7 @@ export function FileUpload({ onFileSelect, isLoading }: FileUploadProps) {
         )}
         
         <p className="text-xs text-muted-foreground mt-6">
-          Maximum file size: 50MB • Supported: .html, .htm
+          Maximum file size: 50MB • Supported: {SUPPORTED_EXTENSIONS.join(', ')}
         </p>
       </CardContent>
     </Card>
@@ -0,0 +1,99 @@
+import { useCallback, useState } from 'react';
+import { ClipboardPaste, AlertCircle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { toSelectedFiles, SelectedFile } from '@/lib/reportFiles';
+
+const TEXT_EXTENSIONS = ['.log', '.txt'];
+// Pasted text goes through the same parser registry as an uploaded .log file
+const PASTED_FILE_NAME = 'pasted.log';
+
+interface LogPasteInputProps {
+  onFileSelect: (shards: SelectedFile[][]) => void;
+  isLoading: boolean;
+}
+
+export function LogPasteInput({ onFileSelect, isLoading }: LogPasteInputProps) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    setError(null);
+
+    const [file] = Array.from(e.dataTransfer.files);
+    if (!file) return;
+    if (!TEXT_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
+      setError(`Only ${TEXT_EXTENSIONS.join(' and ')} files can be dropped here`);
+      return;
+    }
+    setText(await file.text());
+    setFileName(file.name);
+  }, []);
+
+  const handleSubmit = useCallback(() => {
+    if (!text.trim()) return;
+    const file = new File([text], fileName || PASTED_FILE_NAME, { type: 'text/plain' });
+    onFileSelect([toSelectedFiles([file])]);
+  }, [text, fileName, onFileSelect]);
+
+  return (
+    <Card
+      className={cn(
+        'border-2 border-dashed transition-all duration-300',
+        isDragging ? 'border-primary bg-primary/5' : 'border-border',
+        isLoading && 'opacity-50 pointer-events-none'
+      )}
+      onDrop={handleDrop}
+      onDragOver={e => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={e => {
+        e.preventDefault();
+        setIsDragging(false);
+      }}
+    >
+      <CardContent className="space-y-4 py-8 px-8">
+        <div className="text-center">
+          <h3 className="text-xl font-semibold mb-2">Paste a Log or Stack Trace</h3>
+          <p className="text-muted-foreground">
+            Paste CI console output (Maven Surefire, Gradle) or a stack trace, or drop a .log/.txt file here.
+            Each failure found becomes a test case for the analysis.
+          </p>
+        </div>
+
+        <Textarea
+          value={text}
+          onChange={e => {
+            setText(e.target.value);
+            setFileName(null);
+          }}
+          placeholder={'[ERROR] addsTax(com.shop.CartTest)  Time elapsed: 0.01 s  <<< FAILURE!\njava.lang.AssertionError: expected:<110> but was:<100>\n\tat com.shop.CartTest.addsTax(CartTest.java:42)'}
+          className="min-h-[240px] font-mono text-xs"
+          disabled={isLoading}
+        />
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground truncate">{fileName}</span>
+          <Button onClick={handleSubmit} disabled={isLoading || !text.trim()}>
+            <ClipboardPaste className="h-4 w-4 mr-2" />
+            Analyze Text
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { OutputRepair } from '@/types/analysis';
+
+interface OutputRepairsPanelProps {
+  repairs: OutputRepair[];
+}
+
+const ACTION_COLORS = {
+  repaired: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  defaulted: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// A badly broken reply can produce one entry per field; the first few make the point
+const MAX_LISTED = 20;
+
+export function OutputRepairsPanel({ repairs }: OutputRepairsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const defaulted = repairs.filter(repair => repair.action === 'defaulted').length;
+  const listed = repairs.slice(0, MAX_LISTED);
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors py-4">
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-base font-semibold flex items-center gap-2">
+                <ShieldAlert className="h-4 w-4" />
+                AI output checks
+                <Badge className={defaulted > 0 ? ACTION_COLORS.defaulted : ACTION_COLORS.repaired}>
+                  {defaulted > 0
+                    ? `${defaulted} field${defaulted !== 1 ? 's' : ''} defaulted`
+                    : `${repairs.length} field${repairs.length !== 1 ? 's' : ''} repaired`}
+                </Badge>
+              </CardTitle>
+              <Button variant="ghost" size="icon" className="h-8 w-8">
+                {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="border-t pt-4 space-y-2">
+            <p className="text-sm text-muted-foreground">
+              These fields of the AI reply did not match the expected structure. Repaired fields were fixed up or
+              corrected by the model on a retry; defaulted fields hold placeholder values.
+            </p>
+            <ul className="space-y-1">
+              {listed.map((repair, index) => (
+                <li key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge className={ACTION_COLORS[repair.action]}>{repair.action}</Badge>
+                  {repair.scope && <span className="text-xs text-muted-foreground">{repair.scope}</span>}
+                  <span className="font-mono">{repair.path}</span>
+                  <span className="text-muted-foreground">— {repair.detail}</span>
+                </li>
+              ))}
+              {repairs.length > listed.length && (
+                <li className="text-xs text-muted-foreground">+{repairs.length - listed.length} more</li>
+              )}
+            </ul>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, SearchCode } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ParseDiagnostics } from '@/types/analysis';
+import { cn } from '@/lib/utils';
+
+interface ParseDiagnosticsPanelProps {
+  diagnostics: ParseDiagnostics[];
+}
+
+const RELIABILITY_COLORS = {
+  high: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  low: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// A regex fallback can guess hundreds of placeholder tests; the first few make the point
+const MAX_LISTED = 10;
+
+function DiagnosticsList({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+  const listed = items.slice(0, MAX_LISTED);
+  return (
+    <div>
+      <h5 className="text-xs font-semibold text-muted-foreground mb-1">{title} ({items.length})</h5>
+      <ul className="space-y-0.5">
+        {listed.map((item, index) => (
+          <li key={index} className="text-sm text-muted-foreground truncate">• {item}</li>
+        ))}
+        {items.length > listed.length && (
+          <li className="text-xs text-muted-foreground">+{items.length - listed.length} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+function DiagnosticsEntry({ diagnostics }: { diagnostics: ParseDiagnostics }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium font-mono truncate">{diagnostics.fileName}</span>
+        <Badge variant="secondary" className="font-normal">{diagnostics.formatLabel}</Badge>
+        <Badge className={cn('capitalize', RELIABILITY_COLORS[diagnostics.reliability])}>
+          {diagnostics.reliability} reliability
+        </Badge>
+      </div>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+        <div>
+          <dt className="text-xs text-muted-foreground">Format match</dt>
+          <dd>{Math.round(diagnostics.confidence * 100)}%</dd>
+        </div>
+        <div className="col-span-2 md:col-span-1">
+          <dt className="text-xs text-muted-foreground">Strategy</dt>
+          <dd className="break-words">{diagnostics.strategy}</dd>
+        </div>
+        {diagnostics.nodeCount !== undefined && (
+          <div>
+            <dt className="text-xs text-muted-foreground">Nodes matched</dt>
+            <dd>{diagnostics.nodeCount}</dd>
+          </div>
+        )}
+        <div>
+          <dt className="text-xs text-muted-foreground">Tests read</dt>
+          <dd>{diagnostics.testCount}</dd>
+        </div>
+      </dl>
+      <DiagnosticsList title="Status guessed" items={diagnostics.guessedStatus} />
+      <DiagnosticsList title="Ignored" items={diagnostics.ignored} />
+      <DiagnosticsList title="Notes" items={diagnostics.notes} />
+    </div>
+  );
+}
+
+export function ParseDiagnosticsPanel({ diagnostics }: ParseDiagnosticsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const doubtful = diagnostics.filter(entry => entry.reliability !== 'high').length;
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors py-4">
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-base font-semibold flex items-center gap-2">
+                <SearchCode className="h-4 w-4" />
+                How this report was read
+                {doubtful > 0 && (
+                  <Badge className={RELIABILITY_COLORS.medium}>
+                    {doubtful} report{doubtful !== 1 ? 's' : ''} partly guessed
+                  </Badge>
+                )}
+              </CardTitle>
+              <Button variant="ghost" size="icon" className="h-8 w-8">
+                {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="border-t pt-4 space-y-6">
+            {diagnostics.map((entry, index) => (
+              <DiagnosticsEntry key={`${entry.fileName}-${index}`} diagnostics={entry} />
+            ))}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -48,6 +48,11 @@ export function RecommendationsPanel({ recommendations, patterns }: Recommendati
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium">{pattern.description}</p>
+                  {pattern.signature && (
+                    <p className="text-xs font-mono text-muted-foreground mt-1 truncate" title={pattern.signature}>
+                      {pattern.signature}
+                    </p>
+                  )}
                   <p className="text-xs text-muted-foreground mt-1">
                     Affects: {pattern.affectedTests.slice(0, 3).join(', ')}
                     {pattern.affectedTests.length > 3 && ` +${pattern.affectedTests.length - 3} more`}
@@ -0,0 +1,52 @@
+import { Server, User, Monitor, Tag } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { RunMetadata } from '@/types/analysis';
+
+interface RunMetadataBarProps {
+  metadata: RunMetadata;
+}
+
+// Long tag lists (one per test category) would push the header off screen
+const MAX_TAGS = 8;
+
+function MetadataRow({ icon: Icon, label, values }: { icon: React.ComponentType<{ className?: string }>; label: string; values?: string[] }) {
+  if (!values || values.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+      <span className="text-xs text-muted-foreground">{label}</span>
+      {values.map(value => (
+        <Badge key={value} variant="outline" className="font-normal">{value}</Badge>
+      ))}
+    </div>
+  );
+}
+
+export function RunMetadataBar({ metadata }: RunMetadataBarProps) {
+  const environment = Object.entries(metadata.environment || {});
+  const tags = metadata.tags || [];
+  const devices = [...(metadata.browsers || []), ...(metadata.devices || [])];
+
+  return (
+    <div className="mt-3 space-y-1.5">
+      {environment.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Server className="h-3.5 w-3.5 text-muted-foreground" />
+          {environment.map(([name, value]) => (
+            <Badge key={name} variant="secondary" className="font-normal">
+              <span className="text-muted-foreground mr-1">{name}:</span>
+              {value}
+            </Badge>
+          ))}
+        </div>
+      )}
+      <MetadataRow icon={Monitor} label="Devices" values={devices} />
+      <MetadataRow icon={User} label="Authors" values={metadata.authors} />
+      <MetadataRow
+        icon={Tag}
+        label="Tags"
+        values={tags.length > MAX_TAGS ? [...tags.slice(0, MAX_TAGS), `+${tags.length - MAX_TAGS} more`] : tags}
+      />
+    </div>
+  );
+}
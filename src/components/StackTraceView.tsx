@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { firstApplicationFrame, formatFrame, parseStackTrace } from '@/lib/parseStackTrace';
+import { ParsedStackTrace, StackFrame } from '@/types/analysis';
+
+interface StackTraceViewProps {
+  stackTrace?: string;
+  // Set by the parser registry; tests the AI extracted itself only carry the raw text
+  parsedStackTrace?: ParsedStackTrace;
+}
+
+interface FrameGroup {
+  frames: { frame: StackFrame; index: number }[];
+  framework: boolean;
+}
+
+// Consecutive framework frames fold into one row so the application frames stand out
+function groupFrames(frames: StackFrame[]): FrameGroup[] {
+  const groups: FrameGroup[] = [];
+  frames.forEach((frame, index) => {
+    const last = groups[groups.length - 1];
+    if (last && last.framework && frame.framework) {
+      last.frames.push({ frame, index });
+    } else {
+      groups.push({ frames: [{ frame, index }], framework: frame.framework });
+    }
+  });
+  return groups;
+}
+
+function FrameworkFrames({ group, runtime }: { group: FrameGroup; runtime: ParsedStackTrace['runtime'] }) {
+  const [isOpen, setIsOpen] = useState(false);
+  if (group.frames.length === 1 || isOpen) {
+    return (
+      <>
+        {group.frames.map(({ frame, index }) => (
+          <li key={index} className="text-muted-foreground/70 pl-4">{formatFrame(frame, runtime)}</li>
+        ))}
+      </>
+    );
+  }
+  return (
+    <li>
+      <button
+        type="button"
+        className="flex items-center gap-1 text-muted-foreground/70 hover:text-foreground"
+        onClick={() => setIsOpen(true)}
+      >
+        <ChevronRight className="h-3 w-3" />
+        {group.frames.length} framework frames
+      </button>
+    </li>
+  );
+}
+
+export function StackTraceView({ stackTrace, parsedStackTrace }: StackTraceViewProps) {
+  const [showRaw, setShowRaw] = useState(false);
+  const trace = parsedStackTrace || parseStackTrace(stackTrace);
+
+  if (!trace || showRaw) {
+    return (
+      <div className="space-y-2">
+        {trace && (
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowRaw(false)}>
+            Show frames
+          </Button>
+        )}
+        <pre className="text-xs bg-card p-3 rounded-md overflow-x-auto font-mono border max-h-48 overflow-y-auto">
+          {stackTrace}
+        </pre>
+      </div>
+    );
+  }
+
+  const root = trace.exceptions.length - 1;
+  const highlighted = firstApplicationFrame(trace);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant="outline" className="font-normal capitalize">{trace.runtime === 'dotnet' ? '.NET' : trace.runtime}</Badge>
+        {stackTrace && (
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowRaw(true)}>
+            Show raw trace
+          </Button>
+        )}
+      </div>
+      <div className="bg-card p-3 rounded-md border max-h-72 overflow-y-auto space-y-3">
+        {trace.exceptions.map((exception, exceptionIndex) => (
+          <div key={exceptionIndex} className="space-y-1">
+            <div className={cn('text-xs font-mono whitespace-pre-wrap break-words', exceptionIndex === root ? 'text-destructive font-semibold' : 'text-foreground')}>
+              {exceptionIndex > 0 && <span className="text-muted-foreground font-normal">Caused by: </span>}
+              {exception.type}
+              {exception.message && <span className="font-normal">: {exception.message}</span>}
+              {exceptionIndex === root && trace.exceptions.length > 1 && (
+                <Badge variant="destructive" className="ml-2 text-[10px] px-1.5 py-0">root cause</Badge>
+              )}
+            </div>
+            <ul className="text-xs font-mono space-y-0.5">
+              {groupFrames(exception.frames).map(group =>
+                group.framework ? (
+                  <FrameworkFrames key={group.frames[0].index} group={group} runtime={trace.runtime} />
+                ) : (
+                  group.frames.map(({ frame, index }) => {
+                    const isHighlighted = highlighted?.exception === exceptionIndex && highlighted.frame === index;
+                    return (
+                      <li
+                        key={index}
+                        className={cn(
+                          'pl-4',
+                          isHighlighted ? 'bg-destructive/10 border-l-2 border-destructive text-destructive font-medium' : 'text-foreground'
+                        )}
+                      >
+                        {formatFrame(frame, trace.runtime)}
+                      </li>
+                    );
+                  })
+                )
+              )}
+              {exception.omittedFrames > 0 && (
+                <li className="pl-4 text-muted-foreground/70">… {exception.omittedFrames} more</li>
+              )}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, CheckCircle, XCircle, SkipForward, Info, AlertTriangle, Paperclip } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { failedStepPath } from '@/lib/testSteps';
+import { Screenshot, TestStep } from '@/types/analysis';
+
+interface StepTreeProps {
+  steps: TestStep[];
+  // The test's screenshots; image attachments on a step are looked up here by name
+  screenshots?: Screenshot[];
+}
+
+interface StepNodeProps {
+  step: TestStep;
+  path: number[];
+  failedPath?: number[];
+  startTime?: number;
+  screenshots: Screenshot[];
+}
+
+function isPrefix(path: number[], of?: number[]): boolean {
+  return !!of && path.length <= of.length && path.every((index, depth) => of[depth] === index);
+}
+
+function firstTimestamp(steps: TestStep[]): number | undefined {
+  for (const step of steps) {
+    const time = step.timestamp ? Date.parse(step.timestamp) : NaN;
+    if (!isNaN(time)) return time;
+    const nested = firstTimestamp(step.steps || []);
+    if (nested !== undefined) return nested;
+  }
+  return undefined;
+}
+
+function StepIcon({ step }: { step: TestStep }) {
+  if (step.status === 'fail') return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />;
+  if (step.status === 'skip') return <SkipForward className="h-4 w-4 text-yellow-500 flex-shrink-0" />;
+  if (step.level && /warn/.test(step.level)) return <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0" />;
+  if (step.level) return <Info className="h-4 w-4 text-muted-foreground flex-shrink-0" />;
+  return <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />;
+}
+
+function StepNode({ step, path, failedPath, startTime, screenshots }: StepNodeProps) {
+  // Only the branch leading to the failure starts expanded
+  const [isOpen, setIsOpen] = useState(isPrefix(path, failedPath));
+  const children = step.steps || [];
+  const isFailedStep = !!failedPath && path.length === failedPath.length && isPrefix(path, failedPath);
+  const time = step.timestamp ? Date.parse(step.timestamp) : NaN;
+  const offset = startTime !== undefined && !isNaN(time) ? (time - startTime) / 1000 : undefined;
+
+  return (
+    <li>
+      <div
+        className={cn(
+          'flex items-start gap-2 py-1 px-2 rounded-md text-sm',
+          isFailedStep ? 'bg-destructive/10 border-l-2 border-destructive font-medium' : 'text-muted-foreground',
+          children.length > 0 && 'cursor-pointer hover:bg-muted/50'
+        )}
+        onClick={() => children.length > 0 && setIsOpen(!isOpen)}
+      >
+        {children.length > 0 ? (
+          isOpen ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />
+        ) : (
+          <span className="w-4 flex-shrink-0" />
+        )}
+        <StepIcon step={step} />
+        <div className="flex-1 min-w-0">
+          <span className={cn('whitespace-pre-wrap break-words', isFailedStep && 'text-destructive')}>{step.name}</span>
+          {!isOpen && children.length > 0 && (
+            <span className="text-xs ml-2">({children.length} step{children.length !== 1 ? 's' : ''})</span>
+          )}
+          {step.errorMessage && step.status === 'fail' && (
+            <pre className="text-xs font-mono mt-1 whitespace-pre-wrap text-destructive">{step.errorMessage}</pre>
+          )}
+          {step.attachments && step.attachments.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-1">
+              {step.attachments.map((attachment, index) => {
+                const screenshot = screenshots.find(s => s.name === attachment.name);
+                return screenshot ? (
+                  <img
+                    key={index}
+                    src={`data:${screenshot.mimeType};base64,${screenshot.base64Data}`}
+                    alt={screenshot.name}
+                    title={screenshot.name}
+                    className="h-12 rounded border object-cover"
+                  />
+                ) : (
+                  <span key={index} className="text-xs font-mono flex items-center gap-1">
+                    <Paperclip className="h-3 w-3" />
+                    {attachment.name}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        {step.level && step.level !== 'info' && step.status !== 'fail' && (
+          <Badge variant="outline" className="text-xs font-normal">{step.level}</Badge>
+        )}
+        {(offset !== undefined || step.duration !== undefined) && (
+          <span className="text-xs text-muted-foreground font-mono flex-shrink-0">
+            {offset !== undefined && `+${offset.toFixed(1)}s`}
+            {offset !== undefined && step.duration !== undefined && ' • '}
+            {step.duration !== undefined && `${step.duration.toFixed(2)}s`}
+          </span>
+        )}
+      </div>
+      {isOpen && children.length > 0 && (
+        <ul className="ml-4 border-l pl-2">
+          {children.map((child, index) => (
+            <StepNode
+              key={index}
+              step={child}
+              path={[...path, index]}
+              failedPath={failedPath}
+              startTime={startTime}
+              screenshots={screenshots}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function StepTree({ steps, screenshots = [] }: StepTreeProps) {
+  const failedPath = failedStepPath(steps);
+  const startTime = firstTimestamp(steps);
+
+  return (
+    <ul className="space-y-0.5">
+      {steps.map((step, index) => (
+        <StepNode
+          key={index}
+          step={step}
+          path={[index]}
+          failedPath={failedPath}
+          startTime={startTime}
+          screenshots={screenshots}
+        />
+      ))}
+    </ul>
+  );
+}
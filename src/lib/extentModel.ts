@@ -0,0 +1,378 @@
+import { TestCase, TestStep, TestAttachment, Screenshot } from '@/types/analysis';
+import { ImageResolver, dedupeScreenshots, baseName } from '@/lib/reportFiles';
+
+export type ExtentVersion = 'v3' | 'v4' | 'v5';
+
+// Extent entities are serialized differently per major version:
+// v5 uses `children`/`logs`/`authorSet`, v3/v4 wrap collections in `*Context.all` (see SHAPES)
+interface ExtentEntity {
+  name?: string;
+  status?: string;
+  description?: string;
+  startTime?: string | number;
+  endTime?: string | number;
+  bddType?: string | { name?: string; simpleName?: string };
+  children?: ExtentEntity[];
+  nodes?: ExtentEntity[];
+  nodeContext?: { all?: ExtentEntity[]; list?: ExtentEntity[] };
+  logs?: ExtentLog[];
+  logContext?: { all?: ExtentLog[]; list?: ExtentLog[] };
+  authorSet?: ExtentAttribute[];
+  authorContext?: { all?: ExtentAttribute[] };
+  categorySet?: ExtentAttribute[];
+  categoryContext?: { all?: ExtentAttribute[] };
+  deviceSet?: ExtentAttribute[];
+  deviceContext?: { all?: ExtentAttribute[] };
+  media?: ExtentMedia[];
+  screenCaptureContext?: { all?: ExtentMedia[] };
+}
+
+interface ExtentLog {
+  status?: string;
+  details?: string;
+  timestamp?: string | number;
+  timeStamp?: string | number;
+  exception?: { name?: string; stackTrace?: string };
+  exceptionInfo?: { exceptionName?: string; stackTrace?: string };
+  media?: ExtentMedia | ExtentMedia[];
+  screenCaptureContext?: { all?: ExtentMedia[] };
+}
+
+interface ExtentAttribute {
+  name?: string;
+}
+
+interface ExtentMedia {
+  path?: string;
+  resolvedPath?: string;
+  base64?: string;
+  title?: string;
+}
+
+const VERSION_MARKERS: [RegExp, ExtentVersion][] = [
+  [/extentreports?\s*(?:version\s*)?v?5\.|spark-script\.js|extent-github-cdn@[^"']*\/spark\//i, 'v5'],
+  [/extentreports?\s*(?:version\s*)?v?4\.|extent-github-cdn[^"']*\/v4|extent\.v4/i, 'v4'],
+  [/extentreports?\s*(?:version\s*)?v?3\.|v3html/i, 'v3'],
+];
+
+const BDD_KEYWORDS = ['given', 'when', 'then', 'and', 'but', 'asterisk'];
+
+const MODEL_KEYS = ['tests', 'testList', 'reportTestList', 'testCollection', 'all'];
+
+export function detectExtentVersion(htmlContent: string): ExtentVersion | undefined {
+  return VERSION_MARKERS.find(([pattern]) => pattern.test(htmlContent))?.[1];
+}
+
+function readJsonLiteral(source: string, start: number): string | undefined {
+  const close = source[start] === '{' ? '}' : ']';
+  const open = source[start];
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"') quote = ch;
+    else if (ch === open) depth++;
+    else if (ch === close && --depth === 0) return source.slice(start, i + 1);
+  }
+  return undefined;
+}
+
+function looksLikeTest(value: unknown): value is ExtentEntity {
+  return !!value && typeof value === 'object' && 'name' in value && 'status' in value;
+}
+
+function findTestList(value: unknown, depth = 0): ExtentEntity[] | undefined {
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(looksLikeTest) ? value : undefined;
+  }
+  if (!value || typeof value !== 'object' || depth > 2) return undefined;
+
+  for (const key of MODEL_KEYS) {
+    const found = findTestList((value as Record<string, unknown>)[key], depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function candidateJsonBlocks(doc: Document): string[] {
+  const blocks: string[] = [];
+
+  doc.querySelectorAll('script').forEach(script => {
+    const source = script.textContent || '';
+    if (!source.trim()) return;
+
+    if (/json/i.test(script.getAttribute('type') || '')) {
+      blocks.push(source.trim());
+      return;
+    }
+
+    const assignment = /(?:\b(?:var|let|const)\s+|window\.)[\w$.]+\s*=\s*(?=[[{])/g;
+    let match: RegExpExecArray | null;
+    while ((match = assignment.exec(source)) !== null) {
+      const literal = readJsonLiteral(source, match.index + match[0].length);
+      if (literal) {
+        blocks.push(literal);
+        assignment.lastIndex = match.index + match[0].length + literal.length;
+      }
+    }
+  });
+
+  return blocks;
+}
+
+function extractExtentModel(doc: Document): ExtentEntity[] | undefined {
+  for (const block of candidateJsonBlocks(doc)) {
+    try {
+      const tests = findTestList(JSON.parse(block));
+      if (tests) return tests;
+    } catch {
+      // Not JSON (plain JavaScript object literal); keep looking
+    }
+  }
+  return undefined;
+}
+
+// Where each version keeps a test's children, logs, attributes and media
+interface ExtentShape {
+  children(entity: ExtentEntity): ExtentEntity[];
+  logs(entity: ExtentEntity): ExtentLog[];
+  authors(entity: ExtentEntity): ExtentAttribute[] | undefined;
+  categories(entity: ExtentEntity): ExtentAttribute[] | undefined;
+  devices(entity: ExtentEntity): ExtentAttribute[] | undefined;
+  testMedia(entity: ExtentEntity): ExtentMedia[];
+  logMedia(log: ExtentLog): ExtentMedia[];
+}
+
+const SPARK_SHAPE: ExtentShape = {
+  children: entity => entity.children || entity.nodes || [],
+  logs: entity => entity.logs || [],
+  authors: entity => entity.authorSet,
+  categories: entity => entity.categorySet,
+  devices: entity => entity.deviceSet,
+  testMedia: entity => entity.media || [],
+  logMedia: log => (Array.isArray(log.media) ? log.media : log.media ? [log.media] : []),
+};
+
+const CONTEXT_SHAPE: ExtentShape = {
+  children: entity => entity.nodeContext?.all || entity.nodeContext?.list || [],
+  logs: entity => entity.logContext?.all || entity.logContext?.list || [],
+  authors: entity => entity.authorContext?.all,
+  categories: entity => entity.categoryContext?.all,
+  devices: entity => entity.deviceContext?.all,
+  testMedia: entity => entity.screenCaptureContext?.all || [],
+  logMedia: log => log.screenCaptureContext?.all || [],
+};
+
+// Reports without a recognizable version are read with whichever shape a field is found in
+const ANY_SHAPE: ExtentShape = {
+  children: entity => (SPARK_SHAPE.children(entity).length > 0 ? SPARK_SHAPE.children(entity) : CONTEXT_SHAPE.children(entity)),
+  logs: entity => (SPARK_SHAPE.logs(entity).length > 0 ? SPARK_SHAPE.logs(entity) : CONTEXT_SHAPE.logs(entity)),
+  authors: entity => SPARK_SHAPE.authors(entity) || CONTEXT_SHAPE.authors(entity),
+  categories: entity => SPARK_SHAPE.categories(entity) || CONTEXT_SHAPE.categories(entity),
+  devices: entity => SPARK_SHAPE.devices(entity) || CONTEXT_SHAPE.devices(entity),
+  testMedia: entity => (entity.media ? SPARK_SHAPE.testMedia(entity) : CONTEXT_SHAPE.testMedia(entity)),
+  logMedia: log => (log.media ? SPARK_SHAPE.logMedia(log) : CONTEXT_SHAPE.logMedia(log)),
+};
+
+const SHAPES: Record<ExtentVersion, ExtentShape> = { v3: CONTEXT_SHAPE, v4: CONTEXT_SHAPE, v5: SPARK_SHAPE };
+
+function names(attributes?: ExtentAttribute[]): string[] {
+  return (attributes || []).map(a => a.name).filter((name): name is string => !!name);
+}
+
+function bddKeyword(entity: ExtentEntity): string | undefined {
+  const type = typeof entity.bddType === 'string'
+    ? entity.bddType
+    : entity.bddType?.simpleName || entity.bddType?.name;
+  const keyword = type?.split('.').pop()?.toLowerCase();
+  return keyword && BDD_KEYWORDS.includes(keyword) ? keyword : undefined;
+}
+
+function toMillis(time?: string | number): number | undefined {
+  if (time === undefined || time === null || time === '') return undefined;
+  const millis = typeof time === 'number' ? time : Date.parse(time);
+  return Number.isNaN(millis) ? undefined : millis;
+}
+
+function mapStatus(status?: string): TestCase['status'] {
+  const normalized = status?.toLowerCase() || '';
+  if (['fail', 'fatal', 'error'].includes(normalized)) return 'fail';
+  if (normalized === 'skip') return 'skip';
+  return 'pass';
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim();
+}
+
+function toTestCase(shape: ExtentShape, entity: ExtentEntity, className: string, index: number, inherited: { authors: string[]; tags: string[]; devices: string[] }, resolveImage?: ImageResolver): TestCase {
+  const logs: string[] = [];
+  const stepsToReproduce: string[] = [];
+  const screenshots: Screenshot[] = [];
+  let failedStepIndex: number | undefined;
+  let errorMessage: string | undefined;
+  let stackTrace: string | undefined;
+
+  // Returns what was captured so the log entry it belongs to can point at it
+  const collectMedia = (media: ExtentMedia[]): TestAttachment[] => {
+    const captured: TestAttachment[] = [];
+    media.forEach(item => {
+      const match = item.base64?.match(/^(?:data:([^;]+);base64,)?(.+)$/s);
+      let screenshot: Screenshot | undefined;
+      if (match) {
+        screenshot = {
+          name: item.title || `screenshot-${index}-${screenshots.length + 1}.png`,
+          mimeType: match[1] || 'image/png',
+          base64Data: match[2],
+        };
+      } else if (item.path || item.resolvedPath) {
+        const resolved = resolveImage?.(item.path || '') || resolveImage?.(item.resolvedPath || '');
+        if (resolved) {
+          screenshot = item.title ? { ...resolved, name: item.title } : resolved;
+        } else {
+          const path = item.path || item.resolvedPath;
+          logs.push(`Screenshot available: ${path}`);
+          captured.push({ name: item.title || baseName(path), path });
+        }
+      }
+      if (screenshot) {
+        screenshots.push(screenshot);
+        captured.push({ name: screenshot.name, contentType: screenshot.mimeType });
+      }
+    });
+    return captured;
+  };
+
+  const toLogStep = (log: ExtentLog, details: string, attachments: TestAttachment[]): TestStep => {
+    const exceptionName = log.exception?.name || log.exceptionInfo?.exceptionName;
+    const time = toMillis(log.timestamp ?? log.timeStamp);
+    return {
+      name: details.split('\n')[0] || exceptionName || log.status || 'Log',
+      status: mapStatus(log.status),
+      rawStatus: log.status?.toLowerCase(),
+      level: log.status?.toLowerCase() || 'info',
+      timestamp: time !== undefined ? new Date(time).toISOString() : undefined,
+      errorMessage: mapStatus(log.status) === 'fail' && details ? exceptionName : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+  };
+
+  const steps = shape.children(entity);
+  const bddSteps = steps.filter(bddKeyword);
+  // The test's own log entries come first, then one node per BDD step holding that step's entries
+  const stepTree: TestStep[] = [];
+  const stepNodes = new Map<ExtentEntity, TestStep>();
+
+  bddSteps.forEach(step => {
+    const keyword = bddKeyword(step) || '';
+    const text = `${keyword.charAt(0).toUpperCase()}${keyword.slice(1)} ${step.name || ''}`.trim();
+    stepsToReproduce.push(text);
+    if (failedStepIndex === undefined && mapStatus(step.status) === 'fail') {
+      failedStepIndex = stepsToReproduce.length - 1;
+    }
+    const stepStart = toMillis(step.startTime);
+    const stepEnd = toMillis(step.endTime);
+    stepNodes.set(step, {
+      name: text,
+      status: mapStatus(step.status),
+      rawStatus: step.status?.toLowerCase(),
+      timestamp: stepStart !== undefined ? new Date(stepStart).toISOString() : undefined,
+      duration: stepStart !== undefined && stepEnd !== undefined ? Math.max(0, stepEnd - stepStart) / 1000 : undefined,
+    });
+  });
+
+  [entity, ...bddSteps].forEach(source => {
+    const entries = source === entity ? stepTree : [];
+    shape.logs(source).forEach(log => {
+      const details = log.details ? stripHtml(log.details) : '';
+      const exceptionName = log.exception?.name || log.exceptionInfo?.exceptionName;
+      const exceptionTrace = log.exception?.stackTrace || log.exceptionInfo?.stackTrace;
+
+      if (details) logs.push(details);
+      if (mapStatus(log.status) === 'fail') {
+        errorMessage = errorMessage || details.split('\n')[0] || exceptionName;
+        stackTrace = stackTrace || exceptionTrace || (details.includes('\n') ? details : undefined);
+      }
+
+      if (source === entity && details && details.length < 500 && !/\n\s*at /.test(details)) {
+        stepsToReproduce.push(details);
+        if (failedStepIndex === undefined && mapStatus(log.status) === 'fail') {
+          failedStepIndex = stepsToReproduce.length - 1;
+        }
+      }
+      const attachments = collectMedia(shape.logMedia(log));
+      if (details || exceptionName || attachments.length > 0) entries.push(toLogStep(log, details, attachments));
+    });
+    const node = stepNodes.get(source);
+    if (node) {
+      stepTree.push(entries.length > 0 ? { ...node, steps: entries } : node);
+    }
+  });
+  collectMedia(shape.testMedia(entity));
+
+  const start = toMillis(entity.startTime);
+  const end = toMillis(entity.endTime);
+  const authors = [...inherited.authors, ...names(shape.authors(entity))];
+  const tags = [...inherited.tags, ...names(shape.categories(entity))];
+  const devices = [...inherited.devices, ...names(shape.devices(entity))];
+  const unique = (values: string[]) => Array.from(new Set(values));
+
+  return {
+    id: `test-${index}`,
+    name: entity.name || `Test ${index}`,
+    className,
+    status: mapStatus(entity.status),
+    rawStatus: entity.status?.toLowerCase(),
+    duration: start !== undefined && end !== undefined ? Math.max(0, end - start) / 1000 : 0,
+    errorMessage,
+    stackTrace,
+    logs: logs.length > 0 ? logs : undefined,
+    timestamp: start !== undefined ? new Date(start).toISOString() : undefined,
+    stepsToReproduce: stepsToReproduce.length > 0 ? stepsToReproduce : undefined,
+    failedStepIndex,
+    steps: stepTree.length > 0 ? stepTree : undefined,
+    screenshots: screenshots.length > 0 ? dedupeScreenshots(screenshots) : undefined,
+    tags: tags.length > 0 ? unique(tags) : undefined,
+    authors: authors.length > 0 ? unique(authors) : undefined,
+    devices: devices.length > 0 ? unique(devices) : undefined,
+  };
+}
+
+// Class-level tests with method nodes (TestNG listeners) and feature/scenario trees (BDD)
+// are flattened to their leaves; BDD step nodes stay inside their scenario.
+function extentModelToTestCases(shape: ExtentShape, model: ExtentEntity[], resolveImage?: ImageResolver): TestCase[] {
+  const testCases: TestCase[] = [];
+
+  const visit = (entity: ExtentEntity, path: string[], inherited: { authors: string[]; tags: string[]; devices: string[] }) => {
+    const children = shape.children(entity).filter(child => !bddKeyword(child));
+    if (children.length === 0) {
+      const className = path.join(' › ') || names(shape.categories(entity))[0] || 'Test Suite';
+      testCases.push(toTestCase(shape, entity, className, testCases.length + 1, inherited, resolveImage));
+      return;
+    }
+
+    const next = {
+      authors: [...inherited.authors, ...names(shape.authors(entity))],
+      tags: [...inherited.tags, ...names(shape.categories(entity))],
+      devices: [...inherited.devices, ...names(shape.devices(entity))],
+    };
+    children.forEach(child => visit(child, [...path, entity.name || 'Suite'], next));
+  };
+
+  model.forEach(entity => visit(entity, [], { authors: [], tags: [], devices: [] }));
+  return testCases;
+}
+
+// The detected version decides which fields are read; an undetected one accepts either layout
+export function readExtentModel(doc: Document, htmlContent: string, resolveImage?: ImageResolver): { version?: ExtentVersion; testCases: TestCase[] } | undefined {
+  const model = extractExtentModel(doc);
+  if (!model) return undefined;
+  const version = detectExtentVersion(htmlContent);
+  return { version, testCases: extentModelToTestCases(version ? SHAPES[version] : ANY_SHAPE, model, resolveImage) };
+}
@@ -0,0 +1,60 @@
+import { TestCase, ShardSummary } from '@/types/analysis';
+import { ParsedReport } from '@/lib/reportParsers';
+import { mergeRunMetadata } from '@/lib/runMetadata';
+import { collapseTestRuns } from '@/lib/testIdentity';
+
+export interface MergedReport extends ParsedReport {
+  shards?: ShardSummary[];
+}
+
+export function summarizeShard(name: string, testCases: TestCase[]): ShardSummary {
+  return {
+    name,
+    total: testCases.length,
+    passed: testCases.filter(t => t.status === 'pass').length,
+    failed: testCases.filter(t => t.status === 'fail').length,
+    skipped: testCases.filter(t => t.status === 'skip').length,
+    duration: testCases.reduce((sum, t) => sum + (t.duration || 0), 0),
+  };
+}
+
+// Agents usually write identically named reports, so repeated names get a counter
+function shardNames(reports: ParsedReport[]): string[] {
+  const seen = new Map<string, number>();
+  return reports.map(report => {
+    const name = report.metadata.fileName;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+export function mergeReports(reports: ParsedReport[]): MergedReport {
+  if (reports.length === 1) return reports[0];
+
+  const names = shardNames(reports);
+  const testCases = collapseTestRuns(
+    reports.map((report, shardIndex) => report.testCases.map(testCase => ({ ...testCase, shard: names[shardIndex] })))
+  );
+
+  const formats = new Set(reports.map(report => report.metadata.format));
+  const [first] = reports;
+  return {
+    testCases,
+    rawContent: reports
+      .map((report, index) => (report.rawContent ? `=== ${names[index]} ===\n${report.rawContent}` : ''))
+      .filter(Boolean)
+      .join('\n\n'),
+    metadata: {
+      format: formats.size === 1 ? first.metadata.format : 'mixed',
+      formatLabel: formats.size === 1 ? first.metadata.formatLabel : 'Mixed formats',
+      version: formats.size === 1 ? first.metadata.version : undefined,
+      fileName: `${reports.length} shards`,
+    },
+    shards: reports.map((report, index) => summarizeShard(names[index], report.testCases)),
+    runMetadata: mergeRunMetadata(reports.map(report => report.runMetadata)),
+    diagnostics: reports.flatMap((report, index) =>
+      (report.diagnostics || []).map(diagnostics => ({ ...diagnostics, fileName: names[index] }))
+    ),
+  };
+}
@@ -0,0 +1,243 @@
+import { TestCase, TestStep, TestAttachment, TestAttempt, Screenshot } from '@/types/analysis';
+import { ReportFile } from '@/lib/reportParsers';
+import { fileText, fileBase64, findFile, baseName } from '@/lib/reportFiles';
+
+interface AllureStatusDetails {
+  message?: string;
+  trace?: string;
+  flaky?: boolean;
+  known?: boolean;
+  muted?: boolean;
+}
+
+interface AllureAttachment {
+  name?: string;
+  source?: string;
+  type?: string;
+}
+
+interface AllureStep {
+  name?: string;
+  status?: string;
+  statusDetails?: AllureStatusDetails;
+  steps?: AllureStep[];
+  attachments?: AllureAttachment[];
+  start?: number;
+  stop?: number;
+}
+
+interface AllureResult extends AllureStep {
+  uuid: string;
+  historyId?: string;
+  fullName?: string;
+  parameters?: { name: string; value: string; excluded?: boolean; mode?: string }[];
+  labels?: { name: string; value: string }[];
+}
+
+interface AllureContainer {
+  uuid: string;
+  name?: string;
+  children?: string[];
+  befores?: AllureStep[];
+  afters?: AllureStep[];
+}
+
+const TEXT_ATTACHMENT = /^(text\/|application\/(json|xml))/;
+
+// Labels worth carrying into the analysis; the rest (host, thread, framework...) is noise
+const KEPT_LABELS = ['epic', 'feature', 'story', 'severity', 'owner', 'suite', 'parentSuite', 'subSuite'];
+
+function mapStatus(status?: string): TestCase['status'] {
+  if (status === 'failed' || status === 'broken') return 'fail';
+  if (status === 'passed') return 'pass';
+  return 'skip';
+}
+
+function attachmentName(attachment: AllureAttachment, file: ReportFile): string {
+  const fileName = baseName(file.path);
+  if (!attachment.name) return fileName;
+  const extension = fileName.match(/\.\w+$/)?.[0] || '';
+  return attachment.name.endsWith(extension) ? attachment.name : `${attachment.name}${extension}`;
+}
+
+function readJson<T>(file: ReportFile): T | undefined {
+  try {
+    return JSON.parse(fileText(file));
+  } catch {
+    return undefined;
+  }
+}
+
+// environment.properties is written next to the results by the build: "Browser=Chrome 120"
+export function readAllureEnvironment(files: ReportFile[]): Record<string, string> | undefined {
+  const file = files.find(f => baseName(f.path) === 'environment.properties');
+  if (!file) return undefined;
+
+  const environment: Record<string, string> = {};
+  fileText(file).split('\n').forEach(line => {
+    const match = line.trim().match(/^([^#!][^=:]*?)\s*[=:]\s*(.*)$/);
+    if (match) environment[match[1]] = match[2];
+  });
+  return Object.keys(environment).length > 0 ? environment : undefined;
+}
+
+export function isAllureResults(files: ReportFile[]): boolean {
+  return files.some(f => /-result\.json$/.test(f.path));
+}
+
+export function parseAllureResults(files: ReportFile[]): TestCase[] {
+  const results: AllureResult[] = [];
+  const containers: AllureContainer[] = [];
+
+  files.forEach(file => {
+    if (/-result\.json$/.test(file.path)) {
+      const result = readJson<AllureResult>(file);
+      if (result?.uuid) results.push(result);
+    } else if (/-container\.json$/.test(file.path)) {
+      const container = readJson<AllureContainer>(file);
+      if (container?.uuid) containers.push(container);
+    }
+  });
+
+  // Retries are written as separate results sharing a historyId; ordered by time, the last one decides
+  const runsByHistory = new Map<string, AllureResult[]>();
+  results.forEach(result => {
+    const key = result.historyId || result.uuid;
+    runsByHistory.set(key, [...(runsByHistory.get(key) || []), result]);
+  });
+  const runTime = (result: AllureResult) => result.start || result.stop || 0;
+  const histories = Array.from(runsByHistory.values()).map(runs =>
+    runs.map((result, order) => ({ result, order }))
+      .sort((a, b) => runTime(a.result) - runTime(b.result) || a.order - b.order)
+      .map(entry => entry.result)
+  );
+
+  const fixturesByResult = new Map<string, { befores: AllureStep[]; afters: AllureStep[] }>();
+  containers.forEach(container => {
+    (container.children || []).forEach(child => {
+      const fixtures = fixturesByResult.get(child) || { befores: [], afters: [] };
+      fixtures.befores.push(...(container.befores || []));
+      fixtures.afters.push(...(container.afters || []));
+      fixturesByResult.set(child, fixtures);
+    });
+  });
+
+  return histories.map((runs, index): TestCase => {
+    const result = runs[runs.length - 1];
+    const testIndex = index + 1;
+    const screenshots: Screenshot[] = [];
+    const logs: string[] = [];
+    const stepsToReproduce: string[] = [];
+    let failedStepIndex: number | undefined;
+
+    // Returns the attachments found so the step that captured them can list them
+    const collectAttachments = (attachments: AllureAttachment[] = []): TestAttachment[] => {
+      const found: TestAttachment[] = [];
+      attachments.forEach(attachment => {
+        const file = attachment.source && findFile(files, attachment.source);
+        const type = attachment.type || '';
+        if (!file) {
+          logs.push(`Attachment not found in results: ${attachment.name || attachment.source}`);
+          return;
+        }
+        const name = attachmentName(attachment, file);
+        found.push({ name, contentType: type || undefined, path: attachment.source });
+        if (type.startsWith('image/')) {
+          screenshots.push({ name, mimeType: type, base64Data: fileBase64(file) });
+        } else if (TEXT_ATTACHMENT.test(type)) {
+          logs.push(`${attachment.name || 'Attachment'}:\n${fileText(file)}`);
+        } else {
+          logs.push(`Attachment: ${attachment.name || baseName(file.path)} (${type || 'unknown type'})`);
+        }
+      });
+      return found;
+    };
+
+    const toStepNode = (step: AllureStep, children: TestStep[], attachments: TestAttachment[]): TestStep => ({
+      name: step.name || 'Step',
+      status: mapStatus(step.status),
+      rawStatus: step.status,
+      timestamp: step.start ? new Date(step.start).toISOString() : undefined,
+      duration: step.start && step.stop ? (step.stop - step.start) / 1000 : undefined,
+      errorMessage: step.statusDetails?.message?.trim().split('\n')[0] || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      steps: children.length > 0 ? children : undefined,
+    });
+
+    const visitSteps = (steps: AllureStep[] = [], depth = 0): TestStep[] => steps.map(step => {
+      const stepIndex = stepsToReproduce.push(`${'  '.repeat(depth)}${step.name || 'Step'}`) - 1;
+      const attachments = collectAttachments(step.attachments);
+      const children = visitSteps(step.steps, depth + 1);
+      // Children are visited first, so the deepest failing step wins
+      if (failedStepIndex === undefined && mapStatus(step.status) === 'fail') {
+        failedStepIndex = stepIndex;
+      }
+      return toStepNode(step, children, attachments);
+    });
+    const testSteps = visitSteps(result.steps);
+    collectAttachments(result.attachments);
+
+    // Fixtures frame the test's own steps in the tree, but aren't steps to reproduce
+    const { befores, afters } = fixturesByResult.get(result.uuid) || { befores: [], afters: [] };
+    const fixtureNode = (fixture: AllureStep) => toStepNode(fixture, [], collectAttachments(fixture.attachments));
+    const steps = [...befores.map(fixtureNode), ...testSteps, ...afters.map(fixtureNode)];
+    const failedFixture = [...befores, ...afters].find(f => mapStatus(f.status) === 'fail');
+    if (failedFixture) {
+      logs.push(`Fixture "${failedFixture.name}" ${failedFixture.status}: ${failedFixture.statusDetails?.message || 'no message'}`);
+    }
+
+    const labels: Record<string, string> = {};
+    const tags: string[] = [];
+    (result.labels || []).forEach(({ name, value }) => {
+      if (name === 'tag') {
+        tags.push(value);
+      } else if (KEPT_LABELS.includes(name)) {
+        labels[name] = labels[name] ? `${labels[name]}, ${value}` : value;
+      }
+    });
+    const testClass = result.labels?.find(l => l.name === 'testClass')?.value;
+
+    const details = result.statusDetails || {};
+    const parameters = (result.parameters || [])
+      .filter(p => !p.excluded && p.mode !== 'hidden')
+      .map(p => ({ name: p.name, value: p.mode === 'masked' ? '******' : p.value }));
+
+    const start = result.start;
+    const stop = result.stop;
+
+    const attempts = runs.map((run, attempt): TestAttempt => ({
+      attempt,
+      status: mapStatus(run.status),
+      rawStatus: run.status,
+      duration: run.start && run.stop ? (run.stop - run.start) / 1000 : 0,
+      errorMessage: run.statusDetails?.message?.trim().split('\n')[0] || undefined,
+      timestamp: run.start ? new Date(run.start).toISOString() : undefined,
+    }));
+    const failedBefore = attempts.slice(0, -1).some(attempt => attempt.status === 'fail');
+
+    return {
+      id: `test-${testIndex}`,
+      name: result.name || result.fullName || `Test ${testIndex}`,
+      className: testClass || labels.suite || labels.feature || result.fullName?.replace(/[#.][^#.]*$/, '') || 'Test Suite',
+      status: mapStatus(result.status),
+      rawStatus: result.status,
+      duration: start && stop ? (stop - start) / 1000 : 0,
+      errorMessage: details.message?.trim().split('\n')[0] || failedFixture?.statusDetails?.message?.split('\n')[0],
+      stackTrace: details.trace || failedFixture?.statusDetails?.trace,
+      logs: logs.length > 0 ? logs : undefined,
+      timestamp: start ? new Date(start).toISOString() : undefined,
+      stepsToReproduce: stepsToReproduce.length > 0 ? stepsToReproduce : undefined,
+      failedStepIndex,
+      steps: steps.length > 0 ? steps : undefined,
+      screenshots: screenshots.length > 0 ? screenshots : undefined,
+      parameters: parameters.length > 0 ? parameters : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      authors: labels.owner ? labels.owner.split(', ') : undefined,
+      labels: Object.keys(labels).length > 0 ? labels : undefined,
+      attempts: attempts.length > 1 ? attempts : undefined,
+      flaky: details.flaky || (failedBefore && mapStatus(result.status) === 'pass') || undefined,
+      knownIssue: details.known || undefined,
+      muted: details.muted || undefined,
+    };
+  });
+}
@@ -0,0 +1,218 @@
+import { TestCase } from '@/types/analysis';
+import { AdapterDiagnostics } from '@/lib/reportParsers';
+import { stripAnsi } from '@/lib/text';
+
+export interface ConsoleLog {
+  testCases: TestCase[];
+  diagnostics: AdapterDiagnostics;
+}
+
+// GitHub Actions and Azure Pipelines prefix every line with its ISO timestamp
+const CI_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z\s/;
+const MAVEN_PREFIX = /^\[(INFO|ERROR|WARNING|WARN|DEBUG)\]\s?/;
+
+// "[ERROR] addsTax(com.shop.CartTest)  Time elapsed: 0.01 s  <<< FAILURE!" (surefire 2)
+// "[ERROR] com.shop.CartTest.addsTax -- Time elapsed: 0.012 s <<< ERROR!" (surefire 3)
+const SUREFIRE_TEST = /^(.+?)\s+(?:--\s+)?Time elapsed: ([\d.,]+) s(?:ec)?\s+<<< (FAILURE|ERROR)!/;
+const SUREFIRE_TOTALS = /Tests run: (\d+), Failures: (\d+), Errors: (\d+), Skipped: (\d+)(?:.*?--? in (\S+))?/;
+const SUREFIRE_RUNNING = /^Running (\S+)$/;
+// "CartTest > addsTax() FAILED", nested classes add more " > " levels
+const GRADLE_TEST = /^(\S.*) > (.+?) (PASSED|FAILED|SKIPPED)$/;
+const GRADLE_TOTALS = /^(\d+) tests? completed(?:, (\d+) failed)?(?:, (\d+) skipped)?/;
+
+// Java, JavaScript and .NET frames start with "at"; Python frames with 'File "..."'
+const FRAME_LINE = /^\s+(at\s+\S|File ".+", line \d+)/;
+const TRACE_CONTINUATION = /^\s*(Caused by:|\.\.\. \d+ more|--- End of|Traceback \(most recent call last\))/;
+// "java.lang.IllegalStateException: ...", "TypeError: ...", "System.InvalidOperationException: ..."
+const EXCEPTION_LINE = /^\s*[\w.$]*(Exception|Error|Throwable|Failure)\b/;
+const FAILURE_WORDS = /\b(ERROR|FAIL(ED|URE)?|\w+(Exception|Error)\b|Traceback)/;
+
+function cleanLines(content: string): string[] {
+  return stripAnsi(content).split(/\r?\n/).map(line => line.replace(CI_TIMESTAMP, ''));
+}
+
+function splitMessage(block: string[]): { errorMessage?: string; stackTrace?: string } {
+  const firstFrame = block.findIndex(line => FRAME_LINE.test(line));
+  const messageLines = firstFrame >= 0 ? block.slice(0, firstFrame) : block.slice(0, 1);
+  return {
+    errorMessage: messageLines.map(line => line.trim()).filter(Boolean).join('\n') || undefined,
+    stackTrace: firstFrame >= 0 ? block.join('\n') : undefined,
+  };
+}
+
+// Surefire prints test names as "method(Class)", "Class.method" or just "method" under "Running Class"
+function surefireName(text: string, runningClass?: string): { name: string; className: string } {
+  const junit4 = text.match(/^([\w$[\]]+)\(([\w.$]+)\)$/);
+  if (junit4) return { name: junit4[1], className: junit4[2] };
+  const qualified = text.match(/^([\w.$]+)\.([\w$]+(?:[([].*)?)$/);
+  if (qualified) return { name: qualified[2], className: qualified[1] };
+  return { name: text, className: runningClass || 'Maven Surefire' };
+}
+
+function parseSurefire(lines: string[], diagnostics: AdapterDiagnostics): TestCase[] {
+  const testCases: TestCase[] = [];
+  let runningClass: string | undefined;
+  let total: number | undefined;
+  let classTotals = 0;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(MAVEN_PREFIX, '').trim();
+    const running = line.match(SUREFIRE_RUNNING);
+    if (running) {
+      runningClass = running[1];
+      return;
+    }
+    const totals = line.match(SUREFIRE_TOTALS);
+    if (totals) {
+      // Per-class lines carry a time (and "in Class"); the summary after "Results:" covers the whole module
+      if (totals[5] || /Time elapsed/.test(line)) classTotals += parseInt(totals[1]);
+      else total = (total || 0) + parseInt(totals[1]);
+      return;
+    }
+    const test = line.match(SUREFIRE_TEST);
+    if (!test) return;
+
+    const block: string[] = [];
+    for (let next = index + 1; next < lines.length; next++) {
+      if (!lines[next].trim() || MAVEN_PREFIX.test(lines[next])) break;
+      block.push(lines[next]);
+    }
+    testCases.push({
+      id: `test-${testCases.length + 1}`,
+      ...surefireName(test[1], runningClass),
+      status: 'fail',
+      rawStatus: test[3],
+      duration: parseFloat(test[2].replace(',', '.')) || 0,
+      ...splitMessage(block),
+      logs: block.length > 0 ? block : undefined,
+    });
+  });
+
+  const reported = total ?? classTotals;
+  if (reported > testCases.length) {
+    diagnostics.notes.push(
+      `Maven reported ${reported} tests; console output only names failing ones, so ${reported - testCases.length} passed or skipped tests are not listed`
+    );
+  }
+  return testCases;
+}
+
+function parseGradle(lines: string[], diagnostics: AdapterDiagnostics): TestCase[] {
+  const testCases: TestCase[] = [];
+
+  lines.forEach((line, index) => {
+    const totals = line.trim().match(GRADLE_TOTALS);
+    if (totals) {
+      diagnostics.notes.push(`Gradle reported ${totals[0]}`);
+      return;
+    }
+    const test = line.match(GRADLE_TEST);
+    if (!test) return;
+
+    // The exception follows the result line, indented
+    const block: string[] = [];
+    for (let next = index + 1; next < lines.length && /^\s+\S/.test(lines[next]); next++) {
+      block.push(lines[next]);
+    }
+    const path = test[1].split(' > ');
+    const status = test[3] === 'FAILED' ? 'fail' : test[3] === 'SKIPPED' ? 'skip' : 'pass';
+    testCases.push({
+      id: `test-${testCases.length + 1}`,
+      name: test[2],
+      className: path.join('.'),
+      status,
+      rawStatus: test[3],
+      duration: 0,
+      ...(status === 'fail' ? splitMessage(block) : {}),
+      logs: block.length > 0 ? block : undefined,
+    });
+  });
+
+  return testCases;
+}
+
+// A trace pasted on its own: the message is the line above the first frame,
+// except in Python where it follows the frames
+function parseStackTraces(lines: string[]): TestCase[] {
+  const testCases: TestCase[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!FRAME_LINE.test(lines[index])) {
+      index++;
+      continue;
+    }
+    const python = index > 0 && /^Traceback/.test(lines[index - 1].trim());
+    // The message starts at the exception line; a multi-line message can put it a few lines up.
+    // Without one, only the line right above the frames belongs to the trace, not the log before it
+    let start = index > 0 && lines[index - 1].trim() ? index - 1 : index;
+    for (let above = index - 1; !python && above >= Math.max(index - 3, 0) && lines[above].trim() && !FRAME_LINE.test(lines[above]); above--) {
+      if (EXCEPTION_LINE.test(lines[above])) {
+        start = above;
+        break;
+      }
+    }
+    let end = index;
+    while (end < lines.length && (FRAME_LINE.test(lines[end]) || TRACE_CONTINUATION.test(lines[end]) || /^\s{4,}\S/.test(lines[end]))) end++;
+    if (python && end < lines.length && lines[end].trim()) end++;
+
+    const block = lines.slice(start, end);
+    const message = python ? block[block.length - 1].trim() : block.slice(0, index - start).map(line => line.trim()).join('\n');
+    const topFrame = lines[index].trim().replace(/^at\s+/, '');
+    testCases.push({
+      id: `test-${testCases.length + 1}`,
+      // Two traces of the same exception from different places must stay apart
+      name: `${(message.split('\n')[0].split(':')[0] || 'Error').trim()} at ${topFrame}`,
+      className: 'Pasted log',
+      status: 'fail',
+      duration: 0,
+      errorMessage: message || undefined,
+      stackTrace: block.join('\n'),
+    });
+    index = end;
+  }
+
+  return testCases;
+}
+
+export function isMavenOutput(text: string): boolean {
+  return SUREFIRE_TOTALS.test(text) || /Time elapsed: [\d.,]+ s(?:ec)?\s+<<< (FAILURE|ERROR)!/.test(text);
+}
+
+export function isGradleOutput(text: string): boolean {
+  return /^\S.* > .+ (PASSED|FAILED|SKIPPED)\r?$/m.test(stripAnsi(text));
+}
+
+// How sure we are that free text is a test log: build tool output, then bare traces, then anything that failed
+// `isLogFile` marks text saved or pasted as a .log: without any failure markers it is still read as a
+// log, just below every other format
+export function sniffConsoleLog(text: string, isLogFile = false): number {
+  // XML and JSON reports carry stack traces too
+  if (/^\s*(<|\{|\[\s*[{"\]])/.test(text)) return 0;
+  if (isMavenOutput(text) || isGradleOutput(text)) return 0.85;
+  if (text.split('\n').some(line => FRAME_LINE.test(line))) return 0.6;
+  if (FAILURE_WORDS.test(text)) return 0.3;
+  return isLogFile && text.trim() ? 0.05 : 0;
+}
+
+// Splits a CI console log or pasted stack traces into one failing test per failure
+export function parseConsoleLog(content: string): ConsoleLog {
+  const diagnostics: AdapterDiagnostics = { guessedStatus: [], ignored: [], notes: [] };
+  const lines = cleanLines(content);
+
+  if (isMavenOutput(content)) {
+    diagnostics.strategy = 'Maven Surefire console output';
+    return { testCases: parseSurefire(lines, diagnostics), diagnostics };
+  }
+  if (isGradleOutput(content)) {
+    diagnostics.strategy = 'Gradle test output';
+    return { testCases: parseGradle(lines, diagnostics), diagnostics };
+  }
+
+  const testCases = parseStackTraces(lines);
+  diagnostics.strategy = testCases.length > 0 ? 'Stack traces in free text' : 'Free text without test markers';
+  // Test names are made up from the exception and its top frame
+  diagnostics.reliability = testCases.length > 0 ? 'medium' : 'low';
+  if (testCases.length === 0) diagnostics.notes.push('No test results or stack traces found; the AI reads the text as is');
+  return { testCases, diagnostics };
+}
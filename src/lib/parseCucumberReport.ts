@@ -0,0 +1,461 @@
+import { TestCase, TestStep, TestAttachment, TestParameter, TestAttempt, Screenshot } from '@/types/analysis';
+
+interface CucumberResult {
+  status?: string;
+  duration?: number;
+  error_message?: string;
+}
+
+interface CucumberEmbedding {
+  data?: string;
+  mime_type?: string;
+  media?: { type?: string };
+  name?: string;
+}
+
+interface CucumberStep {
+  keyword?: string;
+  name?: string;
+  result?: CucumberResult;
+  embeddings?: CucumberEmbedding[];
+  output?: string[];
+}
+
+interface CucumberElement {
+  id?: string;
+  line?: number;
+  keyword?: string;
+  type?: string;
+  name?: string;
+  start_timestamp?: string;
+  tags?: { name: string }[];
+  before?: CucumberStep[];
+  steps?: CucumberStep[];
+  after?: CucumberStep[];
+}
+
+interface CucumberFeature {
+  name?: string;
+  uri?: string;
+  tags?: { name: string }[];
+  elements?: CucumberElement[];
+}
+
+interface StepOutcome {
+  text?: string;
+  status: string;
+  durationSeconds: number;
+  error?: string;
+  // Hooks only: whether it ran before or after the scenario's steps
+  hook?: 'before' | 'after';
+  timestamp?: string;
+  // Text the step logged and files it embedded
+  output?: string[];
+  attachments?: TestAttachment[];
+}
+
+// Worst status wins when rolling steps up into a scenario
+const STATUS_SEVERITY = ['passed', 'unknown', 'skipped', 'pending', 'undefined', 'ambiguous', 'failed'];
+
+function mapStatus(status: string): TestCase['status'] {
+  if (status === 'failed' || status === 'ambiguous' || status === 'undefined') return 'fail';
+  if (status === 'skipped' || status === 'pending' || status === 'unknown') return 'skip';
+  return 'pass';
+}
+
+function worstStatus(statuses: string[]): string {
+  return statuses.reduce(
+    (worst, status) => (STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(worst) ? status : worst),
+    'passed'
+  );
+}
+
+function decodeBase64Text(data: string): string {
+  try {
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return data;
+  }
+}
+
+function screenshotName(name: string | undefined, mimeType: string, testIndex: number, index: number): string {
+  if (name && /\.\w+$/.test(name)) return name;
+  const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  return `${name || `screenshot-${testIndex}-${index}`}.${extension}`;
+}
+
+function toStepNode(outcome: StepOutcome): TestStep {
+  const status = mapStatus(outcome.status);
+  const entries: TestStep[] = (outcome.output || []).map(text => ({ name: text, status: 'pass', level: 'info' }));
+  return {
+    name: outcome.text || (outcome.hook === 'after' ? 'After hook' : 'Before hook'),
+    status,
+    rawStatus: outcome.status,
+    timestamp: outcome.timestamp,
+    duration: outcome.durationSeconds,
+    errorMessage: status === 'fail' ? outcome.error?.trim().split('\n')[0] : undefined,
+    attachments: outcome.attachments?.length ? outcome.attachments : undefined,
+    steps: entries.length > 0 ? entries : undefined,
+  };
+}
+
+// Passing hooks that captured nothing are framework plumbing and stay out of the tree
+function stepTree(steps: StepOutcome[], hooks: StepOutcome[]): TestStep[] {
+  const shown = hooks.filter(hook => mapStatus(hook.status) !== 'pass' || hook.output?.length || hook.attachments?.length);
+  return [
+    ...shown.filter(hook => hook.hook !== 'after'),
+    ...steps,
+    ...shown.filter(hook => hook.hook === 'after'),
+  ].map(toStepNode);
+}
+
+function buildTestCase(
+  feature: string,
+  scenario: string,
+  steps: StepOutcome[],
+  hooks: StepOutcome[],
+  extras: { tags: string[]; screenshots: Screenshot[]; logs: string[]; timestamp?: string; parameters?: TestParameter[] },
+  index: number
+): TestCase {
+  const all = [...hooks, ...steps];
+  const rawStatus = worstStatus(all.map(s => s.status));
+  const failing = all.find(s => mapStatus(s.status) === 'fail');
+  const failedStepIndex = failing ? steps.indexOf(failing) : -1;
+  const tree = stepTree(steps, hooks);
+
+  let errorMessage: string | undefined;
+  if (failing) {
+    const firstLine = failing.error?.trim().split('\n')[0];
+    if (firstLine) {
+      errorMessage = firstLine;
+    } else if (failing.status === 'undefined') {
+      errorMessage = `Undefined step: ${failing.text}`;
+    } else if (failing.status === 'ambiguous') {
+      errorMessage = `Ambiguous step definitions: ${failing.text}`;
+    }
+    if (failedStepIndex === -1 && errorMessage) {
+      errorMessage = `Hook failed: ${errorMessage}`;
+    }
+  }
+
+  return {
+    id: `test-${index}`,
+    name: scenario,
+    className: feature,
+    status: mapStatus(rawStatus),
+    rawStatus,
+    duration: all.reduce((sum, s) => sum + s.durationSeconds, 0),
+    errorMessage,
+    stackTrace: failing?.error?.trim() || undefined,
+    logs: extras.logs.length > 0 ? extras.logs : undefined,
+    timestamp: extras.timestamp,
+    stepsToReproduce: steps.length > 0 ? steps.map(s => s.text) : undefined,
+    failedStepIndex: failedStepIndex >= 0 ? failedStepIndex : undefined,
+    steps: tree.length > 0 ? tree : undefined,
+    screenshots: extras.screenshots.length > 0 ? extras.screenshots : undefined,
+    tags: extras.tags.length > 0 ? extras.tags : undefined,
+    parameters: extras.parameters,
+  };
+}
+
+export function parseCucumberJson(jsonContent: string): TestCase[] {
+  const features: CucumberFeature[] = JSON.parse(jsonContent);
+  const testCases: TestCase[] = [];
+
+  features.forEach(feature => {
+    const featureName = feature.name || feature.uri || 'Feature';
+    let backgroundSteps: CucumberStep[] = [];
+
+    (feature.elements || []).forEach(element => {
+      if (element.type === 'background') {
+        backgroundSteps = element.steps || [];
+        return;
+      }
+
+      const testIndex = testCases.length + 1;
+      const screenshots: Screenshot[] = [];
+      const logs: string[] = [];
+
+      const toOutcome = (step: CucumberStep, text?: string): StepOutcome => {
+        const output: string[] = [];
+        const attachments: TestAttachment[] = [];
+        (step.embeddings || []).forEach(embedding => {
+          const mimeType = embedding.mime_type || embedding.media?.type || '';
+          if (!embedding.data) return;
+          if (mimeType.startsWith('image/')) {
+            const name = screenshotName(embedding.name, mimeType, testIndex, screenshots.length + 1);
+            screenshots.push({ name, mimeType, base64Data: embedding.data });
+            attachments.push({ name, contentType: mimeType });
+          } else {
+            output.push(decodeBase64Text(embedding.data));
+          }
+        });
+        output.push(...(step.output || []));
+        logs.push(...output);
+
+        return {
+          text,
+          status: step.result?.status || 'skipped',
+          durationSeconds: (step.result?.duration || 0) / 1e9,
+          error: step.result?.error_message,
+          output,
+          attachments,
+        };
+      };
+
+      const steps = [...backgroundSteps, ...(element.steps || [])].map(step =>
+        toOutcome(step, `${(step.keyword || '').trim()} ${step.name || ''}`.trim())
+      );
+      const hooks = [
+        ...(element.before || []).map(hook => ({ ...toOutcome(hook), hook: 'before' as const })),
+        ...(element.after || []).map(hook => ({ ...toOutcome(hook), hook: 'after' as const })),
+      ];
+
+      const tags = Array.from(new Set([
+        ...(feature.tags || []).map(t => t.name),
+        ...(element.tags || []).map(t => t.name),
+      ]));
+      // JSON doesn't keep the Examples values; the row's line (or row number) tells outline examples apart
+      const row = element.id?.match(/;;(\d+)$/)?.[1];
+      const example = element.line !== undefined ? `line ${element.line}` : row && `row ${row}`;
+      const isOutline = /outline|template/i.test(element.keyword || '') || !!row;
+      const parameters = isOutline && example ? [{ name: 'example', value: example }] : undefined;
+
+      testCases.push(buildTestCase(
+        featureName,
+        element.name || `Scenario ${testIndex}`,
+        steps,
+        hooks,
+        { tags, screenshots, logs, timestamp: element.start_timestamp, parameters },
+        testIndex
+      ));
+    });
+  });
+
+  return testCases;
+}
+
+interface MessageDuration {
+  seconds?: number;
+  nanos?: number;
+}
+
+interface MessageStepResult {
+  status?: string;
+  duration?: MessageDuration;
+  message?: string;
+  exception?: { type?: string; message?: string; stackTrace?: string };
+}
+
+interface GherkinStep {
+  id: string;
+  keyword?: string;
+}
+
+interface GherkinTableRow {
+  id?: string;
+  cells?: { value: string }[];
+}
+
+interface GherkinScenario {
+  steps?: GherkinStep[];
+  examples?: { tableHeader?: GherkinTableRow; tableBody?: GherkinTableRow[] }[];
+}
+
+interface GherkinChild {
+  background?: { steps?: GherkinStep[] };
+  scenario?: GherkinScenario;
+  rule?: { children?: GherkinChild[] };
+}
+
+interface GherkinDocument {
+  uri: string;
+  feature?: { name?: string; children?: GherkinChild[] };
+}
+
+function toSeconds(duration?: MessageDuration): number {
+  return duration ? (duration.seconds || 0) + (duration.nanos || 0) / 1e9 : 0;
+}
+
+function toIsoTimestamp(timestamp?: MessageDuration): string | undefined {
+  return timestamp ? new Date(toSeconds(timestamp) * 1000).toISOString() : undefined;
+}
+
+// Collects keywords for every Gherkin step and scenario so pickle steps can be written as "Given ...",
+// and the values of every Examples row so outline pickles (which share a name) stay apart
+function indexGherkinDocument(document: GherkinDocument, keywords: Map<string, string>, featureNames: Map<string, string>, exampleRows: Map<string, TestParameter[]>) {
+  const feature = document.feature;
+  if (!feature) return;
+  featureNames.set(document.uri, feature.name || document.uri);
+
+  const visit = (children: GherkinChild[] = []) => {
+    children.forEach(child => {
+      const node = child.background || child.scenario;
+      if (node) {
+        (node.steps || []).forEach(step => keywords.set(step.id, (step.keyword || '').trim()));
+      }
+      (child.scenario?.examples || []).forEach(examples => {
+        const header = (examples.tableHeader?.cells || []).map(cell => cell.value);
+        (examples.tableBody || []).forEach(row => {
+          exampleRows.set(row.id, (row.cells || []).map((cell, index) => ({ name: header[index], value: cell.value })));
+        });
+      });
+      if (child.rule) visit(child.rule.children);
+    });
+  };
+  visit(feature.children);
+}
+
+export function parseCucumberMessages(ndjsonContent: string): TestCase[] {
+  const keywords = new Map<string, string>();
+  const featureNames = new Map<string, string>();
+  const exampleRows = new Map<string, TestParameter[]>();
+  const pickles = new Map<string, { name: string; uri: string; tags: string[]; steps: Map<string, string>; parameters?: TestParameter[] }>();
+  const testCaseDefs = new Map<string, { pickleId: string; testSteps: { id: string; pickleStepId?: string }[] }>();
+  const started = new Map<string, {
+    testCaseId: string;
+    timestamp?: string;
+    results: Map<string, MessageStepResult>;
+    stepTimestamps: Map<string, string>;
+    attachments: { testStepId?: string; body: string; mediaType: string; fileName?: string; encoding?: string }[];
+    willBeRetried?: boolean;
+  }>();
+  const order: string[] = [];
+
+  ndjsonContent.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    const envelope = JSON.parse(line);
+
+    if (envelope.gherkinDocument) {
+      indexGherkinDocument(envelope.gherkinDocument, keywords, featureNames, exampleRows);
+    } else if (envelope.pickle) {
+      const pickle = envelope.pickle;
+      const steps = new Map<string, string>();
+      (pickle.steps || []).forEach(step => {
+        const keyword = keywords.get(step.astNodeIds?.[0]) || '';
+        steps.set(step.id, `${keyword} ${step.text}`.trim());
+      });
+      pickles.set(pickle.id, {
+        name: pickle.name,
+        uri: pickle.uri,
+        tags: (pickle.tags || []).map(tag => tag.name),
+        steps,
+        // An outline pickle points at its scenario and then at the Examples row it was built from
+        parameters: exampleRows.get(pickle.astNodeIds?.[1]),
+      });
+    } else if (envelope.testCase) {
+      testCaseDefs.set(envelope.testCase.id, envelope.testCase);
+    } else if (envelope.testCaseStarted) {
+      const { id, testCaseId, timestamp } = envelope.testCaseStarted;
+      started.set(id, { testCaseId, timestamp: toIsoTimestamp(timestamp), results: new Map(), stepTimestamps: new Map(), attachments: [] });
+      order.push(id);
+    } else if (envelope.testStepStarted) {
+      const { testCaseStartedId, testStepId, timestamp } = envelope.testStepStarted;
+      started.get(testCaseStartedId)?.stepTimestamps.set(testStepId, toIsoTimestamp(timestamp));
+    } else if (envelope.testStepFinished) {
+      const { testCaseStartedId, testStepId, testStepResult } = envelope.testStepFinished;
+      started.get(testCaseStartedId)?.results.set(testStepId, testStepResult || {});
+    } else if (envelope.attachment) {
+      const { testCaseStartedId, testStepId, body, mediaType, fileName, contentEncoding } = envelope.attachment;
+      started.get(testCaseStartedId)?.attachments.push({
+        testStepId,
+        body,
+        mediaType: mediaType || '',
+        fileName,
+        encoding: contentEncoding,
+      });
+    } else if (envelope.testCaseFinished) {
+      const attempt = started.get(envelope.testCaseFinished.testCaseStartedId);
+      if (attempt) attempt.willBeRetried = envelope.testCaseFinished.willBeRetried;
+    }
+  });
+
+  const testCases: TestCase[] = [];
+  // Runs that will be retried become the earlier attempts of their test case's final run
+  const retried = new Map<string, TestAttempt[]>();
+
+  order.forEach(startedId => {
+    const attempt = started.get(startedId);
+    if (!attempt) return;
+    const definition = testCaseDefs.get(attempt.testCaseId);
+    const pickle = definition && pickles.get(definition.pickleId);
+    if (!definition || !pickle) return;
+
+    const testIndex = testCases.length + 1;
+    const steps: StepOutcome[] = [];
+    const hooks: StepOutcome[] = [];
+    const outcomes = new Map<string, StepOutcome>();
+
+    definition.testSteps.forEach(testStep => {
+      const result = attempt.results.get(testStep.id) || {};
+      const outcome: StepOutcome = {
+        status: (result.status || 'UNKNOWN').toLowerCase(),
+        durationSeconds: toSeconds(result.duration),
+        error: result.exception?.stackTrace || result.message || result.exception?.message,
+        timestamp: attempt.stepTimestamps.get(testStep.id),
+        output: [],
+        attachments: [],
+      };
+      if (testStep.pickleStepId) {
+        steps.push(Object.assign(outcome, { text: pickle.steps.get(testStep.pickleStepId) }));
+      } else {
+        // Hooks are test steps without a pickle step; the ones before the first real step are Before hooks
+        hooks.push(Object.assign(outcome, { hook: steps.length > 0 ? 'after' as const : 'before' as const }));
+      }
+      outcomes.set(testStep.id, outcome);
+    });
+
+    const screenshots: Screenshot[] = [];
+    const logs: string[] = [];
+    attempt.attachments.forEach(attachment => {
+      const isBase64 = attachment.encoding === 'BASE64';
+      const outcome = attachment.testStepId ? outcomes.get(attachment.testStepId) : undefined;
+      if (attachment.mediaType.startsWith('image/') && isBase64) {
+        const name = screenshotName(attachment.fileName, attachment.mediaType, testIndex, screenshots.length + 1);
+        screenshots.push({ name, mimeType: attachment.mediaType, base64Data: attachment.body });
+        outcome?.attachments.push({ name, contentType: attachment.mediaType });
+      } else {
+        const text = isBase64 ? decodeBase64Text(attachment.body) : attachment.body;
+        logs.push(text);
+        outcome?.output.push(text);
+      }
+    });
+
+    const test = buildTestCase(
+      featureNames.get(pickle.uri) || pickle.uri || 'Feature',
+      pickle.name || `Scenario ${testIndex}`,
+      steps,
+      hooks,
+      { tags: pickle.tags, screenshots, logs, timestamp: attempt.timestamp, parameters: pickle.parameters },
+      testIndex
+    );
+
+    const earlier = retried.get(attempt.testCaseId) || [];
+    const run: TestAttempt = {
+      attempt: earlier.length,
+      status: test.status,
+      rawStatus: test.rawStatus,
+      duration: test.duration,
+      errorMessage: test.errorMessage,
+      timestamp: test.timestamp,
+    };
+    if (attempt.willBeRetried) {
+      retried.set(attempt.testCaseId, [...earlier, run]);
+      return;
+    }
+    retried.delete(attempt.testCaseId);
+
+    testCases.push(earlier.length > 0
+      ? { ...test, attempts: [...earlier, run], flaky: test.status === 'pass' ? true : undefined }
+      : test);
+  });
+
+  return testCases;
+}
+
+export function parseCucumberReport(content: string): TestCase[] {
+  return content.trimStart().startsWith('[')
+    ? parseCucumberJson(content)
+    : parseCucumberMessages(content);
+}
@@ -0,0 +1,236 @@
+import { TestCase, TestAttachment } from '@/types/analysis';
+import { parseXmlDocument, childElements, childElement, childText, numberAttr } from '@/lib/xml';
+import { baseName } from '@/lib/reportFiles';
+
+function descendants(parent: Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+// TRX durations are TimeSpans: 00:00:01.2345678
+function parseTimeSpan(value?: string | null): number {
+  const match = value?.match(/^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/);
+  if (!match) return 0;
+  const [, days, hours, minutes, seconds] = match;
+  return Number(days || 0) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function outputLogs(label: string, text?: string): string[] {
+  return text ? [`[${label}] ${text}`] : [];
+}
+
+function withEntries<T>(items: T[]): T[] | undefined {
+  return items.length > 0 ? items : undefined;
+}
+
+function mapTrxOutcome(outcome: string): TestCase['status'] {
+  if (outcome === 'Passed' || outcome === 'PassedButRunAborted' || outcome === 'Warning') return 'pass';
+  if (['Failed', 'Error', 'Timeout', 'Aborted'].includes(outcome)) return 'fail';
+  return 'skip';
+}
+
+interface TrxDefinition {
+  className?: string;
+  categories: string[];
+}
+
+function readTrxDefinitions(doc: Document): Map<string, TrxDefinition> {
+  const definitions = new Map<string, TrxDefinition>();
+  descendants(doc.documentElement, 'UnitTest').forEach(unitTest => {
+    // className is assembly-qualified: "Shop.Tests.CartTests, Shop.Tests, Version=1.0.0.0"
+    const className = childElement(unitTest, 'TestMethod')?.getAttribute('className')?.split(',')[0].trim();
+    const categories = descendants(unitTest, 'TestCategoryItem')
+      .map(item => item.getAttribute('TestCategory')?.trim())
+      .filter(Boolean);
+    definitions.set(unitTest.getAttribute('id') || '', { className, categories });
+  });
+  return definitions;
+}
+
+function trxResultToTestCase(resultEl: Element, definition: TrxDefinition | undefined, index: number): TestCase {
+  const outcome = resultEl.getAttribute('outcome') || 'NotExecuted';
+  const output = childElement(resultEl, 'Output');
+  const errorInfo = output && childElement(output, 'ErrorInfo');
+  const logs: string[] = [
+    ...outputLogs('stdout', output && childText(output, 'StdOut')),
+    ...outputLogs('stderr', output && childText(output, 'StdErr')),
+    ...outputLogs('debug', output && childText(output, 'DebugTrace')),
+  ];
+  if (output) {
+    descendants(output, 'Message')
+      .filter(message => message.parentElement?.localName === 'TextMessages')
+      .forEach(message => logs.push(message.textContent?.trim() || ''));
+  }
+  const attachments: TestAttachment[] = descendants(resultEl, 'ResultFile').map(file => {
+    const path = file.getAttribute('path') || '';
+    return { name: baseName(path.replace(/\\/g, '/')), path };
+  });
+  const name = resultEl.getAttribute('testName') || `Test ${index}`;
+
+  return {
+    id: `test-${index}`,
+    name,
+    className: definition?.className || name.split('.').slice(0, -1).join('.') || 'Test Suite',
+    status: mapTrxOutcome(outcome),
+    rawStatus: outcome,
+    duration: parseTimeSpan(resultEl.getAttribute('duration')),
+    errorMessage: errorInfo && childText(errorInfo, 'Message'),
+    stackTrace: errorInfo && childText(errorInfo, 'StackTrace'),
+    logs: withEntries(logs),
+    timestamp: resultEl.getAttribute('startTime') || undefined,
+    tags: withEntries(definition?.categories || []),
+    devices: resultEl.getAttribute('computerName') ? [resultEl.getAttribute('computerName') as string] : undefined,
+    attachments: withEntries(attachments),
+  };
+}
+
+export function parseTrxReport(xmlContent: string): TestCase[] {
+  const doc = parseXmlDocument(xmlContent);
+  const definitions = readTrxDefinitions(doc);
+  const testCases: TestCase[] = [];
+
+  const results = childElement(doc.documentElement, 'Results');
+  const visit = (resultEl: Element) => {
+    // Data-driven tests nest one InnerResults entry per data row under a summary result
+    const inner = childElement(resultEl, 'InnerResults');
+    if (inner && childElements(inner).length > 0) {
+      childElements(inner).forEach(visit);
+      return;
+    }
+    const definition = definitions.get(resultEl.getAttribute('testId') || '');
+    testCases.push(trxResultToTestCase(resultEl, definition, testCases.length + 1));
+  };
+  if (results) childElements(results).forEach(visit);
+
+  return testCases;
+}
+
+interface NUnitProperties {
+  tags: string[];
+  authors: string[];
+  labels: Record<string, string>;
+}
+
+// NUnit repeats [Category] and [Property] on fixtures and methods; a test inherits its ancestors'
+function readNUnitProperties(el: Element, inherited: NUnitProperties): NUnitProperties {
+  const result = { tags: [...inherited.tags], authors: [...inherited.authors], labels: { ...inherited.labels } };
+  const properties = childElement(el, 'properties');
+  if (!properties) return result;
+
+  childElements(properties, 'property').forEach(property => {
+    const name = property.getAttribute('name') || '';
+    const value = property.getAttribute('value') || '';
+    // Underscore-prefixed properties (_SKIPREASON, _JOINTYPE) are NUnit internals
+    if (!value || name.startsWith('_')) return;
+    if (name === 'Category') {
+      if (!result.tags.includes(value)) result.tags.push(value);
+    } else if (name === 'Author') {
+      result.authors.push(value);
+    } else {
+      result.labels[name] = value;
+    }
+  });
+  return result;
+}
+
+function mapNUnitResult(result: string): TestCase['status'] {
+  if (result === 'Passed') return 'pass';
+  if (result === 'Failed') return 'fail';
+  return 'skip';
+}
+
+function nunitTestCase(el: Element, properties: NUnitProperties, index: number): TestCase {
+  const result = el.getAttribute('result') || 'Skipped';
+  const label = el.getAttribute('label');
+  const failure = childElement(el, 'failure');
+  const reason = childElement(el, 'reason');
+  const logs = [
+    ...(reason ? [`${label || 'Skipped'}: ${childText(reason, 'message') || 'no reason given'}`] : []),
+    ...outputLogs('output', childText(el, 'output')),
+  ];
+  // Multiple-assert blocks report each failed assertion separately under <assertions>
+  const assertions = descendants(el, 'assertion').filter(a => a.getAttribute('result') !== 'Passed');
+  if (assertions.length > 1) {
+    assertions.forEach(a => logs.push(`Assertion ${a.getAttribute('result')}: ${childText(a, 'message') || ''}`.trim()));
+  }
+  const attachments: TestAttachment[] = descendants(el, 'attachment').map(attachment => {
+    const path = childText(attachment, 'filePath') || '';
+    return { name: childText(attachment, 'description') || baseName(path.replace(/\\/g, '/')), path };
+  });
+  const labels = Object.keys(properties.labels).length > 0 ? properties.labels : undefined;
+
+  return {
+    id: `test-${index}`,
+    name: el.getAttribute('name') || `Test ${index}`,
+    className: el.getAttribute('classname') || 'Test Suite',
+    status: mapNUnitResult(result),
+    rawStatus: label ? `${result}:${label}` : result,
+    duration: numberAttr(el, 'duration'),
+    errorMessage: failure && childText(failure, 'message'),
+    stackTrace: failure && childText(failure, 'stack-trace'),
+    logs: withEntries(logs),
+    timestamp: el.getAttribute('start-time') || undefined,
+    tags: withEntries(properties.tags),
+    authors: withEntries(properties.authors),
+    labels,
+    attachments: withEntries(attachments),
+  };
+}
+
+export function parseNUnitReport(xmlContent: string): TestCase[] {
+  const doc = parseXmlDocument(xmlContent);
+  const testCases: TestCase[] = [];
+
+  const visit = (el: Element, inherited: NUnitProperties) => {
+    const properties = readNUnitProperties(el, inherited);
+    if (el.localName === 'test-case') {
+      testCases.push(nunitTestCase(el, properties, testCases.length + 1));
+      return;
+    }
+    childElements(el).filter(child => child.localName === 'test-suite' || child.localName === 'test-case').forEach(child => visit(child, properties));
+  };
+  visit(doc.documentElement, { tags: [], authors: [], labels: {} });
+
+  return testCases;
+}
+
+function mapXUnitResult(result: string): TestCase['status'] {
+  if (result === 'Pass') return 'pass';
+  if (result === 'Fail') return 'fail';
+  return 'skip';
+}
+
+export function parseXUnitReport(xmlContent: string): TestCase[] {
+  const doc = parseXmlDocument(xmlContent);
+
+  return descendants(doc.documentElement, 'test').map((el, i): TestCase => {
+    const index = i + 1;
+    const result = el.getAttribute('result') || 'NotRun';
+    const failure = childElement(el, 'failure');
+    const tags: string[] = [];
+    const labels: Record<string, string> = {};
+    descendants(el, 'trait').forEach(trait => {
+      const name = trait.getAttribute('name') || '';
+      const value = trait.getAttribute('value') || '';
+      if (name === 'Category') tags.push(value);
+      else if (name) labels[name] = value;
+    });
+    const reason = childText(el, 'reason');
+    const exceptionType = failure?.getAttribute('exception-type');
+    const message = failure && childText(failure, 'message');
+
+    return {
+      id: `test-${index}`,
+      name: el.getAttribute('name') || `Test ${index}`,
+      className: el.getAttribute('type') || 'Test Suite',
+      status: mapXUnitResult(result),
+      rawStatus: result,
+      duration: numberAttr(el, 'time'),
+      // xUnit leaves the exception type out of the message, unlike NUnit and MSTest
+      errorMessage: message && exceptionType && !message.startsWith(exceptionType) ? `${exceptionType} : ${message}` : message,
+      stackTrace: failure && childText(failure, 'stack-trace'),
+      logs: withEntries([...(reason ? [`Skipped: ${reason}`] : []), ...outputLogs('output', childText(el, 'output'))]),
+      tags: withEntries(tags),
+      labels: Object.keys(labels).length > 0 ? labels : undefined,
+    };
+  });
+}
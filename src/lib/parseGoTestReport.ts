@@ -0,0 +1,152 @@
+import { TestCase } from '@/types/analysis';
+
+interface GoTestEvent {
+  Time?: string;
+  Action: string;
+  Package?: string;
+  ImportPath?: string;
+  Test?: string;
+  Elapsed?: number;
+  Output?: string;
+}
+
+interface GoTestRun {
+  pkg: string;
+  test?: string;
+  action?: string;
+  elapsed: number;
+  started?: string;
+  output: string[];
+}
+
+// go test's own framing lines; everything else in the stream was written by the test
+const FRAMING_LINE = /^\s*(=== (RUN|PAUSE|CONT|NAME)\s|--- (PASS|FAIL|SKIP):|PASS$|FAIL$|ok\s|FAIL\s|\?\s|coverage:)/;
+// t.Log/t.Error output: "    cart_test.go:42: expected 110, got 100"
+const LOG_LINE = /^\s*([\w.-]+\.go:\d+): (.*)$/;
+
+function mapAction(action?: string): TestCase['status'] {
+  if (action === 'pass') return 'pass';
+  if (action === 'fail') return 'fail';
+  return 'skip';
+}
+
+function readEvents(content: string): GoTestEvent[] {
+  const events: GoTestEvent[] = [];
+  content.split('\n').forEach(line => {
+    if (!line.trim().startsWith('{')) return;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // Build errors and other stderr lines get interleaved with the JSON stream
+    }
+  });
+  return events;
+}
+
+// A t.Errorf message can span lines; continuation lines are indented further than the first
+function logEntries(output: string[]): string[] {
+  const entries: string[] = [];
+  output.forEach(line => {
+    const match = line.match(LOG_LINE);
+    if (match) {
+      entries.push(`${match[1]}: ${match[2]}`);
+    } else if (entries.length > 0 && /^\s{8,}\S/.test(line)) {
+      entries[entries.length - 1] += `\n${line.trim()}`;
+    }
+  });
+  return entries;
+}
+
+function panicTrace(output: string[]): string | undefined {
+  const start = output.findIndex(line => /^panic: /.test(line));
+  return start >= 0 ? output.slice(start).join('\n') : undefined;
+}
+
+function runToTestCase(run: GoTestRun, subtests: GoTestRun[], index: number): TestCase {
+  const status = mapAction(run.action);
+  const userOutput = run.output.filter(line => !FRAMING_LINE.test(line) && line.trim() !== '');
+  const panic = panicTrace(userOutput);
+  const entries = logEntries(userOutput);
+
+  // Parents are traced through their t.Run subtests, leaves through their t.Log/t.Error lines
+  let steps: string[];
+  let failedStepIndex: number | undefined;
+  if (subtests.length > 0) {
+    steps = subtests.map(sub => `${sub.test?.slice((run.test?.length || 0) + 1)} (${sub.action || 'no result'})`);
+    const failed = subtests.findIndex(sub => sub.action === 'fail');
+    failedStepIndex = failed >= 0 ? failed : undefined;
+  } else {
+    steps = entries;
+    failedStepIndex = status === 'fail' && entries.length > 0 ? entries.length - 1 : undefined;
+  }
+
+  const failedSubtest = subtests.find(sub => sub.action === 'fail');
+  let errorMessage: string | undefined;
+  if (status === 'fail') {
+    errorMessage = panic?.split('\n')[0] || entries[entries.length - 1] || (failedSubtest ? `Subtest ${failedSubtest.test} failed` : undefined);
+  } else if (status === 'skip') {
+    errorMessage = entries[entries.length - 1];
+  }
+
+  return {
+    id: `test-${index}`,
+    name: run.test || 'Package failed',
+    className: run.pkg,
+    status,
+    rawStatus: run.action || 'no result',
+    duration: run.elapsed,
+    errorMessage,
+    stackTrace: panic,
+    logs: userOutput.length > 0 ? userOutput : undefined,
+    timestamp: run.started,
+    stepsToReproduce: steps.length > 0 ? steps : undefined,
+    failedStepIndex,
+  };
+}
+
+export function parseGoTestReport(content: string): TestCase[] {
+  const runs = new Map<string, GoTestRun>();
+  const buildOutput = new Map<string, string[]>();
+
+  readEvents(content).forEach(event => {
+    // go 1.24+ reports compile errors as build-output events keyed by ImportPath
+    if (event.Action === 'build-output' && event.ImportPath) {
+      const lines = buildOutput.get(event.ImportPath.split(' ')[0]) || [];
+      lines.push(event.Output?.replace(/\n$/, '') || '');
+      buildOutput.set(event.ImportPath.split(' ')[0], lines);
+      return;
+    }
+    if (!event.Package) return;
+
+    const key = `${event.Package}\u0000${event.Test || ''}`;
+    const run = runs.get(key) || { pkg: event.Package, test: event.Test, elapsed: 0, output: [] };
+    runs.set(key, run);
+
+    if (event.Action === 'start' || event.Action === 'run') run.started = run.started || event.Time;
+    if (event.Action === 'output' && event.Output !== undefined) run.output.push(event.Output.replace(/\n$/, ''));
+    if (['pass', 'fail', 'skip'].includes(event.Action)) {
+      run.action = event.Action;
+      run.elapsed = event.Elapsed || 0;
+    }
+  });
+
+  const all = Array.from(runs.values());
+  const tests = all.filter(run => run.test);
+  const testCases: TestCase[] = [];
+
+  tests.forEach(run => {
+    const subtests = tests.filter(other => other.pkg === run.pkg && other.test?.startsWith(`${run.test}/`) && !other.test.slice(run.test.length + 1).includes('/'));
+    testCases.push(runToTestCase(run, subtests, testCases.length + 1));
+  });
+
+  // A package that fails without a failing test didn't build, panicked in TestMain, or timed out
+  all.filter(run => !run.test && run.action === 'fail').forEach(pkgRun => {
+    if (testCases.some(tc => tc.className === pkgRun.pkg && tc.status === 'fail')) return;
+    const output = [...(buildOutput.get(pkgRun.pkg) || []), ...pkgRun.output];
+    const testCase = runToTestCase({ ...pkgRun, output }, [], testCases.length + 1);
+    testCase.errorMessage = testCase.errorMessage || output.find(line => line.trim() && !FRAMING_LINE.test(line) && !line.startsWith('#'));
+    testCases.push(testCase);
+  });
+
+  return testCases;
+}
@@ -0,0 +1,57 @@
+import { parseShards, ParseProgress } from '@/lib/parseShards';
+import { MergedReport } from '@/lib/mergeReports';
+import { SelectedFile } from '@/lib/reportFiles';
+import type { ParseWorkerMessage, ParseWorkerRequest } from '@/lib/parseWorker';
+
+export interface ParseTask {
+  promise: Promise<MergedReport>;
+  // Stops parsing; the promise rejects with an AbortError
+  cancel: () => void;
+}
+
+const abortError = () => new DOMException('Parsing cancelled', 'AbortError');
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Parses off the main thread so 50MB reports don't freeze the tab
+export function parseInWorker(shards: SelectedFile[][], onProgress: (progress: ParseProgress) => void): ParseTask {
+  // Environments without workers (tests, very old browsers) parse inline on the main thread; cancelling
+  // stops before the next file is read or parsed, but can't interrupt the file being parsed
+  if (typeof Worker === 'undefined') {
+    const controller = new AbortController();
+    const promise = parseShards(shards, progress => {
+      if (!controller.signal.aborted) onProgress(progress);
+    }, controller.signal);
+    return { promise, cancel: () => controller.abort(abortError()) };
+  }
+
+  const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => worker.terminate();
+
+  const promise = new Promise<MergedReport>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(abortError());
+    };
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.report);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Report parser crashed'));
+    };
+    const request: ParseWorkerRequest = { shards };
+    worker.postMessage(request);
+  });
+
+  return { promise, cancel: () => cancel() };
+}
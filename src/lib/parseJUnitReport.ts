@@ -0,0 +1,108 @@
+import { TestAttempt, TestCase } from '@/types/analysis';
+import { parseXmlDocument, childElements, childElement, numberAttr } from '@/lib/xml';
+
+// Several surefire files concatenated together (`cat TEST-*.xml`) are split on their XML declarations
+function splitXmlDocuments(xmlContent: string): string[] {
+  const documents = xmlContent
+    .split(/(?=<\?xml[\s\S]*?\?>)/)
+    .map(doc => doc.trim())
+    .filter(Boolean);
+  return documents.length > 0 ? documents : [xmlContent];
+}
+
+function parseTestCase(testCaseEl: Element, suiteName: string, suiteTimestamp: string | undefined, index: number): TestCase {
+  const name = testCaseEl.getAttribute('name')?.trim() || `Test ${index}`;
+  const className = testCaseEl.getAttribute('classname')?.trim() || suiteName || 'Test Suite';
+
+  const failureEl = childElement(testCaseEl, 'failure');
+  const errorEl = childElement(testCaseEl, 'error');
+  const skippedEl = childElement(testCaseEl, 'skipped');
+  const problemEl = failureEl || errorEl;
+
+  let status: TestCase['status'] = 'pass';
+  let rawStatus = 'passed';
+  if (problemEl) {
+    status = 'fail';
+    rawStatus = failureEl ? 'failure' : 'error';
+  } else if (skippedEl) {
+    status = 'skip';
+    rawStatus = 'skipped';
+  }
+
+  let errorMessage: string | undefined;
+  let stackTrace: string | undefined;
+  if (problemEl) {
+    const body = problemEl.textContent?.trim() || '';
+    const type = problemEl.getAttribute('type')?.trim();
+    errorMessage = problemEl.getAttribute('message')?.trim() || body.split('\n')[0] || type;
+    stackTrace = body || undefined;
+  }
+
+  const logs: string[] = [];
+  if (skippedEl) {
+    const reason = skippedEl.getAttribute('message')?.trim() || skippedEl.textContent?.trim();
+    logs.push(reason ? `Skipped: ${reason}` : 'Skipped');
+  }
+
+  // Surefire records the other runs of a rerun test inside it: flaky* are failed runs before the final
+  // pass, rerun* are the failed reruns after a first failure
+  const failedRun = (el: Element): TestAttempt => ({
+    attempt: 0,
+    status: 'fail',
+    rawStatus: el.localName,
+    duration: numberAttr(el, 'time'),
+    errorMessage: el.getAttribute('message')?.trim() || el.textContent?.trim().split('\n')[0] || undefined,
+  });
+  const flakyRuns = ['flakyFailure', 'flakyError'].flatMap(tag => childElements(testCaseEl, tag)).map(failedRun);
+  const reruns = ['rerunFailure', 'rerunError'].flatMap(tag => childElements(testCaseEl, tag)).map(failedRun);
+  const ownRun: TestAttempt = { attempt: 0, status, rawStatus, duration: numberAttr(testCaseEl, 'time'), errorMessage };
+  const attempts = [...flakyRuns, ownRun, ...reruns].map((attempt, order) => ({ ...attempt, attempt: order }));
+
+  ['system-out', 'system-err'].forEach(tag => {
+    childElements(testCaseEl, tag).forEach(el => {
+      const text = el.textContent?.trim();
+      if (text) logs.push(text);
+    });
+  });
+
+  return {
+    id: `test-${index}`,
+    name,
+    className,
+    status,
+    rawStatus,
+    duration: numberAttr(testCaseEl, 'time'),
+    errorMessage: errorMessage || undefined,
+    stackTrace,
+    logs: logs.length > 0 ? logs : undefined,
+    timestamp: testCaseEl.getAttribute('timestamp') || suiteTimestamp,
+    attempts: attempts.length > 1 ? attempts : undefined,
+    flaky: flakyRuns.length > 0 && status === 'pass' ? true : undefined,
+  };
+}
+
+function collectSuite(suiteEl: Element, parentTimestamp: string | undefined, testCases: TestCase[]) {
+  const suiteName = suiteEl.getAttribute('name')?.trim() || '';
+  const timestamp = suiteEl.getAttribute('timestamp') || parentTimestamp;
+
+  childElements(suiteEl).forEach(el => {
+    if (el.localName === 'testcase') {
+      testCases.push(parseTestCase(el, suiteName, timestamp, testCases.length + 1));
+    } else if (el.localName === 'testsuite' || el.localName === 'testsuites') {
+      collectSuite(el, timestamp, testCases);
+    }
+  });
+}
+
+export function parseJUnitReport(xmlContent: string): TestCase[] {
+  const testCases: TestCase[] = [];
+
+  splitXmlDocuments(xmlContent).forEach(documentContent => {
+    const doc = parseXmlDocument(documentContent);
+    if (doc.documentElement) {
+      collectSuite(doc.documentElement, undefined, testCases);
+    }
+  });
+
+  return testCases;
+}
@@ -0,0 +1,102 @@
+import { TestCase, TestAttempt } from '@/types/analysis';
+import { baseName } from '@/lib/reportFiles';
+import { stripAnsi, firstLine } from '@/lib/text';
+
+interface JestAssertionResult {
+  ancestorTitles?: string[];
+  title: string;
+  fullName?: string;
+  status: string;
+  duration?: number | null;
+  failureMessages?: string[];
+  invocations?: number;
+  retryReasons?: string[];
+}
+
+interface JestTestResult {
+  name: string;
+  status?: string;
+  message?: string;
+  startTime?: number;
+  endTime?: number;
+  assertionResults?: JestAssertionResult[];
+}
+
+function mapStatus(status: string): TestCase['status'] {
+  if (status === 'passed') return 'pass';
+  if (status === 'failed') return 'fail';
+  return 'skip';
+}
+
+// Jest failure messages hold the assertion, the expected/received diff, then the stack;
+// everything before the first stack frame is what a reader needs as the error
+function splitFailure(message: string): { errorMessage?: string; stackTrace: string } {
+  const clean = stripAnsi(message).trim();
+  const stackStart = clean.search(/^\s+at /m);
+  const errorMessage = stackStart > 0 ? clean.slice(0, stackStart).trim() : firstLine(clean);
+  return { errorMessage, stackTrace: clean };
+}
+
+export function parseJestReport(jsonContent: string): TestCase[] {
+  const report: { testResults?: JestTestResult[] } = JSON.parse(jsonContent);
+  const testCases: TestCase[] = [];
+
+  (report.testResults || []).forEach(file => {
+    const fileName = baseName(file.name);
+    const assertions = file.assertionResults || [];
+
+    // A suite that failed to run (syntax error, missing module) has no assertions at all
+    if (assertions.length === 0 && file.status === 'failed') {
+      const { errorMessage, stackTrace } = splitFailure(file.message || 'Test suite failed to run');
+      testCases.push({
+        id: `test-${testCases.length + 1}`,
+        name: 'Test suite failed to run',
+        className: fileName,
+        status: 'fail',
+        rawStatus: 'failed',
+        duration: file.startTime && file.endTime ? (file.endTime - file.startTime) / 1000 : 0,
+        errorMessage,
+        stackTrace,
+      });
+      return;
+    }
+
+    assertions.forEach(assertion => {
+      const failure = assertion.failureMessages?.[0];
+      const { errorMessage, stackTrace } = failure ? splitFailure(failure) : { errorMessage: undefined, stackTrace: undefined };
+      const retries = assertion.retryReasons || [];
+      const status = mapStatus(assertion.status);
+      const duration = (assertion.duration || 0) / 1000;
+
+      const attempts: TestAttempt[] = retries.map((reason, attempt) => ({
+        attempt,
+        status: 'fail',
+        rawStatus: 'failed',
+        duration: 0,
+        errorMessage: splitFailure(reason).errorMessage,
+      }));
+      if (attempts.length > 0) {
+        attempts.push({ attempt: attempts.length, status, rawStatus: assertion.status, duration, errorMessage });
+      }
+
+      testCases.push({
+        id: `test-${testCases.length + 1}`,
+        name: assertion.title,
+        className: [fileName, ...(assertion.ancestorTitles || [])].join(' › '),
+        status,
+        rawStatus: assertion.status,
+        duration,
+        errorMessage,
+        stackTrace,
+        logs: assertion.failureMessages && assertion.failureMessages.length > 1
+          ? assertion.failureMessages.slice(1).map(stripAnsi)
+          : undefined,
+        timestamp: file.startTime ? new Date(file.startTime).toISOString() : undefined,
+        attempts: attempts.length > 0 ? attempts : undefined,
+        flaky: attempts.length > 0 && status === 'pass' ? true : undefined,
+      });
+    });
+  });
+
+  return testCases;
+}
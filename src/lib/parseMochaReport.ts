@@ -0,0 +1,55 @@
+import { TestCase } from '@/types/analysis';
+import { stripAnsi, formatAssertionError } from '@/lib/text';
+
+interface MochaTest {
+  title: string;
+  fullTitle?: string;
+  file?: string;
+  duration?: number;
+  err?: { message?: string; stack?: string; actual?: unknown; expected?: unknown; showDiff?: boolean };
+}
+
+interface MochaReport {
+  tests?: MochaTest[];
+  failures?: MochaTest[];
+  pending?: MochaTest[];
+  passes?: MochaTest[];
+}
+
+function display(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+// The json reporter has no suite tree; the describe path is fullTitle minus the test's own title
+function describePath(test: MochaTest): string | undefined {
+  const { fullTitle, title } = test;
+  if (!fullTitle || !fullTitle.endsWith(title)) return undefined;
+  return fullTitle.slice(0, fullTitle.length - title.length).trim() || undefined;
+}
+
+export function parseMochaReport(jsonContent: string): TestCase[] {
+  const report: MochaReport = JSON.parse(jsonContent);
+  const failed = new Set((report.failures || []).map(t => t.fullTitle || t.title));
+  const pending = new Set((report.pending || []).map(t => t.fullTitle || t.title));
+  const tests = report.tests || [...(report.passes || []), ...(report.failures || []), ...(report.pending || [])];
+
+  return tests.map((test, index): TestCase => {
+    const key = test.fullTitle || test.title;
+    const status: TestCase['status'] = failed.has(key) ? 'fail' : pending.has(key) ? 'skip' : 'pass';
+    const err = test.err || {};
+    const diff = err.showDiff !== false && (err.expected !== undefined || err.actual !== undefined)
+      ? `Expected: ${display(err.expected)}\nActual: ${display(err.actual)}`
+      : undefined;
+
+    return {
+      id: `test-${index + 1}`,
+      name: test.title,
+      className: describePath(test) || test.file || 'Mocha',
+      status,
+      rawStatus: status === 'fail' ? 'failed' : status === 'skip' ? 'pending' : 'passed',
+      duration: (test.duration || 0) / 1000,
+      errorMessage: status === 'fail' ? formatAssertionError(err.message, diff) : undefined,
+      stackTrace: status === 'fail' && err.stack ? stripAnsi(err.stack) : undefined,
+    };
+  });
+}
@@ -0,0 +1,98 @@
+import { TestCase, TestAttachment, Screenshot } from '@/types/analysis';
+import { mimeTypeFor, baseName } from '@/lib/reportFiles';
+import { stripAnsi, formatAssertionError } from '@/lib/text';
+
+interface MochawesomeTest {
+  title: string;
+  fullTitle?: string;
+  duration?: number;
+  state?: string;
+  pending?: boolean;
+  skipped?: boolean;
+  context?: string | null;
+  err?: { message?: string; estack?: string; diff?: string | null };
+}
+
+interface MochawesomeSuite {
+  title?: string;
+  file?: string;
+  fullFile?: string;
+  tests?: MochawesomeTest[];
+  suites?: MochawesomeSuite[];
+}
+
+function mapState(test: MochawesomeTest): TestCase['status'] {
+  if (test.state === 'failed') return 'fail';
+  if (test.state === 'passed') return 'pass';
+  return 'skip';
+}
+
+// addContext() values may be strings, {title, value} objects, or arrays of either;
+// cypress-mochawesome-reporter nests screenshot paths in arrays of arrays
+function contextValues(context: unknown): { title?: string; value: string }[] {
+  if (typeof context === 'string') return [{ value: context }];
+  if (Array.isArray(context)) return context.flatMap(contextValues);
+  if (context && typeof context === 'object' && 'value' in context) {
+    const { title, value } = context as { title?: string; value: unknown };
+    return contextValues(value).map(v => ({ title: v.title || title, value: v.value }));
+  }
+  return [];
+}
+
+function parseContext(context?: string | null): { title?: string; value: string }[] {
+  if (!context) return [];
+  try {
+    return contextValues(JSON.parse(context));
+  } catch {
+    return [{ value: context }];
+  }
+}
+
+export function parseMochawesomeReport(jsonContent: string): TestCase[] {
+  const report: { results?: MochawesomeSuite[] } = JSON.parse(jsonContent);
+  const testCases: TestCase[] = [];
+
+  const visitSuite = (suite: MochawesomeSuite, path: string[], file?: string) => {
+    const suitePath = suite.title ? [...path, suite.title] : path;
+    const suiteFile = suite.fullFile || suite.file || file;
+
+    (suite.tests || []).forEach(test => {
+      const index = testCases.length + 1;
+      const screenshots: Screenshot[] = [];
+      const attachments: TestAttachment[] = [];
+      const logs: string[] = [];
+
+      parseContext(test.context).forEach(({ title, value }) => {
+        const dataUri = value.match(/^data:(image\/[^;]+);base64,(.+)$/s);
+        const mimeType = mimeTypeFor(value);
+        if (dataUri) {
+          screenshots.push({ name: title || `screenshot-${index}-${screenshots.length + 1}.png`, mimeType: dataUri[1], base64Data: dataUri[2] });
+        } else if (mimeType?.startsWith('image/') || mimeType?.startsWith('video/')) {
+          attachments.push({ name: title || baseName(value), contentType: mimeType, path: value });
+        } else {
+          logs.push(title ? `${title}: ${value}` : value);
+        }
+      });
+
+      const status = mapState(test);
+      testCases.push({
+        id: `test-${index}`,
+        name: test.title,
+        className: suitePath.join(' › ') || suiteFile || 'Mocha',
+        status,
+        rawStatus: test.state || (test.pending ? 'pending' : 'skipped'),
+        duration: (test.duration || 0) / 1000,
+        errorMessage: status === 'fail' ? formatAssertionError(test.err?.message, test.err?.diff) : undefined,
+        stackTrace: status === 'fail' && test.err?.estack ? stripAnsi(test.err.estack) : undefined,
+        logs: logs.length > 0 ? logs : undefined,
+        screenshots: screenshots.length > 0 ? screenshots : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+      });
+    });
+
+    (suite.suites || []).forEach(child => visitSuite(child, suitePath, suiteFile));
+  };
+
+  (report.results || []).forEach(result => visitSuite(result, []));
+  return testCases;
+}
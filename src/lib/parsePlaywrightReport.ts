@@ -0,0 +1,200 @@
+import { TestCase, TestAttempt, TestAttachment, TestStep, Screenshot } from '@/types/analysis';
+import { stripAnsi, firstLine } from '@/lib/text';
+
+interface PlaywrightError {
+  message?: string;
+  stack?: string;
+  location?: { file: string; line: number; column: number };
+}
+
+interface PlaywrightStep {
+  title: string;
+  startTime?: string;
+  duration?: number;
+  error?: PlaywrightError;
+  steps?: PlaywrightStep[];
+}
+
+interface PlaywrightResult {
+  retry: number;
+  status: string;
+  duration: number;
+  startTime?: string;
+  error?: PlaywrightError;
+  errors?: PlaywrightError[];
+  stdout?: { text?: string; buffer?: string }[];
+  stderr?: { text?: string; buffer?: string }[];
+  attachments?: { name: string; contentType: string; path?: string; body?: string }[];
+  steps?: PlaywrightStep[];
+}
+
+interface PlaywrightTest {
+  projectName?: string;
+  projectId?: string;
+  expectedStatus?: string;
+  status?: string;
+  annotations?: { type: string; description?: string }[];
+  tags?: string[];
+  results?: PlaywrightResult[];
+}
+
+interface PlaywrightSpec {
+  title: string;
+  file?: string;
+  line?: number;
+  tags?: string[];
+  tests?: PlaywrightTest[];
+}
+
+interface PlaywrightSuite {
+  title: string;
+  file?: string;
+  specs?: PlaywrightSpec[];
+  suites?: PlaywrightSuite[];
+}
+
+function mapResultStatus(status: string): TestCase['status'] {
+  if (status === 'passed') return 'pass';
+  if (status === 'skipped') return 'skip';
+  return 'fail';
+}
+
+// `expected`/`unexpected` are relative to expectedStatus, so test.fail() tests that fail are passes
+function mapTestStatus(test: PlaywrightTest, lastResult?: PlaywrightResult): TestCase['status'] {
+  if (test.status === 'skipped') return 'skip';
+  if (test.status === 'unexpected') return 'fail';
+  if (test.status === 'expected' || test.status === 'flaky') {
+    return test.expectedStatus === 'skipped' ? 'skip' : 'pass';
+  }
+  return lastResult ? mapResultStatus(lastResult.status) : 'skip';
+}
+
+function resultErrors(result: PlaywrightResult): PlaywrightError[] {
+  if (result.errors?.length) return result.errors;
+  return result.error ? [result.error] : [];
+}
+
+function outputText(chunk: { text?: string; buffer?: string }): string {
+  if (chunk.text !== undefined) return chunk.text;
+  try {
+    return chunk.buffer ? atob(chunk.buffer) : '';
+  } catch {
+    return '';
+  }
+}
+
+function toTestCase(spec: PlaywrightSpec, test: PlaywrightTest, suitePath: string[], index: number): TestCase {
+  const results = test.results || [];
+  const lastResult = results[results.length - 1];
+  const logs: string[] = [];
+  const screenshots: Screenshot[] = [];
+  const attachments: TestAttachment[] = [];
+  const stepsToReproduce: string[] = [];
+  let steps: TestStep[] = [];
+  let failedStepIndex: number | undefined;
+
+  const attempts: TestAttempt[] = results.map(result => ({
+    attempt: result.retry,
+    status: mapResultStatus(result.status),
+    rawStatus: result.status,
+    duration: result.duration / 1000,
+    errorMessage: firstLine(stripAnsi(resultErrors(result)[0]?.message || '')),
+    timestamp: result.startTime,
+  }));
+
+  // Error details come from the most recent failing attempt
+  const failingResult = [...results].reverse().find(r => mapResultStatus(r.status) === 'fail');
+  const errors = failingResult ? resultErrors(failingResult) : [];
+  errors.forEach(error => {
+    if (error.location) {
+      logs.push(`Error location: ${error.location.file}:${error.location.line}:${error.location.column}`);
+    }
+  });
+
+  if (lastResult) {
+    [...(lastResult.stdout || []), ...(lastResult.stderr || [])].forEach(chunk => {
+      const text = stripAnsi(outputText(chunk)).trim();
+      if (text) logs.push(text);
+    });
+
+    (lastResult.attachments || []).forEach(attachment => {
+      if (attachment.contentType.startsWith('image/') && attachment.body) {
+        screenshots.push({
+          name: attachment.name.includes('.') ? attachment.name : `${attachment.name}.${attachment.contentType.split('/')[1]}`,
+          mimeType: attachment.contentType,
+          base64Data: attachment.body,
+        });
+      } else if (attachment.contentType.startsWith('text/') && attachment.body) {
+        logs.push(`${attachment.name}:\n${outputText({ buffer: attachment.body })}`);
+      } else {
+        attachments.push({ name: attachment.name, contentType: attachment.contentType, path: attachment.path });
+      }
+    });
+
+    const visitSteps = (resultSteps: PlaywrightStep[] = [], depth = 0): TestStep[] => resultSteps.map(step => {
+      const stepIndex = stepsToReproduce.push(`${'  '.repeat(depth)}${step.title}`) - 1;
+      const children = visitSteps(step.steps, depth + 1);
+      if (failedStepIndex === undefined && step.error) failedStepIndex = stepIndex;
+      return {
+        name: step.title,
+        status: step.error ? 'fail' : 'pass',
+        timestamp: step.startTime,
+        duration: step.duration !== undefined ? step.duration / 1000 : undefined,
+        errorMessage: step.error ? firstLine(stripAnsi(step.error.message || '')) : undefined,
+        steps: children.length > 0 ? children : undefined,
+      };
+    });
+    steps = visitSteps(lastResult.steps);
+  }
+
+  const labels: Record<string, string> = {};
+  (test.annotations || []).forEach(annotation => {
+    labels[annotation.type] = labels[annotation.type]
+      ? `${labels[annotation.type]}, ${annotation.description || ''}`
+      : annotation.description || annotation.type;
+  });
+  const tags = Array.from(new Set([...(spec.tags || []), ...(test.tags || [])]));
+  const status = mapTestStatus(test, lastResult);
+
+  return {
+    id: `test-${index}`,
+    name: spec.title,
+    className: suitePath.join(' › ') || spec.file || 'Playwright',
+    status,
+    rawStatus: test.status,
+    duration: lastResult ? lastResult.duration / 1000 : 0,
+    errorMessage: status === 'fail' ? firstLine(stripAnsi(errors[0]?.message || '')) : undefined,
+    stackTrace: status === 'fail' && errors[0]?.stack ? stripAnsi(errors[0].stack) : undefined,
+    logs: logs.length > 0 ? logs : undefined,
+    timestamp: lastResult?.startTime,
+    stepsToReproduce: stepsToReproduce.length > 0 ? stepsToReproduce : undefined,
+    failedStepIndex,
+    steps: steps.length > 0 ? steps : undefined,
+    screenshots: screenshots.length > 0 ? screenshots : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    labels: Object.keys(labels).length > 0 ? labels : undefined,
+    flaky: test.status === 'flaky' || undefined,
+    browser: test.projectName || test.projectId || undefined,
+    attempts: attempts.length > 1 ? attempts : undefined,
+    attachments: attachments.length > 0 ? attachments : undefined,
+  };
+}
+
+export function parsePlaywrightReport(jsonContent: string): TestCase[] {
+  const report: { suites?: PlaywrightSuite[] } = JSON.parse(jsonContent);
+  const testCases: TestCase[] = [];
+
+  const visitSuite = (suite: PlaywrightSuite, path: string[]) => {
+    const suitePath = suite.title ? [...path, suite.title] : path;
+
+    (suite.specs || []).forEach(spec => {
+      (spec.tests || []).forEach(test => {
+        testCases.push(toTestCase(spec, test, suitePath, testCases.length + 1));
+      });
+    });
+    (suite.suites || []).forEach(child => visitSuite(child, suitePath));
+  };
+
+  (report.suites || []).forEach(suite => visitSuite(suite, []));
+  return testCases;
+}
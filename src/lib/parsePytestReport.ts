@@ -0,0 +1,225 @@
+import { TestCase, TestAttempt, Screenshot } from '@/types/analysis';
+import { stripAnsi } from '@/lib/text';
+
+interface PytestPhase {
+  duration?: number;
+  outcome?: string;
+  longrepr?: string;
+  stdout?: string;
+  stderr?: string;
+  log?: { levelname?: string; name?: string; msg?: string }[];
+  crash?: { path?: string; lineno?: number; message?: string };
+}
+
+interface PytestJsonTest {
+  nodeid: string;
+  outcome: string;
+  setup?: PytestPhase;
+  call?: PytestPhase;
+  teardown?: PytestPhase;
+}
+
+interface PytestHtmlExtra {
+  name?: string;
+  format_type?: string;
+  content?: string;
+  mime_type?: string;
+  extension?: string;
+}
+
+interface PytestHtmlResult {
+  result: string;
+  testId?: string;
+  duration?: string;
+  resultsTableRow?: string[];
+  log?: string;
+  extras?: PytestHtmlExtra[];
+}
+
+const PHASES = ['setup', 'call', 'teardown'] as const;
+
+// xfailed is an expected failure and must never be counted as a defect; xpassed means the
+// expected failure did not happen, which pytest itself reports as a pass unless strict
+export function mapPytestOutcome(outcome: string): TestCase['status'] {
+  switch (outcome.toLowerCase()) {
+    case 'passed':
+    case 'xpassed':
+      return 'pass';
+    case 'failed':
+    case 'error':
+      return 'fail';
+    default:
+      return 'skip';
+  }
+}
+
+// tests/api/test_users.py::TestUsers::test_create[admin-201]
+export function splitNodeId(nodeid: string): Pick<TestCase, 'name' | 'className' | 'parameters'> {
+  const parts = nodeid.split('::');
+  const last = parts.pop() || nodeid;
+  const params = last.match(/^([^[]+)\[(.*)\]$/);
+  return {
+    name: last,
+    className: parts.join('::') || nodeid,
+    parameters: params ? [{ value: params[2] }] : undefined,
+  };
+}
+
+// The "E   " lines of a pytest traceback are the assertion and its introspection
+function assertionLines(text: string): string | undefined {
+  const lines = text.split('\n').filter(line => /^E\s/.test(line)).map(line => line.replace(/^E\s+/, ''));
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+// Skips are reported as a repr'd tuple: ('path/test_x.py', 12, 'Skipped: needs staging')
+function skipReason(longrepr?: string): string | undefined {
+  return longrepr?.match(/^\(.*?,\s*\d+,\s*['"](.*)['"]\)$/s)?.[1] || longrepr || undefined;
+}
+
+export function parsePytestJson(jsonContent: string): TestCase[] {
+  const report: { tests?: PytestJsonTest[]; created?: number } = JSON.parse(jsonContent);
+
+  return (report.tests || []).map((test, index): TestCase => {
+    const status = mapPytestOutcome(test.outcome);
+    const logs: string[] = [];
+    let duration = 0;
+    let failedPhase: PytestPhase | undefined;
+    let failedPhaseName: string | undefined;
+
+    PHASES.forEach(name => {
+      const phase = test[name];
+      if (!phase) return;
+      duration += phase.duration || 0;
+      if (phase.outcome && phase.outcome !== 'passed' && !failedPhase) {
+        failedPhase = phase;
+        failedPhaseName = name;
+      }
+      if (phase.stdout) logs.push(`[${name} stdout] ${phase.stdout.trim()}`);
+      if (phase.stderr) logs.push(`[${name} stderr] ${phase.stderr.trim()}`);
+      (phase.log || []).forEach(record => {
+        const source = [record.levelname || 'LOG', record.name].filter(Boolean).join(' ');
+        logs.push(`${source}: ${record.msg || ''}`);
+      });
+    });
+
+    const longrepr = failedPhase?.longrepr ? stripAnsi(failedPhase.longrepr) : undefined;
+    let errorMessage: string | undefined;
+    if (status === 'skip' && test.outcome !== 'xfailed') {
+      errorMessage = skipReason(longrepr);
+    } else if (failedPhase) {
+      errorMessage = failedPhase.crash?.message || (longrepr && assertionLines(longrepr));
+    }
+    if (failedPhaseName && failedPhaseName !== 'call' && status === 'fail') {
+      logs.unshift(`Error at ${failedPhaseName} of ${splitNodeId(test.nodeid).name}`);
+    }
+
+    return {
+      id: `test-${index + 1}`,
+      ...splitNodeId(test.nodeid),
+      status,
+      rawStatus: test.outcome,
+      duration,
+      errorMessage,
+      stackTrace: status !== 'pass' && longrepr && !longrepr.startsWith('(') ? longrepr : undefined,
+      logs: logs.length > 0 ? logs : undefined,
+      timestamp: report.created ? new Date(report.created * 1000).toISOString() : undefined,
+    };
+  });
+}
+
+// "1 ms", "2.5 s" or "00:01:05"
+function parseHtmlDuration(text?: string): number {
+  if (!text) return 0;
+  const clock = text.match(/^(\d+):(\d+):(\d+(?:\.\d+)?)$/);
+  if (clock) return Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  const value = parseFloat(text);
+  if (isNaN(value)) return 0;
+  return /ms/.test(text) ? value / 1000 : value;
+}
+
+// pytest-html logs the traceback followed by "---- Captured stdout call ----" sections
+function splitHtmlLog(log: string): { traceback?: string; captured: string[] } {
+  const [traceback, ...sections] = stripAnsi(log).split(/^-{2,} (?=Captured )/m);
+  return {
+    traceback: traceback.trim() || undefined,
+    captured: sections.map(section => section.replace(/\s*-{2,}\s*\n/, '\n').trim()).filter(Boolean),
+  };
+}
+
+function htmlCell(row: string[] | undefined, column: string): string | undefined {
+  const cell = row?.find(html => html.includes(`col-${column}`));
+  if (!cell) return undefined;
+  return new DOMParser().parseFromString(cell, 'text/html').body.textContent?.trim() || undefined;
+}
+
+function htmlResultToTestCase(nodeid: string, result: PytestHtmlResult, index: number): TestCase {
+  const status = mapPytestOutcome(result.result);
+  const { traceback, captured } = splitHtmlLog(result.log || '');
+  const screenshots: Screenshot[] = [];
+
+  (result.extras || []).forEach((extra, i) => {
+    if (extra.format_type === 'image' && extra.content && !/^(https?:|\.|\/)/.test(extra.content)) {
+      screenshots.push({
+        name: extra.name || `screenshot-${index}-${i + 1}.${extra.extension || 'png'}`,
+        mimeType: extra.mime_type || 'image/png',
+        base64Data: extra.content,
+      });
+    } else if (extra.content && extra.format_type !== 'image') {
+      captured.push(extra.name ? `${extra.name}: ${extra.content}` : extra.content);
+    }
+  });
+
+  return {
+    id: `test-${index}`,
+    ...splitNodeId(nodeid),
+    status,
+    rawStatus: result.result.toLowerCase(),
+    duration: parseHtmlDuration(result.duration || htmlCell(result.resultsTableRow, 'duration')),
+    errorMessage: status === 'fail' && traceback ? assertionLines(traceback) || traceback.split('\n').pop() : undefined,
+    stackTrace: status !== 'pass' && traceback && traceback !== 'No log output captured.' ? traceback : undefined,
+    logs: captured.length > 0 ? captured : undefined,
+    screenshots: screenshots.length > 0 ? screenshots : undefined,
+  };
+}
+
+// pytest-html 4 keeps every result as JSON in a data attribute; reruns come first
+function parseHtmlDataBlob(blob: string): TestCase[] {
+  const data: { tests?: Record<string, PytestHtmlResult[]> } = JSON.parse(blob);
+  return Object.entries(data.tests || {}).map(([nodeid, results], index) => {
+    const final = results.filter(r => r.result.toLowerCase() !== 'rerun').pop() || results[results.length - 1];
+    const testCase = htmlResultToTestCase(nodeid, final, index + 1);
+    if (results.length > 1) {
+      testCase.attempts = results.map((result, attempt): TestAttempt => {
+        const run = htmlResultToTestCase(nodeid, result, index + 1);
+        return { attempt, status: result === final ? run.status : 'fail', rawStatus: run.rawStatus, duration: run.duration, errorMessage: run.errorMessage };
+      });
+      testCase.flaky = testCase.status === 'pass' ? true : undefined;
+    }
+    return testCase;
+  });
+}
+
+// pytest-html 3 renders one tbody per test with the log in a following row
+function parseHtmlTable(doc: Document): TestCase[] {
+  return Array.from(doc.querySelectorAll('#results-table tbody.results-table-row')).map((row, index) => {
+    const logElement = row.querySelector('.extra .log');
+    logElement?.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+    const extras: PytestHtmlExtra[] = Array.from(row.querySelectorAll('.extra .image img')).map(img => {
+      const src = img.getAttribute('src') || '';
+      const dataUri = src.match(/^data:(image\/[^;]+);base64,(.+)$/s);
+      return dataUri ? { format_type: 'image', mime_type: dataUri[1], content: dataUri[2] } : { format_type: 'url', name: 'image', content: src };
+    });
+    return htmlResultToTestCase(row.querySelector('.col-name')?.textContent?.trim() || `test-${index + 1}`, {
+      result: row.querySelector('.col-result')?.textContent?.trim() || 'skipped',
+      duration: row.querySelector('.col-duration')?.textContent?.trim(),
+      log: logElement?.textContent || '',
+      extras,
+    }, index + 1);
+  });
+}
+
+export function parsePytestHtml(htmlContent: string): TestCase[] {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const blob = doc.querySelector('#data-container')?.getAttribute('data-jsonblob');
+  return blob ? parseHtmlDataBlob(blob) : parseHtmlTable(doc);
+}
@@ -1,9 +1,68 @@
 import { TestCase, Screenshot } from '@/types/analysis';
+import { ExtentVersion, readExtentModel } from '@/lib/extentModel';
+import { ReportFile, AdapterDiagnostics } from '@/lib/reportParsers';
+import { createImageResolver, dedupeScreenshots, mimeTypeFor } from '@/lib/reportFiles';
 
-export function parseSparkExtentReport(htmlContent: string): TestCase[] {
+export interface ExtentParseOptions {
+  // Files uploaded alongside the report (zip or folder), used to resolve relative screenshot paths
+  files?: ReportFile[];
+  // Folder of the report inside those files
+  basePath?: string;
+}
+
+export interface ExtentReport {
+  testCases: TestCase[];
+  // Set when the embedded model was read, which is the only extraction that differs per version
+  version?: ExtentVersion;
+  environment?: Record<string, string>;
+  diagnostics: AdapterDiagnostics;
+}
+
+// Extent v3-v5 dashboards list the run's system info in a two-column table under an "Environment" heading
+const ENVIRONMENT_HEADING = /environment|system info/i;
+
+function readEnvironmentTable(doc: Document): Record<string, string> | undefined {
+  const table = Array.from(doc.querySelectorAll('table')).find(candidate => {
+    if (/^(env|sysenv)/i.test(candidate.id)) return true;
+    const container = candidate.closest('.card, .card-panel, section');
+    const heading = container?.querySelector('.card-header, .card-title, .panel-name, .label, h1, h2, h3, h4, h5, h6');
+    return !!heading && !heading.contains(candidate) && ENVIRONMENT_HEADING.test(heading.textContent || '');
+  });
+  if (!table) return undefined;
+
+  const environment: Record<string, string> = {};
+  table.querySelectorAll('tr').forEach(row => {
+    const [name, value] = Array.from(row.querySelectorAll('td')).map(cell => cell.textContent?.trim() || '');
+    if (name && value !== undefined) environment[name] = value;
+  });
+  return Object.keys(environment).length > 0 ? environment : undefined;
+}
+
+export function parseSparkExtentReport(htmlContent: string, options: ExtentParseOptions = {}): TestCase[] {
+  return parseExtentReport(htmlContent, options).testCases;
+}
+
+export function parseExtentReport(htmlContent: string, options: ExtentParseOptions = {}): ExtentReport {
   const parser = new DOMParser();
   const doc = parser.parseFromString(htmlContent, 'text/html');
+  const diagnostics: AdapterDiagnostics = { guessedStatus: [], ignored: [], notes: [] };
+  const { testCases, version } = extentTestCases(doc, htmlContent, options, diagnostics);
+  return { testCases, version, environment: readEnvironmentTable(doc), diagnostics };
+}
+
+// Records which strategy found the tests, since each one below is less reliable than the last
+function extentTestCases(doc: Document, htmlContent: string, options: ExtentParseOptions, diagnostics: AdapterDiagnostics): { testCases: TestCase[]; version?: ExtentVersion } {
   const testCases: TestCase[] = [];
+  const resolveImage = createImageResolver(options.files, options.basePath);
+  
+  // Newer Extent reports embed their test tree as JSON; it beats guessing from markup
+  const model = readExtentModel(doc, htmlContent, resolveImage);
+  if (model && model.testCases.length > 0) {
+    diagnostics.strategy = model.version ? `Embedded JSON model (Extent ${model.version})` : 'Embedded JSON model';
+    diagnostics.nodeCount = model.testCases.length;
+    return model;
+  }
+  diagnostics.notes.push(model ? 'Embedded JSON model found but it held no tests' : 'No embedded JSON model; tests were read from the page markup');
   
   // Spark Extent Report specific selectors
   const selectors = [
@@ -30,6 +89,7 @@ export function parseSparkExtentReport(htmlContent: string): TestCase[] {
     const nodes = doc.querySelectorAll(selector);
     if (nodes.length > 0) {
       testNodes = nodes;
+      diagnostics.strategy = `DOM selector "${selector}"`;
       break;
     }
   }
@@ -38,7 +98,11 @@ export function parseSparkExtentReport(htmlContent: string): TestCase[] {
   if (testNodes.length === 0) {
     const allElements = doc.querySelectorAll('[class*="pass"], [class*="fail"], [class*="skip"], [class*="error"]');
     testNodes = Array.from(allElements);
+    diagnostics.strategy = 'Elements with pass/fail/skip classes';
+    diagnostics.reliability = 'low';
   }
+  diagnostics.nodeCount = testNodes.length;
+  let unnamed = 0;
   
   testNodes.forEach((node, index) => {
     // Extract test name
@@ -55,8 +119,9 @@ export function parseSparkExtentReport(htmlContent: string): TestCase[] {
       name = node.textContent?.trim().split('\n')[0]?.substring(0, 100) || `Test ${index + 1}`;
     }
     
-    // Extract status
+    // Extract status; nodes with no indicator at all are counted as passed, which is a guess
     let status: 'pass' | 'fail' | 'skip' = 'pass';
+    let statusRead = true;
     const nodeText = node.textContent?.toLowerCase() || '';
     const nodeClass = node.className?.toLowerCase() || '';
     const nodeHtml = node.innerHTML?.toLowerCase() || '';
@@ -71,11 +136,14 @@ export function parseSparkExtentReport(htmlContent: string): TestCase[] {
     } else if (nodeClass.includes('pass') || nodeHtml.includes('pass') || 
                nodeHtml.includes('✓') || nodeHtml.includes('success')) {
       status = 'pass';
+    } else {
+      statusRead = false;
     }
     
     // Also check for status badge/icon elements
     const statusEl = node.querySelector('.status, .badge, [class*="status"], .test-status');
     if (statusEl) {
+      statusRead = true;
       const statusText = statusEl.textContent?.toLowerCase() || '';
       const statusClass = statusEl.className?.toLowerCase() || '';
       if (statusText.includes('fail') || statusClass.includes('fail') || statusClass.includes('danger')) {
@@ -133,31 +201,36 @@ export function parseSparkExtentReport(htmlContent: string): TestCase[] {
       });
     }
     
-    // Extract screenshots (base64 encoded images)
+    // Extract screenshots (base64 encoded images, or relative files when the report folder was uploaded)
     const screenshots: Screenshot[] = [];
-    const imgSelectors = ['img[src^="data:image"]', 'img.screenshot', '.screenshot img', '.test-img img', '.media img'];
-    imgSelectors.forEach(sel => {
-      const imgEls = node.querySelectorAll(sel);
-      imgEls.forEach((img, imgIdx) => {
-        const src = (img as HTMLImageElement).src;
-        if (src?.startsWith('data:image')) {
-          const match = src.match(/data:([^;]+);base64,(.+)/);
-          if (match) {
-            screenshots.push({
-              name: `screenshot-${testCases.length + 1}-${imgIdx + 1}.png`,
-              mimeType: match[1],
-              base64Data: match[2],
-            });
-          }
+    node.querySelectorAll('img[src]').forEach((img, imgIdx) => {
+      // The raw attribute, not .src, which the browser has already resolved against the page URL
+      const src = img.getAttribute('src') || '';
+      if (src.startsWith('data:image')) {
+        const match = src.match(/data:([^;]+);base64,(.+)/);
+        if (match) {
+          screenshots.push({
+            name: `screenshot-${testCases.length + 1}-${imgIdx + 1}.png`,
+            mimeType: match[1],
+            base64Data: match[2],
+          });
         }
-      });
+      } else {
+        const resolved = resolveImage(src);
+        if (resolved) screenshots.push(resolved);
+      }
     });
     
     // Also look for screenshot links/attachments
-    const screenshotLinks = node.querySelectorAll('a[href*="screenshot"], a[href*="image"], .screenshot-link');
-    screenshotLinks.forEach((link, linkIdx) => {
-      const href = (link as HTMLAnchorElement).href;
-      if (href && (href.includes('.png') || href.includes('.jpg') || href.includes('.jpeg'))) {
+    const linkedImages = new Set<string>();
+    node.querySelectorAll('a[href]').forEach(link => {
+      const href = link.getAttribute('href') || '';
+      if (!mimeTypeFor(href)?.startsWith('image/') || linkedImages.has(href)) return;
+      linkedImages.add(href);
+      const resolved = resolveImage(href);
+      if (resolved) {
+        screenshots.push(resolved);
+      } else {
         // Note: We can't fetch external URLs here, but we note them
         logs.push(`Screenshot available: ${href}`);
       }
@@ -194,14 +267,21 @@ export function parseSparkExtentReport(htmlContent: string): TestCase[] {
         stackTrace: stackTrace || undefined,
         logs: logs.length > 0 ? logs : undefined,
         stepsToReproduce: stepsToReproduce.length > 0 ? stepsToReproduce : undefined,
-        screenshots: screenshots.length > 0 ? screenshots : undefined,
+        screenshots: screenshots.length > 0 ? dedupeScreenshots(screenshots) : undefined,
         timestamp: new Date().toISOString(),
       });
+      if (!statusRead) diagnostics.guessedStatus.push(name);
+    } else {
+      unnamed++;
     }
   });
+  if (unnamed > 0) diagnostics.ignored.push(`${unnamed} matched element${unnamed !== 1 ? 's' : ''} without a usable test name`);
   
   // If no tests found with DOM parsing, try regex extraction
   if (testCases.length === 0) {
+    diagnostics.strategy = 'Pass/fail/skip counts in the page text';
+    diagnostics.reliability = 'low';
+    diagnostics.notes.push('No test elements found; tests were reconstructed from summary counts, so names and statuses are placeholders');
     const bodyText = doc.body?.textContent || htmlContent;
     
     // Look for pass/fail counts
@@ -229,9 +309,10 @@ export function parseSparkExtentReport(htmlContent: string): TestCase[] {
         duration: 0,
       });
     }
+    diagnostics.guessedStatus.push(...testCases.map(t => t.name));
   }
   
-  return testCases;
+  return { testCases };
 }
 
 export function extractRawContent(htmlContent: string): string {
@@ -0,0 +1,166 @@
+import { TestCase, TestAttachment, TestStep } from '@/types/analysis';
+import { parseXmlDocument, childElements, childElement, childText } from '@/lib/xml';
+
+// Control structures wrap keywords in RF 4+. IF/TRY only group their branches, so they add no step
+const CONTROL_ELEMENTS = ['for', 'while', 'group', 'iter', 'branch'];
+const TRANSPARENT_ELEMENTS = ['if', 'try'];
+const LOGGED_LEVELS = ['INFO', 'WARN', 'ERROR', 'FAIL'];
+
+interface RobotTrace {
+  steps: string[];
+  logs: string[];
+  attachments: TestAttachment[];
+  failedStepIndex?: number;
+}
+
+function mapStatus(status?: string | null): TestCase['status'] {
+  if (status === 'PASS') return 'pass';
+  if (status === 'FAIL') return 'fail';
+  return 'skip';
+}
+
+// RF < 7 writes "20240501 10:00:00.000"; RF 7 writes ISO start times
+function parseRobotTime(value?: string | null): Date | undefined {
+  if (!value || value === 'N/A') return undefined;
+  const legacy = value.match(/^(\d{4})(\d{2})(\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d+)?)$/);
+  const date = new Date(legacy ? `${legacy[1]}-${legacy[2]}-${legacy[3]}T${legacy[4]}` : value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function statusTiming(statusEl?: Element): { duration: number; timestamp?: string } {
+  if (!statusEl) return { duration: 0 };
+  const start = parseRobotTime(statusEl.getAttribute('start') || statusEl.getAttribute('starttime'));
+  const elapsed = statusEl.getAttribute('elapsed');
+  const end = parseRobotTime(statusEl.getAttribute('endtime'));
+  const duration = elapsed ? parseFloat(elapsed) || 0 : start && end ? (end.getTime() - start.getTime()) / 1000 : 0;
+  return { duration, timestamp: start?.toISOString() };
+}
+
+function keywordText(kw: Element): string {
+  const name = kw.getAttribute('name') || kw.localName.toUpperCase();
+  const library = kw.getAttribute('library') || kw.getAttribute('owner');
+  const type = kw.getAttribute('type');
+  const assigns = childElements(kw, 'var').map(v => v.textContent?.trim()).filter(Boolean);
+  const args = childElements(kw, 'arg').map(a => a.textContent?.trim() || '');
+  const prefix = type && ['SETUP', 'TEARDOWN'].includes(type) ? `[${type.toLowerCase()}] ` : '';
+  const call = [library ? `${library}.${name}` : name, ...args].join('    ');
+  return `${prefix}${assigns.length > 0 ? `${assigns.join(', ')} = ` : ''}${call}`;
+}
+
+function controlText(el: Element): string {
+  const type = el.getAttribute('type') || el.localName.toUpperCase();
+  const vars = childElements(el, 'var').map(v => `${v.getAttribute('name') ? `${v.getAttribute('name')}=` : ''}${v.textContent?.trim() || ''}`);
+  const values = childElements(el, 'value').map(v => v.textContent?.trim());
+  return [type, el.getAttribute('condition'), ...vars, el.getAttribute('flavor'), ...values].filter(Boolean).join('    ');
+}
+
+// Messages can embed screenshots as HTML: <img src="selenium-screenshot-1.png" width="800px">
+function readMessage(msg: Element, trace: RobotTrace): TestStep | undefined {
+  const level = msg.getAttribute('level') || 'INFO';
+  const text = msg.textContent?.trim() || '';
+  const entry = {
+    status: level === 'FAIL' ? 'fail' as const : 'pass' as const,
+    level: level.toLowerCase(),
+    timestamp: parseRobotTime(msg.getAttribute('time') || msg.getAttribute('timestamp'))?.toISOString(),
+  };
+  if (msg.getAttribute('html') === 'true') {
+    const src = text.match(/<img[^>]*src="([^"]+)"/)?.[1];
+    if (src) {
+      const attachment = { name: src.split('/').pop() || src, contentType: 'image/png', path: src };
+      trace.attachments.push(attachment);
+      return { ...entry, name: attachment.name, attachments: [attachment] };
+    }
+  }
+  if (!text || !LOGGED_LEVELS.includes(level)) return undefined;
+  trace.logs.push(`[${level}] ${text}`);
+  return { ...entry, name: text };
+}
+
+// Fills the flat outline in trace.steps and returns the same keywords as a tree with their messages
+function walkBody(parent: Element, depth: number, trace: RobotTrace): TestStep[] {
+  const nodes: TestStep[] = [];
+  childElements(parent).forEach(el => {
+    if (el.localName === 'msg') {
+      const entry = readMessage(el, trace);
+      if (entry) nodes.push(entry);
+      return;
+    }
+    const statusEl = childElement(el, 'status');
+    // Branches that were not taken are recorded as NOT RUN
+    if (statusEl?.getAttribute('status') === 'NOT RUN') return;
+    if (TRANSPARENT_ELEMENTS.includes(el.localName)) {
+      nodes.push(...walkBody(el, depth, trace));
+      return;
+    }
+    const isKeyword = el.localName === 'kw';
+    if (!isKeyword && !CONTROL_ELEMENTS.includes(el.localName)) return;
+
+    const indent = '  '.repeat(depth);
+    const text = isKeyword ? keywordText(el) : controlText(el);
+    const rawStatus = statusEl?.getAttribute('status') || undefined;
+    trace.steps.push(`${indent}${text}`);
+    // The deepest failing step is the most specific; parents are visited first, so later wins
+    if (rawStatus === 'FAIL') trace.failedStepIndex = trace.steps.length - 1;
+    const children = walkBody(el, depth + 1, trace);
+    nodes.push({
+      name: text,
+      status: mapStatus(rawStatus),
+      rawStatus,
+      ...statusTiming(statusEl),
+      errorMessage: rawStatus === 'FAIL' ? statusEl?.textContent?.trim() || undefined : undefined,
+      steps: children.length > 0 ? children : undefined,
+    });
+  });
+  return nodes;
+}
+
+function parseRobotTest(testEl: Element, suitePath: string[], index: number): TestCase {
+  const statusEl = childElement(testEl, 'status');
+  const rawStatus = statusEl?.getAttribute('status') || 'NOT RUN';
+  const status = mapStatus(rawStatus);
+  const trace: RobotTrace = { steps: [], logs: [], attachments: [] };
+  const steps = walkBody(testEl, 0, trace);
+
+  const tags = childElements(testEl, 'tag').map(tag => tag.textContent?.trim()).filter(Boolean);
+  // RF < 4 wraps tags in <tags>
+  const tagsEl = childElement(testEl, 'tags');
+  if (tagsEl) tags.push(...childElements(tagsEl, 'tag').map(tag => tag.textContent?.trim()).filter(Boolean));
+  const message = statusEl?.textContent?.trim();
+  const documentation = childText(testEl, 'doc');
+  const logs = documentation ? [documentation, ...trace.logs] : trace.logs;
+
+  return {
+    id: `test-${index}`,
+    name: testEl.getAttribute('name') || `Test ${index}`,
+    className: suitePath.join('.') || 'Robot Suite',
+    status,
+    rawStatus,
+    ...statusTiming(statusEl),
+    errorMessage: status !== 'pass' && message ? message : undefined,
+    logs: logs.length > 0 ? logs : undefined,
+    stepsToReproduce: trace.steps.length > 0 ? trace.steps : undefined,
+    failedStepIndex: status === 'fail' ? trace.failedStepIndex : undefined,
+    steps: steps.length > 0 ? steps : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    attachments: trace.attachments.length > 0 ? trace.attachments : undefined,
+  };
+}
+
+export function parseRobotReport(xmlContent: string): TestCase[] {
+  const doc = parseXmlDocument(xmlContent);
+  const testCases: TestCase[] = [];
+
+  const visitSuite = (suiteEl: Element, path: string[]) => {
+    const suitePath = [...path, suiteEl.getAttribute('name') || 'Suite'];
+    childElements(suiteEl).forEach(el => {
+      if (el.localName === 'test') {
+        testCases.push(parseRobotTest(el, suitePath, testCases.length + 1));
+      } else if (el.localName === 'suite') {
+        visitSuite(el, suitePath);
+      }
+    });
+  };
+
+  childElements(doc.documentElement, 'suite').forEach(suite => visitSuite(suite, []));
+  return testCases;
+}
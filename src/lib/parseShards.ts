@@ -0,0 +1,67 @@
+import { parseReport } from '@/lib/reportParsers';
+import { mergeReports, MergedReport } from '@/lib/mergeReports';
+import { readReportFiles, SelectedFile } from '@/lib/reportFiles';
+
+export interface ParseProgress {
+  stage: 'reading' | 'parsing';
+  bytesRead: number;
+  totalBytes: number;
+  // Tests in the reports parsed so far; the DOM parse of one report gives no count until it finishes
+  testsFound: number;
+  // Report currently being read or parsed
+  fileName?: string;
+}
+
+// Reading emits a chunk every few KB; the UI only needs a few updates per second
+const PROGRESS_INTERVAL_MS = 100;
+
+// AbortSignal.throwIfAborted is missing from older browsers and jsdom
+function stopIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw signal.reason;
+}
+
+// Reads and parses every shard (one group of picked files per report) and merges the results.
+// `signal` is checked between files: once a file is being parsed, it is parsed to the end
+export async function parseShards(
+  shards: SelectedFile[][],
+  onProgress: (progress: ParseProgress) => void,
+  signal?: AbortSignal
+): Promise<MergedReport> {
+  const progress: ParseProgress = {
+    stage: 'reading',
+    bytesRead: 0,
+    totalBytes: shards.flat().reduce((total, { file }) => total + file.size, 0),
+    testsFound: 0,
+  };
+  let lastReport = 0;
+  const report = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+    lastReport = now;
+    onProgress({ ...progress });
+  };
+
+  const parsed = [];
+  for (const shard of shards) {
+    stopIfAborted(signal);
+    progress.stage = 'reading';
+    progress.fileName = shard[0]?.path;
+    report(true);
+    const input = await readReportFiles(shard, bytes => {
+      progress.bytesRead += bytes;
+      report();
+    });
+
+    stopIfAborted(signal);
+    progress.stage = 'parsing';
+    progress.fileName = input.fileName;
+    report(true);
+    const result = parseReport(input);
+    parsed.push(result);
+    progress.testsFound += result.testCases.length;
+    report(true);
+  }
+
+  stopIfAborted(signal);
+  return mergeReports(parsed);
+}
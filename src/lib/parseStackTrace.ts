@@ -0,0 +1,292 @@
+import { ParsedStackTrace, StackException, StackFrame } from '@/types/analysis';
+import { stripAnsi } from '@/lib/text';
+
+type Runtime = ParsedStackTrace['runtime'];
+
+// at com.shop.CartTest.addsTax(CartTest.java:42), at java.base/java.lang.Thread.run(Thread.java:833)
+const JAVA_FRAME = /^\s*at\s+(?:\S*\/)?([\w$.]+)\.([\w$<>-]+)\(([\w$.-]+\.\w+|Native Method|Unknown Source)(?::(\d+))?\)\s*$/;
+// at Object.<anonymous> (/app/test/cart.test.js:10:5), at /app/cart.js:3:1
+const JS_FRAME = /^\s*at\s+(?:(.+?)\s+\()?((?:file:\/\/|node:)?[^\s()]+?):(\d+):(\d+)\)?\s*$/;
+// at Shop.Tests.CartTests.AddsTax() in C:\src\CartTests.cs:line 42
+const DOTNET_FRAME = /^\s*at\s+([\w.`+<>[\],]+)\.([\w`<>[\]|]+)\(([^)]*)\)(?:\s+in\s+(.+):line\s+(\d+))?\s*$/;
+// File "tests/test_cart.py", line 12, in test_total
+const PYTHON_FRAME = /^\s*File "(.+)", line (\d+)(?:, in (.+))?\s*$/;
+// gdb "#1  0x0000555555555189 in parse_header (buf=0x0) at src/http.c:42", ASan "#0 0x4f1c3a in parse_header /src/http.c:42:7"
+const NATIVE_FRAME = /^\s*#\d+\s+(?:(0x[0-9a-f]+)\s+in\s+)?(\S+)(.*)$/i;
+
+// "Caused by: java.io.IOException: disk full", "TypeError: x is undefined", "AssertionError [ERR_ASSERTION]: ..."
+const EXCEPTION_HEADER = /^\s*(?:(Caused by|Suppressed|\[cause\]):\s*)?([A-Za-z_$][\w$]*(?:[.$+][\w$`]+)*)(?:\s\[\w+\])?(?::\s*(.*))?$/;
+const EXCEPTION_TYPE = /(Exception|Error|Throwable|Failure|Fault)$/;
+const NATIVE_HEADER = /signal (SIG\w+),?\s*(.*)|(\w+Sanitizer):\s*(.*)/;
+const OMITTED_FRAMES = /^\s*\.\.\. (\d+) more/;
+const END_OF_INNER = /^\s*--- End of inner exception stack trace ---/;
+const PYTHON_CHAIN = /^(The above exception was the direct cause|During handling of the above exception)/;
+
+const JAVA_FRAMEWORK = /^(java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|groovy|org\.codehaus\.groovy|org\.junit|junit|org\.testng|org\.apache\.maven|org\.gradle|worker\.org\.gradle|org\.openqa\.selenium|io\.cucumber|cucumber|org\.springframework|org\.hamcrest|org\.assertj|org\.mockito|net\.bytebuddy|io\.restassured|com\.intellij)\./;
+const DOTNET_FRAMEWORK = /^(System|Microsoft|NUnit|Xunit|MSTest|Moq|Castle|OpenQA\.Selenium|FluentAssertions|Shouldly|TechTalk\.SpecFlow|Reqnroll)\./;
+const JS_FRAMEWORK = /node_modules[\\/]|^node:|^internal[\\/]|^<anonymous>$/;
+const PYTHON_FRAMEWORK = /site-packages|dist-packages|[\\/]lib[\\/]python\d|^<frozen /;
+const PYTHON_TEST_RUNNERS = /^(_pytest|pytest|unittest|pluggy)$/;
+const NATIVE_SYSTEM_LIBRARY = /^\/(usr\/)?lib/;
+
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() || path;
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.\w+$/, '');
+}
+
+function javaFrame(match: RegExpMatchArray): StackFrame {
+  const hasFile = /\.\w+$/.test(match[3]);
+  return {
+    module: match[1],
+    method: match[2],
+    file: hasFile ? match[3] : undefined,
+    line: match[4] ? parseInt(match[4]) : undefined,
+    framework: JAVA_FRAMEWORK.test(match[1]),
+  };
+}
+
+function jsFrame(match: RegExpMatchArray): StackFrame {
+  const file = match[2].replace(/^file:\/\//, '');
+  const nodeModule = file.match(/node_modules[\\/]((?:@[^\\/]+[\\/])?[^\\/]+)/);
+  return {
+    module: nodeModule ? nodeModule[1].replace(/\\/g, '/') : file.startsWith('node:') ? file : stripExtension(baseName(file)),
+    method: match[1]?.replace(/^async\s+/, ''),
+    file,
+    line: parseInt(match[3]),
+    column: parseInt(match[4]),
+    framework: JS_FRAMEWORK.test(file),
+  };
+}
+
+function dotnetFrame(match: RegExpMatchArray): StackFrame {
+  return {
+    module: match[1],
+    method: match[2],
+    file: match[4],
+    line: match[5] ? parseInt(match[5]) : undefined,
+    framework: DOTNET_FRAMEWORK.test(`${match[1]}.`),
+  };
+}
+
+function pythonFrame(match: RegExpMatchArray): StackFrame {
+  const file = match[1];
+  const sitePackage = file.match(/(?:site|dist)-packages[\\/]([^\\/]+)/);
+  const module = sitePackage ? stripExtension(sitePackage[1]) : stripExtension(baseName(file));
+  return {
+    module,
+    method: match[3]?.trim(),
+    file,
+    line: parseInt(match[2]),
+    framework: PYTHON_FRAMEWORK.test(file) || PYTHON_TEST_RUNNERS.test(module),
+  };
+}
+
+function nativeFrame(match: RegExpMatchArray): StackFrame | undefined {
+  const rest = match[3];
+  const location = rest.match(/(?:^|\s)(?:at\s+)?([^\s():]+\.\w+):(\d+)(?::(\d+))?/);
+  const library = rest.match(/(?:from\s+|\()(\/[^\s()+]+)/)?.[1];
+  // "#1 Fix login" in pasted notes is not a frame
+  if (!match[1] && !location) return undefined;
+  return {
+    module: library ? baseName(library) : location ? baseName(location[1]) : undefined,
+    method: match[2] === '??' ? undefined : match[2],
+    file: location?.[1],
+    line: location ? parseInt(location[2]) : undefined,
+    column: location?.[3] ? parseInt(location[3]) : undefined,
+    framework: !location && (!library || NATIVE_SYSTEM_LIBRARY.test(library)) || /^__/.test(match[2]),
+  };
+}
+
+function readFrame(line: string, runtime: Runtime): StackFrame | undefined {
+  let match: RegExpMatchArray | null;
+  switch (runtime) {
+    case 'java':
+      match = line.match(JAVA_FRAME);
+      return match ? javaFrame(match) : undefined;
+    case 'javascript':
+      match = line.match(JS_FRAME);
+      return match ? jsFrame(match) : undefined;
+    case 'dotnet':
+      match = line.match(DOTNET_FRAME);
+      return match ? dotnetFrame(match) : undefined;
+    case 'python':
+      match = line.match(PYTHON_FRAME);
+      return match ? pythonFrame(match) : undefined;
+    case 'native':
+      match = line.match(NATIVE_FRAME);
+      return match ? nativeFrame(match) : undefined;
+  }
+}
+
+// The first line that reads as a frame decides the runtime. Python's `File "…", line N` can't be mistaken for
+// anything else; Java's `at a.b(File.java:1)` is tried before JavaScript's and .NET's looser `at` frames, and
+// gdb-style native frames last
+function detectRuntime(lines: string[]): Runtime | undefined {
+  const order: Runtime[] = ['python', 'java', 'javascript', 'dotnet', 'native'];
+  for (const line of lines) {
+    const runtime = order.find(candidate => readFrame(line, candidate));
+    if (runtime) return runtime;
+  }
+  return undefined;
+}
+
+function readHeader(line: string, runtime: Runtime): (StackException & { cause: boolean }) | undefined {
+  if (runtime === 'native') {
+    const native = line.match(NATIVE_HEADER);
+    if (native) return { type: native[1] || native[3], message: (native[2] || native[4]).trim() || undefined, frames: [], cause: false };
+  }
+  const match = line.match(EXCEPTION_HEADER);
+  if (!match || (!match[1] && !EXCEPTION_TYPE.test(match[2]) && !/\./.test(match[2]))) return undefined;
+  return { type: match[2], message: match[3]?.trim() || undefined, frames: [], cause: !!match[1] };
+}
+
+// Text above the first frame that isn't an exception header still names the failure
+function fromText(text?: string): StackException {
+  const typed = text?.match(/^\s*([A-Za-z_$][\w$.]*):\s*(.*)$/);
+  if (typed) return { type: typed[1], message: typed[2] || undefined, frames: [] };
+  return { type: 'Error', message: text?.trim() || undefined, frames: [] };
+}
+
+// Java, JavaScript, .NET and native traces: a header line, then frames innermost first
+function parseFrameFirstTrace(lines: string[], runtime: Runtime): StackException[] {
+  const exceptions: StackException[] = [];
+  let current: StackException | undefined;
+  let pending: string | undefined;
+  let suppressedIndent: number | undefined;
+
+  lines.forEach(line => {
+    const indent = line.match(/^\s*/)[0].replace(/\t/g, '    ').length;
+    // Suppressed exceptions (try-with-resources) are nested one level deeper and aren't causes
+    if (suppressedIndent !== undefined) {
+      if (indent > suppressedIndent) return;
+      suppressedIndent = undefined;
+    }
+
+    const frame = readFrame(line, runtime);
+    if (frame) {
+      if (!current) {
+        current = fromText(pending);
+        exceptions.push(current);
+      }
+      current.frames.push(frame);
+      return;
+    }
+    const omitted = line.match(OMITTED_FRAMES);
+    if (omitted) {
+      if (current) current.omittedFrames = parseInt(omitted[1]);
+      return;
+    }
+    // .NET prints the inner exception's frames first, then "--- End of inner exception stack trace ---" and the outer's
+    if (END_OF_INNER.test(line)) {
+      const index = exceptions.indexOf(current);
+      if (index > 0) current = exceptions[index - 1];
+      return;
+    }
+    if (!line.trim() || /^\s*---/.test(line)) return;
+
+    // .NET chains inner exceptions on the first line: "Outer: message ---> Inner: message"
+    const headers = line.split(' ---> ').map(part => readHeader(part, runtime));
+    const [header] = headers;
+    if (header && /^\s*Suppressed:/.test(line)) {
+      suppressedIndent = indent;
+      return;
+    }
+    if (header && headers.every(Boolean) && (!current || current.frames.length > 0 || header.cause)) {
+      headers.forEach(({ cause: _cause, ...exception }) => exceptions.push(exception));
+      current = exceptions[exceptions.length - 1];
+      return;
+    }
+    if (current && current.frames.length === 0) {
+      current.message = [current.message, line.trim()].filter(Boolean).join('\n');
+    } else if (!current) {
+      pending = line;
+    }
+  });
+
+  return exceptions;
+}
+
+// Python prints the outermost call first and the exception last; chained tracebacks start with the cause
+function parsePythonTrace(lines: string[]): StackException[] {
+  const printed: StackException[] = [];
+  let current: StackException = { type: '', frames: [] };
+
+  const finish = () => {
+    if (current.frames.length > 0 || current.type) {
+      printed.push({ ...current, type: current.type || 'Exception', frames: current.frames.reverse() });
+    }
+    current = { type: '', frames: [] };
+  };
+
+  lines.forEach(line => {
+    if (PYTHON_CHAIN.test(line.trim())) return finish();
+    if (/^Traceback \(most recent call last\)/.test(line.trim())) {
+      if (current.frames.length > 0) finish();
+      return;
+    }
+    const frame = line.match(PYTHON_FRAME);
+    if (frame) {
+      current.frames.push(pythonFrame(frame));
+      return;
+    }
+    // Source lines under each frame are indented; text before the traceback is not ours
+    if (current.frames.length === 0 || !line.trim() || (!current.type && /^\s/.test(line))) return;
+    if (!current.type) {
+      const match = line.match(/^([\w.]+)(?::\s?(.*))?$/);
+      current.type = match ? match[1] : 'Exception';
+      current.message = match ? match[2] || undefined : line.trim();
+    } else {
+      current.message = [current.message, line.trim()].filter(Boolean).join('\n');
+    }
+  });
+  finish();
+
+  return printed.reverse();
+}
+
+// Splits a stack trace into exceptions (thrown first, root cause last) and frames (innermost first)
+export function parseStackTrace(text?: string): ParsedStackTrace | undefined {
+  if (!text?.trim()) return undefined;
+  const lines = stripAnsi(text).split(/\r?\n/);
+  const runtime = detectRuntime(lines);
+  if (!runtime) return undefined;
+
+  const exceptions = runtime === 'python' ? parsePythonTrace(lines) : parseFrameFirstTrace(lines, runtime);
+  return exceptions.length > 0 ? { runtime, exceptions } : undefined;
+}
+
+export function rootCause(trace: ParsedStackTrace): StackException {
+  return trace.exceptions[trace.exceptions.length - 1];
+}
+
+// Where the project's own code first touched the failure, searching from the root cause outward
+export function firstApplicationFrame(trace: ParsedStackTrace): { exception: number; frame: number } | undefined {
+  for (let exception = trace.exceptions.length - 1; exception >= 0; exception--) {
+    const frame = trace.exceptions[exception].frames.findIndex(f => !f.framework);
+    if (frame >= 0) return { exception, frame };
+  }
+  return undefined;
+}
+
+// For the AI: the throwing frame and the application frames carry the signal, framework frames are mostly noise
+export function compactStackTrace(trace: ParsedStackTrace): ParsedStackTrace {
+  return {
+    ...trace,
+    exceptions: trace.exceptions.map(exception => {
+      const frames = exception.frames.filter((frame, index) => index === 0 || !frame.framework);
+      const dropped = exception.frames.length - frames.length + (exception.omittedFrames || 0);
+      return { ...exception, frames, omittedFrames: dropped || undefined };
+    }),
+  };
+}
+
+// Java and .NET frames name the class; elsewhere the file already says where the method lives
+export function formatFrame(frame: StackFrame, runtime: Runtime): string {
+  const qualified = runtime === 'java' || runtime === 'dotnet';
+  const name = qualified ? [frame.module, frame.method].filter(Boolean).join('.') : frame.method || frame.module || '';
+  const location = frame.file ? `${frame.file}${frame.line !== undefined ? `:${frame.line}` : ''}` : '';
+  return name && location ? `${name} (${location})` : name || location;
+}
@@ -0,0 +1,209 @@
+import { TestAttempt, TestCase, TestParameter } from '@/types/analysis';
+import { parseXmlDocument, childElements, childElement, childText, numberAttr } from '@/lib/xml';
+
+const CONFIG_ANNOTATIONS: [string, string][] = [
+  ['is-before-suite', '@BeforeSuite'],
+  ['is-after-suite', '@AfterSuite'],
+  ['is-before-test', '@BeforeTest'],
+  ['is-after-test', '@AfterTest'],
+  ['is-before-groups', '@BeforeGroups'],
+  ['is-after-groups', '@AfterGroups'],
+  ['is-before-class', '@BeforeClass'],
+  ['is-after-class', '@AfterClass'],
+  ['is-before-method', '@BeforeMethod'],
+  ['is-after-method', '@AfterMethod'],
+];
+
+interface ConfigFailure {
+  id: string;
+  annotation: string;
+  suite: string;
+  test: string;
+  className: string;
+}
+
+function configAnnotation(methodEl: Element): string | undefined {
+  if (methodEl.getAttribute('is-config') !== 'true') return undefined;
+  const match = CONFIG_ANNOTATIONS.find(([attr]) => methodEl.getAttribute(attr) === 'true');
+  return match ? match[1] : '@Configuration';
+}
+
+function mapStatus(status: string): TestCase['status'] {
+  if (status === 'FAIL') return 'fail';
+  if (status === 'SKIP') return 'skip';
+  return 'pass';
+}
+
+function collectGroups(suiteEl: Element): Map<string, string[]> {
+  const groupsByMethod = new Map<string, string[]>();
+  const groupsEl = childElement(suiteEl, 'groups');
+  if (!groupsEl) return groupsByMethod;
+
+  childElements(groupsEl, 'group').forEach(groupEl => {
+    const groupName = groupEl.getAttribute('name');
+    if (!groupName) return;
+    childElements(groupEl, 'method').forEach(methodEl => {
+      const key = `${methodEl.getAttribute('class')}#${methodEl.getAttribute('name')}`;
+      groupsByMethod.set(key, [...(groupsByMethod.get(key) || []), groupName]);
+    });
+  });
+
+  return groupsByMethod;
+}
+
+function parseParameters(methodEl: Element): TestParameter[] {
+  const paramsEl = childElement(methodEl, 'params');
+  if (!paramsEl) return [];
+
+  return childElements(paramsEl, 'param').map(paramEl => {
+    const valueEl = childElement(paramEl, 'value');
+    const isNull = valueEl?.getAttribute('is-null') === 'true';
+    return {
+      name: `arg${paramEl.getAttribute('index') ?? ''}`,
+      value: isNull ? 'null' : valueEl?.textContent?.trim() ?? '',
+    };
+  });
+}
+
+// A data-provider method runs once per parameter set, so its runs are told apart by their parameters
+function runKey(methodEl: Element): string {
+  return `${methodEl.getAttribute('name')}|${JSON.stringify(parseParameters(methodEl))}`;
+}
+
+// TestNG writes each failed run of a retried method as a SKIP entry marked retried="true"
+function retriedAttempt(methodEl: Element, attempt: number): TestAttempt {
+  const exceptionEl = childElement(methodEl, 'exception');
+  return {
+    attempt,
+    status: 'fail',
+    rawStatus: 'retried',
+    duration: numberAttr(methodEl, 'duration-ms') / 1000,
+    errorMessage: (exceptionEl && childText(exceptionEl, 'message')) || exceptionEl?.getAttribute('class') || undefined,
+    timestamp: methodEl.getAttribute('started-at') || undefined,
+  };
+}
+
+function findSkipCause(skipped: TestCase, scope: { suite: string; test: string }, failures: ConfigFailure[]): string | undefined {
+  const inClass = failures.filter(f =>
+    f.suite === scope.suite && f.test === scope.test && f.className === skipped.className
+  );
+  const inTest = failures.filter(f =>
+    f.suite === scope.suite && f.test === scope.test &&
+    (f.annotation === '@BeforeTest' || f.annotation === '@BeforeGroups')
+  );
+  const inSuite = failures.filter(f => f.suite === scope.suite && f.annotation === '@BeforeSuite');
+
+  const cause =
+    inClass.find(f => f.annotation === '@BeforeMethod') ||
+    inClass.find(f => f.annotation === '@BeforeClass') ||
+    inTest[0] ||
+    inSuite[0] ||
+    inClass[0];
+  return cause?.id;
+}
+
+export function parseTestNGReport(xmlContent: string): TestCase[] {
+  const doc = parseXmlDocument(xmlContent);
+  const root = doc.documentElement;
+  const testCases: TestCase[] = [];
+  const configFailures: ConfigFailure[] = [];
+  const skippedTests: { testCase: TestCase; suite: string; test: string }[] = [];
+
+  const suites = root.localName === 'suite' ? [root] : childElements(root, 'suite');
+
+  suites.forEach(suiteEl => {
+    const suiteName = suiteEl.getAttribute('name') || 'Suite';
+    const groupsByMethod = collectGroups(suiteEl);
+
+    childElements(suiteEl, 'test').forEach(testEl => {
+      const testName = testEl.getAttribute('name') || suiteName;
+
+      childElements(testEl, 'class').forEach(classEl => {
+        const className = classEl.getAttribute('name') || testName;
+
+        const methods = childElements(classEl, 'test-method');
+        // Retried runs become the failed attempts of the method's final run rather than skipped tests
+        const finalRuns = new Set(methods.filter(m => m.getAttribute('retried') !== 'true').map(runKey));
+        const retriedRuns = new Map<string, Element[]>();
+        methods.filter(m => m.getAttribute('retried') === 'true' && finalRuns.has(runKey(m))).forEach(m => {
+          retriedRuns.set(runKey(m), [...(retriedRuns.get(runKey(m)) || []), m]);
+        });
+
+        methods.forEach(methodEl => {
+          if (methodEl.getAttribute('retried') === 'true' && finalRuns.has(runKey(methodEl))) return;
+          const status = methodEl.getAttribute('status') || 'PASS';
+          const annotation = configAnnotation(methodEl);
+
+          // Passing and cascaded config methods are noise; only the failures explain anything
+          if (annotation && status !== 'FAIL') return;
+
+          const name = methodEl.getAttribute('name') || `Method ${testCases.length + 1}`;
+          const exceptionEl = childElement(methodEl, 'exception');
+          const exceptionClass = exceptionEl?.getAttribute('class') || undefined;
+          const message = exceptionEl ? childText(exceptionEl, 'message') : undefined;
+          const stackTrace = exceptionEl ? childText(exceptionEl, 'full-stacktrace') : undefined;
+
+          const logs: string[] = [];
+          const description = methodEl.getAttribute('description');
+          if (description) logs.push(description);
+          const outputEl = childElement(methodEl, 'reporter-output');
+          if (outputEl) {
+            childElements(outputEl, 'line').forEach(lineEl => {
+              const line = lineEl.textContent?.trim();
+              if (line) logs.push(line);
+            });
+          }
+
+          const parameters = parseParameters(methodEl);
+          const tags = groupsByMethod.get(`${className}#${name}`) || [];
+          const rawStatus = methodEl.getAttribute('retried') === 'true' ? 'retried' : status.toLowerCase();
+          const duration = numberAttr(methodEl, 'duration-ms') / 1000;
+          const errorMessage = message || (exceptionClass && status !== 'PASS' ? exceptionClass : undefined);
+
+          const attempts = (retriedRuns.get(runKey(methodEl)) || []).map(retriedAttempt);
+          if (attempts.length > 0) {
+            attempts.push({
+              attempt: attempts.length,
+              status: mapStatus(status),
+              rawStatus,
+              duration,
+              errorMessage,
+              timestamp: methodEl.getAttribute('started-at') || undefined,
+            });
+          }
+
+          const testCase: TestCase = {
+            id: `test-${testCases.length + 1}`,
+            name,
+            className,
+            status: mapStatus(status),
+            rawStatus,
+            duration,
+            errorMessage,
+            stackTrace,
+            logs: logs.length > 0 ? logs : undefined,
+            timestamp: methodEl.getAttribute('started-at') || undefined,
+            parameters: parameters.length > 0 ? parameters : undefined,
+            tags: tags.length > 0 ? tags : undefined,
+            configMethod: annotation,
+            attempts: attempts.length > 0 ? attempts : undefined,
+            flaky: attempts.length > 0 && status === 'PASS' ? true : undefined,
+          };
+          testCases.push(testCase);
+
+          if (annotation) {
+            configFailures.push({ id: testCase.id, annotation, suite: suiteName, test: testName, className });
+          } else if (testCase.status === 'skip') {
+            skippedTests.push({ testCase, suite: suiteName, test: testName });
+          }
+        });
+      });
+    });
+  });
+
+  skippedTests.forEach(({ testCase, suite, test }) => {
+    testCase.skippedBy = findSkipCause(testCase, { suite, test }, configFailures);
+  });
+
+  return testCases;
+}
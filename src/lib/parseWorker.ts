@@ -0,0 +1,29 @@
+import { DOMParser } from 'linkedom';
+import { parseShards, ParseProgress } from '@/lib/parseShards';
+import { MergedReport } from '@/lib/mergeReports';
+import { SelectedFile } from '@/lib/reportFiles';
+
+export interface ParseWorkerRequest {
+  shards: SelectedFile[][];
+}
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; report: MergedReport }
+  | { type: 'error'; message: string };
+
+// Workers have no DOM; linkedom's parser covers the HTML and XML the adapters read
+if (typeof self.DOMParser === 'undefined') {
+  Object.assign(self, { DOMParser });
+}
+
+const post = (message: ParseWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  try {
+    const report = await parseShards(event.data.shards, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', report });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse report' });
+  }
+};
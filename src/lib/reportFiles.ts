@@ -0,0 +1,177 @@
+import { unzipSync } from 'fflate';
+import { Screenshot } from '@/types/analysis';
+import { ReportInput, ReportFile } from '@/lib/reportParsers';
+import { hashString } from '@/lib/hash';
+
+export const ARCHIVE_EXTENSIONS = ['.zip'];
+
+const textDecoder = new TextDecoder();
+
+export function fileText(file: ReportFile): string {
+  return textDecoder.decode(file.data);
+}
+
+export function fileBase64(file: ReportFile): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < file.data.length; i += chunkSize) {
+    binary += String.fromCharCode(...file.data.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  zip: 'application/zip',
+  txt: 'text/plain',
+  log: 'text/plain',
+  json: 'application/json',
+  html: 'text/html',
+  xml: 'application/xml',
+};
+
+export function mimeTypeFor(path: string): string | undefined {
+  const extension = path.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension ? MIME_TYPES[extension] : undefined;
+}
+
+export function baseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+export function findFile(files: ReportFile[], name: string): ReportFile | undefined {
+  return files.find(f => f.path === name) || files.find(f => baseName(f.path) === baseName(name));
+}
+
+export function dirName(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index) : '';
+}
+
+// Resolves an href/src written in a report against the report's own folder: "../img/a%20b.png?v=1"
+export function resolvePath(basePath: string, ref: string): string {
+  let path = ref.split(/[?#]/)[0].replace(/\\/g, '/');
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  const parts = path.startsWith('/') ? [] : basePath.split('/').filter(Boolean);
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+export type ImageResolver = (ref: string) => Screenshot | undefined;
+
+// Reports reference screenshots by relative path; with the report's folder uploaded they become real images
+export function createImageResolver(files: ReportFile[] = [], basePath = ''): ImageResolver {
+  return ref => {
+    if (!ref || /^(data|https?|file):/i.test(ref)) return undefined;
+    const path = resolvePath(basePath, ref);
+    const file = files.find(f => f.path === path) || findFile(files, path);
+    const mimeType = file && mimeTypeFor(file.path);
+    if (!file || !mimeType?.startsWith('image/')) return undefined;
+    return { name: baseName(file.path), mimeType, base64Data: fileBase64(file) };
+  };
+}
+
+// The same image is often both shown inline and linked, or attached to several log entries
+export function dedupeScreenshots(screenshots: Screenshot[]): Screenshot[] {
+  const seen = new Set<string>();
+  return screenshots.filter(screenshot => {
+    const hash = hashString(screenshot.base64Data);
+    if (seen.has(hash)) return false;
+    seen.add(hash);
+    return true;
+  });
+}
+
+function isArchive(name: string): boolean {
+  return ARCHIVE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+}
+
+function unzip(data: Uint8Array): ReportFile[] {
+  return Object.entries(unzipSync(data))
+    .filter(([path]) => !path.endsWith('/') && !path.startsWith('__MACOSX/'))
+    .map(([path, bytes]) => ({ path, data: bytes }));
+}
+
+// A picked file and its path inside the picked folder; webkitRelativePath doesn't survive postMessage
+export interface SelectedFile {
+  file: File;
+  path: string;
+}
+
+export function toSelectedFiles(files: File[]): SelectedFile[] {
+  return files.map(file => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+// Allure writes one run as many files: a result per test, containers, attachments and run-wide files
+const RESULTS_SET_FILE = /(-result\.json|-container\.json|-attachment(\.\w+)?|^environment\.properties|^categories\.json|^executor\.json)$/;
+
+// Loose files picked together are shards of one run, one report each, except the files of an Allure
+// results set, which only make a report together
+export function groupLooseFiles(selected: SelectedFile[]): SelectedFile[][] {
+  const isResultsSet = selected.some(({ path }) => /-result\.json$/.test(path));
+  const resultsSet = isResultsSet ? selected.filter(({ path }) => RESULTS_SET_FILE.test(baseName(path))) : [];
+  const reports = selected.filter(file => !resultsSet.includes(file));
+  return [...(resultsSet.length > 0 ? [resultsSet] : []), ...reports.map(file => [file])];
+}
+
+// Streams the file so callers can report progress on reports that take seconds to read
+async function readBytes(file: File, onBytes?: (bytes: number) => void): Promise<Uint8Array> {
+  if (!onBytes || typeof file.stream !== 'function') {
+    const data = new Uint8Array(await file.arrayBuffer());
+    onBytes?.(data.length);
+    return data;
+  }
+
+  const reader = file.stream().getReader();
+  const data = new Uint8Array(file.size);
+  let offset = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    data.set(value, offset);
+    offset += value.length;
+    onBytes(value.length);
+  }
+  return data.subarray(0, offset);
+}
+
+// Turns whatever the user picked (a report file, a zip, or a whole folder) into one parser input
+export async function readReportFiles(selected: SelectedFile[], onBytes?: (bytes: number) => void): Promise<ReportInput> {
+  const isFolder = selected.some(({ path }) => path.includes('/'));
+  if (selected.length === 1 && !isArchive(selected[0].file.name) && !isFolder) {
+    const [{ file }] = selected;
+    return { fileName: file.name, content: textDecoder.decode(await readBytes(file, onBytes)) };
+  }
+
+  const files: ReportFile[] = [];
+  for (const { file, path } of selected) {
+    const data = await readBytes(file, onBytes);
+    if (isArchive(file.name)) {
+      files.push(...unzip(data));
+    } else {
+      files.push({ path, data });
+    }
+  }
+
+  const folder = isFolder ? selected[0].path.split('/')[0] : undefined;
+  return {
+    fileName: selected.length === 1 ? selected[0].file.name : folder || `${selected.length} files`,
+    content: '',
+    files,
+  };
+}
@@ -0,0 +1,421 @@
+import { TestCase, ReportMetadata, RunMetadata, ParseDiagnostics } from '@/types/analysis';
+import { parseExtentReport, extractRawContent } from '@/lib/parseReport';
+import { detectExtentVersion } from '@/lib/extentModel';
+import { parseJUnitReport } from '@/lib/parseJUnitReport';
+import { parseTestNGReport } from '@/lib/parseTestNGReport';
+import { parseCucumberJson, parseCucumberMessages } from '@/lib/parseCucumberReport';
+import { parseAllureResults, isAllureResults, readAllureEnvironment } from '@/lib/parseAllureResults';
+import { parsePlaywrightReport } from '@/lib/parsePlaywrightReport';
+import { parseMochawesomeReport } from '@/lib/parseMochawesomeReport';
+import { parseJestReport } from '@/lib/parseJestReport';
+import { parseMochaReport } from '@/lib/parseMochaReport';
+import { parsePytestJson, parsePytestHtml } from '@/lib/parsePytestReport';
+import { parseTrxReport, parseNUnitReport, parseXUnitReport } from '@/lib/parseDotNetReport';
+import { parseRobotReport } from '@/lib/parseRobotReport';
+import { parseGoTestReport } from '@/lib/parseGoTestReport';
+import { parseConsoleLog, sniffConsoleLog } from '@/lib/parseConsoleLog';
+import { ARCHIVE_EXTENSIONS, dirName, fileText } from '@/lib/reportFiles';
+import { collectRunMetadata } from '@/lib/runMetadata';
+import { collapseTestRuns } from '@/lib/testIdentity';
+import { parseStackTrace } from '@/lib/parseStackTrace';
+
+export interface ReportFile {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ReportInput {
+  fileName: string;
+  content: string;
+  // Set when a folder or archive was uploaded instead of a single report file
+  files?: ReportFile[];
+}
+
+// What an adapter knows about how it read the report; the registry adds format, confidence and counts
+export type AdapterDiagnostics = Partial<Pick<ParseDiagnostics, 'strategy' | 'reliability' | 'nodeCount'>> &
+  Pick<ParseDiagnostics, 'guessedStatus' | 'ignored' | 'notes'>;
+
+export interface ReportAdapterResult {
+  testCases: TestCase[];
+  version?: string;
+  // Text sent to the AI alongside the parsed tests; defaults to the file content
+  rawContent?: string;
+  // The report's system/environment entries, when it records them
+  environment?: Record<string, string>;
+  diagnostics?: AdapterDiagnostics;
+}
+
+export interface ReportParserAdapter {
+  id: string;
+  label: string;
+  extensions: string[];
+  // Confidence between 0 (not this format) and 1 (certainly this format)
+  sniff: (input: ReportInput) => number;
+  parse: (input: ReportInput) => ReportAdapterResult;
+}
+
+export interface ParsedReport {
+  testCases: TestCase[];
+  rawContent: string;
+  metadata: ReportMetadata;
+  runMetadata?: RunMetadata;
+  diagnostics?: ParseDiagnostics[];
+}
+
+export function hasExtension(input: ReportInput, extensions: string[]): boolean {
+  const name = input.fileName.toLowerCase();
+  return extensions.some(ext => name.endsWith(ext));
+}
+
+// Sniffing only looks at the start of the file so 50MB reports aren't scanned repeatedly
+export function head(input: ReportInput, length = 4096): string {
+  return input.content.slice(0, length);
+}
+
+const extentAdapter: ReportParserAdapter = {
+  id: 'spark-extent',
+  label: 'Spark Extent HTML',
+  extensions: ['.html', '.htm'],
+  sniff: input => {
+    if (!hasExtension(input, extentAdapter.extensions) && !/<html[\s>]/i.test(head(input))) return 0;
+    // Unrecognized HTML still goes through the generic DOM scraper
+    return /extent/i.test(head(input, 20000)) ? 0.9 : 0.1;
+  },
+  parse: input => {
+    const report = parseExtentReport(input.content, { files: input.files, basePath: dirName(input.fileName) });
+    // Scraped reports still show the version their assets name
+    return { ...report, version: report.version || detectExtentVersion(input.content), rawContent: extractRawContent(input.content) };
+  },
+};
+
+const testNGAdapter: ReportParserAdapter = {
+  id: 'testng',
+  label: 'TestNG XML',
+  extensions: ['.xml'],
+  sniff: input => (/<testng-results[\s>]/.test(head(input)) ? 1 : 0),
+  parse: input => ({ testCases: parseTestNGReport(input.content) }),
+};
+
+const junitAdapter: ReportParserAdapter = {
+  id: 'junit',
+  label: 'JUnit XML',
+  extensions: ['.xml'],
+  sniff: input => (/<testsuites?[\s>]/.test(head(input)) ? 0.8 : 0),
+  parse: input => ({ testCases: parseJUnitReport(input.content) }),
+};
+
+const cucumberJsonAdapter: ReportParserAdapter = {
+  id: 'cucumber-json',
+  label: 'Cucumber JSON',
+  extensions: ['.json'],
+  sniff: input => {
+    const start = head(input).trimStart();
+    return start.startsWith('[') && /"(elements|keyword)"\s*:/.test(start) ? 0.9 : 0;
+  },
+  parse: input => ({ testCases: parseCucumberJson(input.content) }),
+};
+
+const cucumberMessagesAdapter: ReportParserAdapter = {
+  id: 'cucumber-messages',
+  label: 'Cucumber Messages',
+  extensions: ['.ndjson', '.jsonl'],
+  sniff: input => (/^\{"(meta|source|gherkinDocument|pickle|testRunStarted)"/m.test(head(input)) ? 0.9 : 0),
+  parse: input => ({ testCases: parseCucumberMessages(input.content) }),
+};
+
+const allureAdapter: ReportParserAdapter = {
+  id: 'allure',
+  label: 'Allure Results',
+  extensions: ['.zip'],
+  sniff: input => (input.files && isAllureResults(input.files) ? 1 : 0),
+  // Results are spread over many JSON files; the parsed tests are all the AI needs
+  parse: input => ({
+    testCases: parseAllureResults(input.files || []),
+    rawContent: '',
+    environment: readAllureEnvironment(input.files || []),
+  }),
+};
+
+const playwrightAdapter: ReportParserAdapter = {
+  id: 'playwright',
+  label: 'Playwright JSON',
+  extensions: ['.json'],
+  sniff: input => {
+    const start = head(input);
+    return /^\s*\{/.test(start) && /"config"\s*:/.test(start) && /"(rootDir|projects)"\s*:/.test(start) ? 0.95 : 0;
+  },
+  parse: input => ({ testCases: parsePlaywrightReport(input.content) }),
+};
+
+const mochawesomeAdapter: ReportParserAdapter = {
+  id: 'mochawesome',
+  label: 'Mochawesome',
+  extensions: ['.json'],
+  sniff: input => {
+    const start = head(input);
+    return /^\s*\{/.test(start) && /"(passPercent|results)"\s*:/.test(start) && /"stats"\s*:/.test(start) ? 0.95 : 0;
+  },
+  parse: input => ({ testCases: parseMochawesomeReport(input.content) }),
+};
+
+const jestAdapter: ReportParserAdapter = {
+  id: 'jest',
+  label: 'Jest JSON',
+  extensions: ['.json'],
+  sniff: input => {
+    const start = head(input);
+    return /"numTotalTests"\s*:/.test(start) && /"(testResults|numFailedTestSuites)"\s*:/.test(start) ? 0.95 : 0;
+  },
+  parse: input => ({ testCases: parseJestReport(input.content) }),
+};
+
+const mochaAdapter: ReportParserAdapter = {
+  id: 'mocha',
+  label: 'Mocha JSON',
+  extensions: ['.json'],
+  // Mochawesome also has "stats", so only claim reports without its extra fields
+  sniff: input => {
+    const start = head(input);
+    if (!/"stats"\s*:/.test(start) || /"(passPercent|results)"\s*:/.test(start)) return 0;
+    return /"(tests|passes|failures)"\s*:\s*\[/.test(start) ? 0.85 : 0;
+  },
+  parse: input => ({ testCases: parseMochaReport(input.content) }),
+};
+
+const pytestJsonAdapter: ReportParserAdapter = {
+  id: 'pytest-json',
+  label: 'pytest JSON',
+  extensions: ['.json'],
+  sniff: input => {
+    const start = head(input);
+    return /^\s*\{/.test(start) && /"exitcode"\s*:/.test(start) && /"(root|collectors|tests)"\s*:/.test(start) ? 0.95 : 0;
+  },
+  parse: input => ({ testCases: parsePytestJson(input.content) }),
+};
+
+const pytestHtmlAdapter: ReportParserAdapter = {
+  id: 'pytest-html',
+  label: 'pytest-html',
+  extensions: ['.html', '.htm'],
+  // Self-contained reports inline their CSS, so the generator credit can be far from the start
+  sniff: input => (/<html[\s>]/i.test(head(input)) && input.content.includes('pytest-html') ? 0.95 : 0),
+  parse: input => ({ testCases: parsePytestHtml(input.content), rawContent: extractRawContent(input.content) }),
+};
+
+const trxAdapter: ReportParserAdapter = {
+  id: 'trx',
+  label: 'MSTest TRX',
+  extensions: ['.trx'],
+  sniff: input => (/<TestRun[\s>]/.test(head(input)) ? 1 : 0),
+  parse: input => ({ testCases: parseTrxReport(input.content) }),
+};
+
+const nunitAdapter: ReportParserAdapter = {
+  id: 'nunit',
+  label: 'NUnit 3 XML',
+  extensions: ['.xml'],
+  sniff: input => (/<test-run[\s>]/.test(head(input)) ? 1 : 0),
+  parse: input => ({ testCases: parseNUnitReport(input.content) }),
+};
+
+const xunitAdapter: ReportParserAdapter = {
+  id: 'xunit',
+  label: 'xUnit v2 XML',
+  extensions: ['.xml'],
+  sniff: input => (/<assemblies[\s>]|<assembly\s[^>]*test-framework="xUnit/.test(head(input)) ? 0.95 : 0),
+  parse: input => ({ testCases: parseXUnitReport(input.content) }),
+};
+
+const robotAdapter: ReportParserAdapter = {
+  id: 'robot',
+  label: 'Robot Framework XML',
+  extensions: ['.xml'],
+  sniff: input => (/<robot[\s>]/.test(head(input)) ? 1 : 0),
+  parse: input => ({ testCases: parseRobotReport(input.content) }),
+};
+
+const goTestAdapter: ReportParserAdapter = {
+  id: 'go-test',
+  label: 'go test -json',
+  extensions: ['.json', '.jsonl', '.log'],
+  sniff: input => {
+    const start = head(input);
+    return /^\{"(Time|ImportPath)"/m.test(start) && /"Action"\s*:\s*"(start|run|output|pass|fail|skip|build-output)"/.test(start) ? 0.95 : 0;
+  },
+  parse: input => ({ testCases: parseGoTestReport(input.content) }),
+};
+
+// Pasted text and CI console output; anything more structured wins the sniff. Pasted text arrives
+// as pasted.log, so plain text without failures is still parsed and sent to the AI as is
+const consoleLogAdapter: ReportParserAdapter = {
+  id: 'console-log',
+  label: 'Console log',
+  extensions: ['.log', '.txt'],
+  sniff: input => sniffConsoleLog(head(input), hasExtension(input, ['.log'])),
+  parse: input => parseConsoleLog(input.content),
+};
+
+const adapters: ReportParserAdapter[] = [
+  extentAdapter,
+  testNGAdapter,
+  junitAdapter,
+  cucumberJsonAdapter,
+  cucumberMessagesAdapter,
+  allureAdapter,
+  playwrightAdapter,
+  mochawesomeAdapter,
+  jestAdapter,
+  mochaAdapter,
+  pytestJsonAdapter,
+  pytestHtmlAdapter,
+  trxAdapter,
+  nunitAdapter,
+  xunitAdapter,
+  robotAdapter,
+  goTestAdapter,
+  consoleLogAdapter,
+];
+
+export function registerReportParser(adapter: ReportParserAdapter) {
+  const existing = adapters.findIndex(a => a.id === adapter.id);
+  if (existing >= 0) {
+    adapters[existing] = adapter;
+  } else {
+    adapters.push(adapter);
+  }
+}
+
+export function getReportParsers(): ReportParserAdapter[] {
+  return [...adapters];
+}
+
+export function getSupportedExtensions(): string[] {
+  return Array.from(new Set(adapters.flatMap(a => a.extensions)));
+}
+
+function sniffAdapters(input: ReportInput): { adapter?: ReportParserAdapter; score: number } {
+  let best: ReportParserAdapter | undefined;
+  let bestScore = 0;
+
+  adapters.forEach(adapter => {
+    let score = adapter.sniff(input);
+    // A matching extension breaks ties between formats that look alike
+    if (score > 0 && hasExtension(input, adapter.extensions)) score += 0.05;
+    if (score > bestScore) {
+      best = adapter;
+      bestScore = score;
+    }
+  });
+
+  return { adapter: best, score: bestScore };
+}
+
+export function detectReportFormat(input: ReportInput): ReportParserAdapter | undefined {
+  return sniffAdapters(input).adapter;
+}
+
+// A zipped or uploaded report folder is parsed through the report document inside it; the
+// remaining files stay attached so the document's relative screenshot links can be resolved
+function reportDocuments(input: ReportInput): ReportFile[] {
+  const extensions = getSupportedExtensions().filter(ext => !ARCHIVE_EXTENSIONS.includes(ext));
+  return (input.files || []).filter(file => extensions.some(ext => file.path.toLowerCase().endsWith(ext)));
+}
+
+function primaryDocument(input: ReportInput): ReportInput | undefined {
+  if (input.content || !input.files) return undefined;
+
+  const candidates = reportDocuments(input);
+  const html = candidates.filter(file => /\.html?$/i.test(file.path));
+  const pool = html.length > 0 ? html : candidates;
+  if (pool.length === 0) return undefined;
+
+  const rank = (file: ReportFile) => (/(index|extent|spark|report)[^/]*\.html?$/i.test(file.path) ? 1 : 0);
+  // How much a file looks like a report beats its size: a build.log next to TEST-*.xml is usually the larger file
+  const scores = new Map(pool.map(file => [
+    file,
+    sniffAdapters({ fileName: file.path, content: fileText({ ...file, data: file.data.subarray(0, 4096) }) }).score,
+  ]));
+  const [document] = [...pool].sort((a, b) =>
+    rank(b) - rank(a) || (scores.get(b) as number) - (scores.get(a) as number) || b.data.length - a.data.length
+  );
+  return { fileName: document.path, content: fileText(document), files: input.files };
+}
+
+// Tells the user (and the AI) how far the pre-parsed tests can be trusted
+function parseDiagnostics(
+  input: ReportInput,
+  source: ReportInput,
+  adapter: ReportParserAdapter,
+  score: number,
+  result: ReportAdapterResult,
+  testCases: TestCase[]
+): ParseDiagnostics {
+  const found = result.diagnostics || { guessedStatus: [], ignored: [], notes: [] };
+  const ignored = [...found.ignored];
+  const notes = [...found.notes];
+
+  if (source !== input) {
+    notes.push(`Read ${source.fileName} from the uploaded files`);
+    reportDocuments(input)
+      .filter(file => file.path !== source.fileName)
+      .forEach(file => ignored.push(file.path));
+  }
+  const folded = result.testCases.length - testCases.length;
+  if (folded > 0) notes.push(`${folded} repeated run(s) folded into attempts of the same test`);
+
+  return {
+    fileName: input.fileName,
+    format: adapter.id,
+    formatLabel: adapter.label,
+    // The extension bonus can push a certain match past 1
+    confidence: Math.min(score, 1),
+    strategy: found.strategy || `${adapter.label} parser`,
+    reliability: found.reliability || (found.guessedStatus.length > 0 || score < 0.5 ? 'medium' : 'high'),
+    nodeCount: found.nodeCount,
+    testCount: testCases.length,
+    guessedStatus: found.guessedStatus,
+    ignored,
+    notes,
+  };
+}
+
+// The analysis reads at most this much raw report next to parsed tests (RAW_CONTENT_LIMIT in the edge
+// function), so a large XML or JSON file isn't uploaded in full only to be cut there. Reports nothing
+// could be parsed from go in full: the analysis reads them in slices.
+const RAW_CONTENT_LIMIT = 25000;
+
+function rawContentFor(rawContent: string, testCases: TestCase[]): string {
+  if (testCases.length === 0 || rawContent.length <= RAW_CONTENT_LIMIT) return rawContent;
+  return `${rawContent.slice(0, RAW_CONTENT_LIMIT)}\n...[content truncated]...`;
+}
+
+export function parseReport(input: ReportInput): ParsedReport {
+  let source = input;
+  let { adapter, score } = sniffAdapters(input);
+  const document = adapter ? undefined : primaryDocument(input);
+  if (document) {
+    source = document;
+    ({ adapter, score } = sniffAdapters(document));
+  }
+  if (!adapter) {
+    throw new Error(`Unrecognized report format: ${input.fileName}`);
+  }
+
+  const result = adapter.parse(source);
+  // Adapters number their tests; retries written as separate entries are folded into attempts here
+  const testCases = collapseTestRuns([result.testCases]).map(testCase =>
+    testCase.stackTrace ? { ...testCase, parsedStackTrace: parseStackTrace(testCase.stackTrace) } : testCase
+  );
+  return {
+    testCases,
+    rawContent: rawContentFor(result.rawContent ?? source.content, testCases),
+    metadata: {
+      format: adapter.id,
+      formatLabel: adapter.label,
+      version: result.version,
+      fileName: input.fileName,
+    },
+    runMetadata: collectRunMetadata(testCases, result.environment),
+    diagnostics: [parseDiagnostics(input, source, adapter, score, result, testCases)],
+  };
+}
@@ -0,0 +1,42 @@
+import { RunMetadata, TestCase } from '@/types/analysis';
+
+function unique(values: string[]): string[] | undefined {
+  const distinct = Array.from(new Set(values.filter(Boolean)));
+  return distinct.length > 0 ? distinct : undefined;
+}
+
+function compact(metadata: RunMetadata): RunMetadata | undefined {
+  const entries = Object.entries(metadata).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// Authors, devices and tags are recorded per test; the run's are the union over its tests
+export function collectRunMetadata(testCases: TestCase[], environment?: Record<string, string>): RunMetadata | undefined {
+  return compact({
+    environment: environment && Object.keys(environment).length > 0 ? environment : undefined,
+    authors: unique(testCases.flatMap(t => t.authors || [])),
+    devices: unique(testCases.flatMap(t => t.devices || [])),
+    browsers: unique(testCases.map(t => t.browser || '')),
+    tags: unique(testCases.flatMap(t => t.tags || [])),
+  });
+}
+
+// Shards of one run mostly share an environment; where they differ, every value is kept
+export function mergeRunMetadata(list: (RunMetadata | undefined)[]): RunMetadata | undefined {
+  const present = list.filter((metadata): metadata is RunMetadata => !!metadata);
+  const values = new Map<string, string[]>();
+  present.forEach(metadata => {
+    Object.entries(metadata.environment || {}).forEach(([name, value]) => {
+      const seen = values.get(name) || [];
+      if (!seen.includes(value)) values.set(name, [...seen, value]);
+    });
+  });
+
+  return compact({
+    environment: values.size > 0 ? Object.fromEntries(Array.from(values, ([name, seen]) => [name, seen.join(', ')])) : undefined,
+    authors: unique(present.flatMap(m => m.authors || [])),
+    devices: unique(present.flatMap(m => m.devices || [])),
+    browsers: unique(present.flatMap(m => m.browsers || [])),
+    tags: unique(present.flatMap(m => m.tags || [])),
+  });
+}
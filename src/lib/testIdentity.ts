@@ -0,0 +1,106 @@
+import { TestCase, TestAttempt } from '@/types/analysis';
+import { hashString } from '@/lib/hash';
+
+// The same test rerun by a retry, a later job or another agent has the same identity
+export function testIdentity(testCase: TestCase): string {
+  const parameters = (testCase.parameters || []).map(p => `${p.name ?? ''}=${p.value}`).join(',');
+  return [testCase.className, testCase.name, testCase.browser || '', parameters].join('\u0000');
+}
+
+// Ids survive report layout changes, so a JIRA issue logged against a test still finds it next run
+export function stableTestId(key: string): string {
+  return `test-${hashString(key)}`;
+}
+
+// Entries of one report only count as retries when each carries its own start time. Same-named tests
+// without one (Extent's default 'Test Suite' class, data-driven iterations) are different tests.
+function areRetries(runs: TestCase[]): boolean {
+  return runs.every(run => run.timestamp) && new Set(runs.map(run => run.timestamp)).size === runs.length;
+}
+
+// Setup/teardown methods run once per test they wrap; each run is its own entry, not a retry.
+// Same-named tests that aren't retries are numbered too, the first keeping the plain identity.
+function testKeys(testCases: TestCase[]): string[] {
+  const byIdentity = new Map<string, TestCase[]>();
+  testCases.forEach(testCase => {
+    const identity = testIdentity(testCase);
+    byIdentity.set(identity, [...(byIdentity.get(identity) || []), testCase]);
+  });
+
+  const runs = new Map<string, number>();
+  return testCases.map(testCase => {
+    const identity = testIdentity(testCase);
+    const same = byIdentity.get(identity) as TestCase[];
+    if (!testCase.configMethod && (same.length === 1 || areRetries(same))) return identity;
+    const run = (runs.get(identity) || 0) + 1;
+    runs.set(identity, run);
+    return testCase.configMethod || run > 1 ? `${identity}\u0000${run}` : identity;
+  });
+}
+
+function runsOf(testCase: TestCase): TestAttempt[] {
+  if (testCase.attempts && testCase.attempts.length > 0) return testCase.attempts;
+  return [{
+    attempt: 0,
+    status: testCase.status,
+    rawStatus: testCase.rawStatus,
+    duration: testCase.duration,
+    errorMessage: testCase.errorMessage,
+    timestamp: testCase.timestamp,
+  }];
+}
+
+// Reruns are reconciled like retries: the latest run decides the status
+function reconcile(runs: TestCase[]): TestCase {
+  const ordered = runs
+    .map((testCase, order) => ({ testCase, order, time: testCase.timestamp ? Date.parse(testCase.timestamp) : NaN }))
+    .sort((a, b) => (isNaN(a.time) || isNaN(b.time) ? a.order - b.order : a.time - b.time || a.order - b.order))
+    .map(entry => entry.testCase);
+  const final = ordered[ordered.length - 1];
+  const attempts = ordered.flatMap(runsOf).map((attempt, index) => ({ ...attempt, attempt: index }));
+  const failedBefore = attempts.slice(0, -1).some(attempt => attempt.status === 'fail');
+
+  return {
+    ...final,
+    attempts,
+    flaky: final.flaky || (failedBefore && final.status === 'pass') || undefined,
+  };
+}
+
+// Collapses every run of the same test into one TestCase with its attempts and gives it a stable id.
+// Each list is one report; ids (and skippedBy links) are only unique inside their own list. Reports
+// are reruns of each other, but inside one report only timed entries are folded (see areRetries).
+export function collapseTestRuns(reports: TestCase[][]): TestCase[] {
+  const groups = new Map<string, TestCase[]>();
+  const keysById = new Map<string, string>();
+
+  reports.forEach((testCases, reportIndex) => {
+    const qualify = (id: string) => `${reportIndex}:${id}`;
+    const keys = testKeys(testCases);
+    testCases.forEach((testCase, index) => {
+      keysById.set(qualify(testCase.id), keys[index]);
+      const group = groups.get(keys[index]) || [];
+      group.push({ ...testCase, skippedBy: testCase.skippedBy && qualify(testCase.skippedBy) });
+      groups.set(keys[index], group);
+    });
+  });
+
+  const newIds = new Map<string, string>();
+  const used = new Set<string>();
+  groups.forEach((_, key) => {
+    // A 53-bit hash won't realistically collide, but an id must never be shared
+    let id = stableTestId(key);
+    for (let n = 2; used.has(id); n++) id = `${stableTestId(key)}-${n}`;
+    used.add(id);
+    newIds.set(key, id);
+  });
+
+  return Array.from(groups.entries()).map(([key, runs]): TestCase => {
+    const testCase = runs.length > 1 || (runs[0].attempts?.length || 0) > 1 ? reconcile(runs) : runs[0];
+    return {
+      ...testCase,
+      id: newIds.get(key),
+      skippedBy: testCase.skippedBy && newIds.get(keysById.get(testCase.skippedBy)),
+    };
+  });
+}
@@ -0,0 +1,11 @@
+import { TestStep } from '@/types/analysis';
+
+// Child indexes leading to the deepest failing step, e.g. [1, 0, 2]; the first failure wins
+export function failedStepPath(steps: TestStep[] = []): number[] | undefined {
+  for (let index = 0; index < steps.length; index++) {
+    const childPath = failedStepPath(steps[index].steps);
+    if (childPath) return [index, ...childPath];
+    if (steps[index].status === 'fail') return [index];
+  }
+  return undefined;
+}
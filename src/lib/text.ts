@@ -0,0 +1,17 @@
+// Terminal color codes start with ESC, built from its char code since the literal would be a control character in a regex
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, 'g');
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+export function firstLine(text?: string): string | undefined {
+  return text?.trim().split('\n')[0] || undefined;
+}
+
+// Assertion libraries report the diff separately from the message; keep both in front of the reader
+export function formatAssertionError(message?: string, diff?: string | null): string | undefined {
+  const text = stripAnsi(message || '').trim();
+  if (!text && !diff) return undefined;
+  return diff ? `${text}\n\n${stripAnsi(diff).trim()}` : text;
+}
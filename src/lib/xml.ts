@@ -0,0 +1,57 @@
+// Comments, CDATA, processing instructions, the doctype, end tags and start tags, in that order
+const XML_MARKUP = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE(?:[^>[]|\[[\s\S]*?\])*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)(?:[^>"']|"[^"]*"|'[^']*')*?(\/?)>/g;
+
+// The first well-formedness problem, if any. linkedom, the worker's DOMParser, never reports a
+// <parsererror>: it quietly closes what a truncated report left open, which would read as a short, green run.
+export function xmlWellFormednessError(xmlContent: string): string | undefined {
+  const open: string[] = [];
+  let position = 0;
+  let match: RegExpExecArray | null;
+  XML_MARKUP.lastIndex = 0;
+  while ((match = XML_MARKUP.exec(xmlContent))) {
+    if (xmlContent.slice(position, match.index).includes('<')) return `unexpected "<" at offset ${xmlContent.indexOf('<', position)}`;
+    position = XML_MARKUP.lastIndex;
+    const [, endTag, startTag, selfClosing] = match;
+    if (endTag) {
+      const expected = open.pop();
+      if (expected !== endTag) return expected ? `</${endTag}> closes <${expected}>` : `</${endTag}> has no start tag`;
+    } else if (startTag && !selfClosing) {
+      open.push(startTag);
+    }
+  }
+  if (xmlContent.slice(position).includes('<')) return `unexpected "<" at offset ${xmlContent.indexOf('<', position)}`;
+  if (open.length > 0) return `<${open[open.length - 1]}> is never closed`;
+  return undefined;
+}
+
+export function parseXmlDocument(xmlContent: string): Document {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(xmlContent.trim(), 'application/xml');
+
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  const detail = parserError ? parserError.textContent?.trim().split('\n')[0] : xmlWellFormednessError(xmlContent);
+  if (parserError || detail) {
+    throw new Error(`Invalid XML report${detail ? `: ${detail}` : ''}`);
+  }
+
+  return doc;
+}
+
+// Match on localName so namespaced documents (e.g. TRX) work with plain tag names
+export function childElements(parent: Element, tagName?: string): Element[] {
+  return Array.from(parent.children).filter(el => !tagName || el.localName === tagName);
+}
+
+export function childElement(parent: Element, tagName: string): Element | undefined {
+  return childElements(parent, tagName)[0];
+}
+
+export function childText(parent: Element, tagName: string): string | undefined {
+  const text = childElement(parent, tagName)?.textContent?.trim();
+  return text || undefined;
+}
+
+export function numberAttr(el: Element, name: string): number {
+  const value = el.getAttribute(name)?.replace(/,/g, '');
+  return value ? parseFloat(value) || 0 : 0;
+}
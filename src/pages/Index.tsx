@@ -1,38 +1,52 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { Header } from '@/components/Header';
 import { FileUpload } from '@/components/FileUpload';
+import { LogPasteInput } from '@/components/LogPasteInput';
 import { AnalysisSummary } from '@/components/AnalysisSummary';
 import { FailureCard } from '@/components/FailureCard';
 import { RecommendationsPanel } from '@/components/RecommendationsPanel';
 import { AnalysisLoader } from '@/components/AnalysisLoader';
 import { JiraSettingsDialog } from '@/components/JiraSettingsDialog';
+import { RunMetadataBar } from '@/components/RunMetadataBar';
+import { ParseDiagnosticsPanel } from '@/components/ParseDiagnosticsPanel';
+import { OutputRepairsPanel } from '@/components/OutputRepairsPanel';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { parseSparkExtentReport, extractRawContent } from '@/lib/parseReport';
-import { AnalysisResult } from '@/types/analysis';
+import { Badge } from '@/components/ui/badge';
+import { parseInWorker, isAbortError, ParseTask } from '@/lib/parseInWorker';
+import { ParseProgress } from '@/lib/parseShards';
+import { SelectedFile } from '@/lib/reportFiles';
+import { compactStackTrace } from '@/lib/parseStackTrace';
+import { AnalysisResult, BatchReport, FailureAnalysis, ReportMetadata, TestCase } from '@/types/analysis';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { RefreshCw, FileText, AlertTriangle, Lightbulb, Bug } from 'lucide-react';
+import { RefreshCw, FileText, AlertTriangle, Lightbulb, Bug, Upload, ClipboardPaste } from 'lucide-react';
 
 const Index = () => {
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [stage, setStage] = useState<'parsing' | 'analyzing' | 'generating'>('parsing');
   const [fileName, setFileName] = useState<string | null>(null);
+  const [reportMetadata, setReportMetadata] = useState<ReportMetadata | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const parseTask = useRef<ParseTask | null>(null);
   const { toast } = useToast();
 
-  const handleFileSelect = useCallback(async (content: string, name: string) => {
+  const handleFileSelect = useCallback(async (selectedShards: SelectedFile[][]) => {
     setIsLoading(true);
     setResult(null);
-    setFileName(name);
+    setFileName(null);
+    setReportMetadata(null);
+    setParseProgress(null);
     
     try {
-      // Stage 1: Parsing
+      // Stage 1: Parsing (in a worker, reporting bytes read and tests found)
       setStage('parsing');
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      const testCases = parseSparkExtentReport(content);
-      const rawContent = extractRawContent(content);
+      parseTask.current = parseInWorker(selectedShards, setParseProgress);
+      const { testCases, rawContent, metadata, shards, runMetadata, diagnostics } = await parseTask.current.promise;
+      parseTask.current = null;
+      setFileName(shards ? `${shards.length} reports` : metadata.fileName);
+      setReportMetadata(metadata);
       
       if (testCases.length === 0) {
         toast({
@@ -45,8 +59,15 @@ const Index = () => {
       // Stage 2: Analyzing with AI
       setStage('analyzing');
       
+      // Parsed frames replace the raw trace: the AI sees the exception chain and application code without framework noise.
+      // Screenshots stay on the client (steps still name them) and come back with the full tests below
+      const analyzedTests = testCases.map(({ screenshots, ...testCase }): TestCase =>
+        testCase.parsedStackTrace
+          ? { ...testCase, stackTrace: undefined, parsedStackTrace: compactStackTrace(testCase.parsedStackTrace) }
+          : testCase
+      );
       const { data, error } = await supabase.functions.invoke('analyze-report', {
-        body: { testCases, rawContent },
+        body: { testCases: analyzedTests, rawContent, reportFormat: metadata.formatLabel, runMetadata, diagnostics },
       });
       
       if (error) {
@@ -61,16 +82,26 @@ const Index = () => {
       setStage('generating');
       await new Promise(resolve => setTimeout(resolve, 300));
       
-      setResult(data);
+      // Failures echo the tests we sent; show the full parsed tests (raw trace and screenshots included) instead
+      const testsById = new Map(testCases.map(testCase => [testCase.id, testCase]));
+      const failures = data.failures.map((failure: FailureAnalysis) => ({
+        ...failure,
+        testCase: testsById.get(failure.testCase?.id) || failure.testCase,
+      }));
+      setResult({ ...data, failures, shards, runMetadata, diagnostics });
       
       // Count application defects
       const appDefects = data.failures.filter((f: any) => f.category === 'application_defect').length;
       
+      const batches: BatchReport[] = data.batches || [];
+      const batchNote = batches.length > 0 ? ` Analyzed in ${batches.length} batches.` : '';
+      
       toast({
         title: "Analysis Complete",
-        description: `Found ${data.summary.failed} failures out of ${data.summary.total} tests.${appDefects > 0 ? ` ${appDefects} application defect(s) can be logged to JIRA.` : ''}`,
+        description: `Found ${data.summary.failed} failures out of ${data.summary.total} tests.${appDefects > 0 ? ` ${appDefects} application defect(s) can be logged to JIRA.` : ''}${batchNote}`,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Analysis error:', error);
       toast({
         title: "Analysis Failed",
@@ -78,13 +109,19 @@ const Index = () => {
         variant: "destructive",
       });
     } finally {
+      parseTask.current = null;
       setIsLoading(false);
     }
   }, [toast]);
 
+  const handleCancelParsing = useCallback(() => {
+    parseTask.current?.cancel();
+  }, []);
+
   const handleReset = useCallback(() => {
     setResult(null);
     setFileName(null);
+    setReportMetadata(null);
   }, []);
 
   const handleJiraIssueCreated = useCallback((testId: string, issueKey: string) => {
@@ -106,6 +143,7 @@ const Index = () => {
 
   // Count application defects for the tab
   const applicationDefectsCount = result?.failures.filter(f => f.category === 'application_defect').length || 0;
+  const failedBatches = result?.batches?.filter(batch => batch.status === 'failed') || [];
 
   return (
     <div className="min-h-screen bg-background">
@@ -117,20 +155,37 @@ const Index = () => {
             <div className="text-center mb-8">
               <h2 className="text-3xl font-bold mb-3">Analyze Test Failures</h2>
               <p className="text-muted-foreground text-lg">
-                Upload your Spark Extent Report and let AI identify root causes, 
+                Upload a test report in any supported format, or paste a console log, and let AI identify root causes, 
                 classify defects, and provide actionable recommendations.
               </p>
               <div className="mt-4">
                 <JiraSettingsDialog />
               </div>
             </div>
-            <FileUpload onFileSelect={handleFileSelect} isLoading={isLoading} />
+            <Tabs defaultValue="upload" className="space-y-4">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="upload" className="flex items-center gap-2">
+                  <Upload className="h-4 w-4" />
+                  Upload Report
+                </TabsTrigger>
+                <TabsTrigger value="paste" className="flex items-center gap-2">
+                  <ClipboardPaste className="h-4 w-4" />
+                  Paste Log
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="upload">
+                <FileUpload onFileSelect={handleFileSelect} isLoading={isLoading} />
+              </TabsContent>
+              <TabsContent value="paste">
+                <LogPasteInput onFileSelect={handleFileSelect} isLoading={isLoading} />
+              </TabsContent>
+            </Tabs>
           </div>
         )}
         
         {isLoading && (
           <div className="max-w-2xl mx-auto">
-            <AnalysisLoader stage={stage} />
+            <AnalysisLoader stage={stage} progress={parseProgress} onCancel={handleCancelParsing} />
           </div>
         )}
         
@@ -143,8 +198,15 @@ const Index = () => {
                   <p className="text-sm text-muted-foreground flex items-center gap-2 mt-1">
                     <FileText className="h-4 w-4" />
                     {fileName}
+                    {reportMetadata && (
+                      <Badge variant="secondary" className="font-normal">
+                        {reportMetadata.formatLabel}
+                        {reportMetadata.version && ` ${reportMetadata.version}`}
+                      </Badge>
+                    )}
                   </p>
                 )}
+                {result.runMetadata && <RunMetadataBar metadata={result.runMetadata} />}
               </div>
               <div className="flex items-center gap-2">
                 <JiraSettingsDialog />
@@ -157,6 +219,28 @@ const Index = () => {
             
             <AnalysisSummary result={result} />
             
+            {result.diagnostics && result.diagnostics.length > 0 && (
+              <ParseDiagnosticsPanel diagnostics={result.diagnostics} />
+            )}
+            
+            {result.outputRepairs && result.outputRepairs.length > 0 && (
+              <OutputRepairsPanel repairs={result.outputRepairs} />
+            )}
+            
+            {failedBatches.length > 0 && (
+              <div className="flex items-center gap-2 p-4 bg-destructive/5 border border-destructive/20 rounded-lg">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+                <span className="font-medium">
+                  {failedBatches.length} of {result.batches?.length} analysis batches failed
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  {failedBatches.some(batch => batch.rawRange)
+                    ? `— tests in ${failedBatches.filter(batch => batch.rawRange).length} slice(s) of the raw report are missing from the results`
+                    : `— ${failedBatches.reduce((sum, batch) => sum + batch.tests, 0)} failures are listed without an AI root cause`}
+                </span>
+              </div>
+            )}
+            
             {applicationDefectsCount > 0 && (
               <div className="flex items-center gap-2 p-4 bg-primary/5 border border-primary/20 rounded-lg">
                 <Bug className="h-5 w-5 text-primary" />
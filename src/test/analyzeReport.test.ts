@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { analyzeReport } from "../../supabase/functions/analyze-report/analyze.ts";
+import { fakeProvider } from "../../supabase/functions/analyze-report/fakeProvider.ts";
+import { ModelProvider, ProviderConfigError, ProviderError, providerFromEnv } from "../../supabase/functions/analyze-report/providers.ts";
+
+const checkout = {
+  id: "t1",
+  name: "paysByCard",
+  className: "com.shop.CheckoutTest",
+  status: "fail" as const,
+  duration: 1.5,
+  errorMessage: "expected:<110> but was:<100>",
+};
+const login = {
+  id: "t2",
+  name: "logsIn",
+  className: "com.shop.LoginTest",
+  status: "fail" as const,
+  duration: 0.5,
+  errorMessage: "Element #user not found",
+};
+const search = { id: "t3", name: "searches", className: "com.shop.SearchTest", status: "pass" as const, duration: 1 };
+
+const verdict = (testName: string, overrides: object = {}) => ({
+  testId: testName === "paysByCard" ? "t1" : "t2",
+  testName,
+  rootCause: "Tax is no longer added at checkout",
+  category: "application_defect",
+  confidence: "high",
+  evidence: ["expected:<110> but was:<100>"],
+  suggestedFix: "Restore the tax calculation",
+  ...overrides,
+});
+
+const analysis = (failures: object[]) => ({ failures, patterns: [], recommendations: [] });
+
+const env = (values: Record<string, string>) => (name: string) => values[name];
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("analyzeReport", () => {
+  it("analyzes a small run in one request", async () => {
+    const provider = fakeProvider({ report_analysis: [analysis([verdict("paysByCard")])] });
+
+    const result = await analyzeReport({ testCases: [checkout, search] }, provider);
+
+    expect(provider.requests).toHaveLength(1);
+    expect(result.summary).toMatchObject({ total: 2, passed: 1, failed: 1, duration: "2.5s" });
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0]).toMatchObject({ category: "application_defect", confidence: "high" });
+    expect(result.failures[0].testCase).toBe(checkout);
+    expect(result.outputRepairs).toEqual([]);
+    expect(result.batches).toBeUndefined();
+  });
+
+  it("retries with the invalid fields named and reports what the retry fixed", async () => {
+    const provider = fakeProvider({
+      report_analysis: [
+        analysis([verdict("paysByCard", { category: "product bug" })]),
+        analysis([verdict("paysByCard")]),
+      ],
+    });
+
+    const result = await analyzeReport({ testCases: [checkout] }, provider);
+
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].messages.at(-1).content).toContain("failures[0].category");
+    expect(result.failures[0].category).toBe("application_defect");
+    expect(result.outputRepairs).toEqual([
+      expect.objectContaining({ path: "failures[0].category", action: "repaired" }),
+    ]);
+  });
+
+  it("fixes up near misses locally and flags fields that stay invalid", async () => {
+    const broken = analysis([verdict("paysByCard", { category: "Application Defect", confidence: "certain" })]);
+    const provider = fakeProvider({ report_analysis: [broken, broken] });
+
+    const result = await analyzeReport({ testCases: [checkout] }, provider);
+
+    expect(result.failures[0]).toMatchObject({ category: "application_defect", confidence: "low", defaultedFields: ["confidence"] });
+    expect(result.outputRepairs.map(repair => [repair.path, repair.action])).toEqual([
+      ["failures[0].category", "repaired"],
+      ["failures[0].confidence", "defaulted"],
+    ]);
+  });
+
+  it("splits a large run into batches and keeps failures of a failed batch", async () => {
+    const provider = fakeProvider({
+      // The login batch has no recorded reply, so it fails
+      report_analysis: [analysis([verdict("paysByCard")])],
+      merged_findings: [{ patterns: [], recommendations: [] }],
+    });
+
+    const result = await analyzeReport({ testCases: [checkout, login, search] }, provider, { batchTokens: 60 });
+
+    expect(provider.requests.map(request => request.tool)).toEqual(["report_analysis", "report_analysis"]);
+    expect(result.batches.map(batch => batch.status)).toEqual(["ok", "failed"]);
+    expect(result.failures.map(failure => failure.testCase.name)).toEqual(["paysByCard", "logsIn"]);
+    expect(result.failures[1].defaultedFields).toContain("category");
+    expect(result.recommendations[0].title).toBe("Manual Review Required");
+  });
+
+  it("sends a large run with nothing failing in one request without slicing the raw report", async () => {
+    const passing = Array.from({ length: 50 }, (_, i) => ({ ...search, id: `p${i}`, name: `passes${i}` }));
+    const provider = fakeProvider({ report_analysis: [analysis([])] });
+
+    const result = await analyzeReport({ testCases: passing, rawContent: "<tr><td>passed</td></tr>\n".repeat(2000) }, provider, { batchTokens: 500 });
+
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].messages[1].content).toContain("=== RUN TOTALS ===");
+    expect(result.batches).toBeUndefined();
+    expect(result.summary).toMatchObject({ total: 50, passed: 50 });
+  });
+
+  it("flags slices of an unparsed report whose analysis failed", async () => {
+    // Only the first slice has a recorded reply
+    const provider = fakeProvider({ report_analysis: [analysis([])], merged_findings: [] });
+
+    const result = await analyzeReport({ rawContent: "<tr><td>row</td></tr>\n".repeat(2000) }, provider, { batchTokens: 8000 });
+
+    const failed = result.batches.filter(batch => batch.status === "failed");
+    expect(failed.length).toBeGreaterThan(0);
+    expect(failed[0].rawRange.from).toBeGreaterThan(0);
+    expect(result.recommendations[0].description).toContain("missing from the results");
+  });
+
+  it("sends parser diagnostics as counts with a sample of names", async () => {
+    const provider = fakeProvider({ report_analysis: [analysis([verdict("paysByCard")])] });
+    const guessed = Array.from({ length: 300 }, (_, i) => `placeholder ${i}`);
+
+    await analyzeReport({
+      testCases: [checkout],
+      diagnostics: [{ fileName: "report.html", formatLabel: "Spark Extent HTML", confidence: 0.4, strategy: "regex fallback", reliability: "low", testCount: 300, guessedStatus: guessed, ignored: [], notes: [] }],
+    }, provider);
+
+    const prompt = provider.requests[0].messages[1].content;
+    expect(prompt).toContain('"count": 300');
+    expect(prompt).toContain("placeholder 9");
+    expect(prompt).not.toContain("placeholder 10");
+  });
+
+  it("labels failures with a known signature by rule without asking the model", async () => {
+    const refused = { ...login, id: "t4", name: "refundsOrder", errorMessage: "java.net.ConnectException: Connection refused" };
+    const provider = fakeProvider({});
+
+    const result = await analyzeReport({ testCases: [refused, { ...refused, id: "t5", name: "cancelsOrder" }, search] }, provider);
+
+    expect(provider.requests).toHaveLength(0);
+    expect(result.failures.map(failure => [failure.testCase.name, failure.category, failure.ruleId])).toEqual([
+      ["refundsOrder", "environment_issue", "connection-refused"],
+      ["cancelsOrder", "environment_issue", "connection-refused"],
+    ]);
+    expect(result.patterns[0]).toMatchObject({ occurrences: 2, affectedTests: ["refundsOrder", "cancelsOrder"] });
+    expect(result.summary).toMatchObject({ total: 3, failed: 2 });
+  });
+
+  it("sends the rest to the model with rule hints attached", async () => {
+    const intercepted = { ...login, errorMessage: "ElementClickInterceptedException: element click intercepted" };
+    const refused = { ...login, id: "t4", name: "refundsOrder", errorMessage: "Connection refused" };
+    const provider = fakeProvider({ report_analysis: [analysis([verdict("logsIn")])] });
+
+    const result = await analyzeReport({ testCases: [intercepted, refused] }, provider);
+
+    const prompt = provider.requests[0].messages[1].content;
+    expect(prompt).toContain('"rule": "element-not-interactable"');
+    expect(prompt).not.toContain("refundsOrder");
+    expect(prompt).toContain("FAILURES LABELLED BY RULES");
+    expect(result.failures.map(failure => failure.ruleId)).toEqual(["connection-refused", undefined]);
+    expect(result.summary).toMatchObject({ total: 2, failed: 2 });
+  });
+
+  it("analyzes failures with the same error once and shares the verdict", async () => {
+    const timedOut = (id: string, name: string, ms: number) => ({
+      ...login,
+      id,
+      name,
+      errorMessage: `AssertionError: order ${ms} not found after ${ms}ms`,
+      stackTrace: `AssertionError: order not found\n    at OrderPage.waitForOrder (order-page.ts:${ms % 90}:5)`,
+    });
+    const provider = fakeProvider({ report_analysis: [analysis([verdict("logsIn", { testId: "t6" })])] });
+
+    const result = await analyzeReport({
+      testCases: [timedOut("t6", "opensOrder", 1200), timedOut("t7", "editsOrder", 3400), timedOut("t8", "printsOrder", 52)],
+    }, provider);
+
+    const prompt = provider.requests[0].messages[1].content;
+    expect(prompt).toContain("opensOrder");
+    expect(prompt).toContain('"otherTests"');
+    expect(prompt).not.toContain("order-page.ts:70");
+    expect(result.failures.map(failure => [failure.testCase.name, failure.cluster?.size])).toEqual([
+      ["opensOrder", 3],
+      ["editsOrder", 3],
+      ["printsOrder", 3],
+    ]);
+    expect(result.patterns[0]).toMatchObject({ occurrences: 3 });
+  });
+
+  it("drops xfailed tests by id but keeps a real failure with the same name", async () => {
+    const xfailed = { ...checkout, id: "x1", name: "test_total[eur]", className: "tests.test_tax", rawStatus: "xfailed" };
+    const failed = { ...checkout, id: "x2", name: "test_total[eur]", className: "tests.test_cart", rawStatus: "failed" };
+    const provider = fakeProvider({ report_analysis: [analysis([verdict("test_total[eur]", { testId: "x2" })])] });
+
+    const result = await analyzeReport({ testCases: [xfailed, failed] }, provider);
+
+    expect(result.failures.map(failure => failure.testCase.id)).toEqual(["x2"]);
+  });
+
+  it("passes the provider's error on when no request got through", async () => {
+    const provider: ModelProvider = {
+      name: "Rate limited",
+      complete: async () => {
+        throw new ProviderError(429, "Rate limit exceeded. Please try again in a moment.");
+      },
+    };
+
+    await expect(analyzeReport({ testCases: [checkout] }, provider)).rejects.toMatchObject({ status: 429 });
+  });
+});
+
+describe("providerFromEnv", () => {
+  it("defaults to the Lovable gateway and needs its key", () => {
+    expect(providerFromEnv(env({ LOVABLE_API_KEY: "key" })).name).toBe("AI gateway");
+    expect(() => providerFromEnv(env({}))).toThrow(ProviderConfigError);
+  });
+
+  it("picks the provider named by AI_PROVIDER", () => {
+    const azure = providerFromEnv(env({
+      AI_PROVIDER: "azure",
+      AZURE_OPENAI_ENDPOINT: "https://qa.openai.azure.com/",
+      AZURE_OPENAI_DEPLOYMENT: "gpt-4o",
+      AZURE_OPENAI_API_KEY: "key",
+    }));
+
+    expect(azure.name).toBe("Azure OpenAI");
+    expect(providerFromEnv(env({ AI_PROVIDER: "anthropic", ANTHROPIC_API_KEY: "key" })).name).toBe("Anthropic");
+    expect(providerFromEnv(env({ AI_PROVIDER: "ollama" })).name).toBe("Ollama");
+    expect(providerFromEnv(env({ AI_PROVIDER: "llamacpp" })).name).toBe("llama.cpp");
+    expect(() => providerFromEnv(env({ AI_PROVIDER: "azure" }))).toThrow("AZURE_OPENAI_ENDPOINT is not configured");
+    expect(() => providerFromEnv(env({ AI_PROVIDER: "bard" }))).toThrow('Unknown AI_PROVIDER "bard"');
+  });
+
+  it("replays the recording in AI_FAKE_RESPONSES", async () => {
+    const provider = providerFromEnv(env({
+      AI_PROVIDER: "fake",
+      AI_FAKE_RESPONSES: JSON.stringify({ report_analysis: [analysis([verdict("paysByCard")])] }),
+    }));
+
+    const result = await analyzeReport({ testCases: [checkout] }, provider);
+
+    expect(result.failures[0].rootCause).toBe("Tax is no longer added at checkout");
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  batchFailures,
+  chunkText,
+  estimateTokens,
+  mapWithConcurrency,
+  mergeFindings,
+  planBatches,
+  promptTest,
+} from "../../supabase/functions/analyze-report/batches.ts";
+
+const failure = (id: string, className: string, overrides: object = {}) => ({
+  id,
+  name: `test${id}`,
+  className,
+  status: "fail" as const,
+  duration: 1,
+  errorMessage: "expected:<110> but was:<100>",
+  ...overrides,
+});
+
+describe("batchFailures", () => {
+  it("packs failures of the same class together up to the budget", () => {
+    const failures = [failure("1", "com.shop.LoginTest"), failure("2", "com.shop.CartTest"), failure("3", "com.shop.LoginTest")];
+    const perTest = estimateTokens(JSON.stringify(failures[0], null, 2));
+
+    const batches = batchFailures(failures, perTest * 2 + 5);
+
+    expect(batches.map(batch => batch.map(t => t.id))).toEqual([["2", "1"], ["3"]]);
+    expect(batchFailures(failures, 10000)).toHaveLength(1);
+  });
+
+  it("trims a test bigger than the budget down to its error, trace and outline", () => {
+    const frames = Array.from({ length: 40 }, (_, i) => ({ module: `com.shop.Layer${i}`, method: "call", framework: i > 0 }));
+    const huge = failure("1", "com.shop.CartTest", {
+      errorMessage: "x".repeat(5000),
+      logs: ["log line ".repeat(500)],
+      attachments: [{ name: "trace.zip", path: "traces/trace.zip" }],
+      stepsToReproduce: ["Open cart", "Pay"],
+      failedStepIndex: 1,
+      steps: [{ name: "Pay", status: "fail", steps: [{ name: "detail ".repeat(300), status: "pass" }] }],
+      parsedStackTrace: { runtime: "java", exceptions: [{ type: "java.lang.AssertionError", message: "y".repeat(5000), frames }] },
+    });
+
+    const [[fitted]] = batchFailures([huge], 1000);
+
+    expect(fitted).toMatchObject({ logs: undefined, attachments: undefined, steps: undefined, stepsToReproduce: ["Open cart", "Pay"] });
+    expect(fitted.parsedStackTrace.exceptions[0].frames).toHaveLength(10);
+    expect(fitted.parsedStackTrace.exceptions[0].omittedFrames).toBe(30);
+    expect(estimateTokens(JSON.stringify(fitted, null, 2))).toBeLessThanOrEqual(1000);
+  });
+});
+
+describe("promptTest", () => {
+  it("drops screenshot data and anything but an attachment's name, type and path before packing", () => {
+    const withFiles = failure("1", "com.shop.CartTest", {
+      screenshots: [{ name: "cart.png", mimeType: "image/png", base64Data: "iVBOR".repeat(20000) }],
+      attachments: [{ name: "trace.zip", contentType: "application/zip", path: "traces/trace.zip", body: "UEsDB".repeat(20000) }],
+    });
+
+    expect(promptTest(withFiles)).toEqual({
+      ...failure("1", "com.shop.CartTest"),
+      attachments: [{ name: "trace.zip", contentType: "application/zip", path: "traces/trace.zip" }],
+    });
+    const [batch] = batchFailures([withFiles, failure("2", "com.shop.CartTest")], 1000);
+    expect(batch).toHaveLength(2);
+    expect(batch[0].screenshots).toBeUndefined();
+  });
+});
+
+describe("planBatches", () => {
+  it("slices the raw report only when there are no parsed failures, and says where each slice sits", () => {
+    const raw = "line of report text\n".repeat(100);
+
+    const slices = planBatches([], raw, 100);
+    expect(slices.map(batch => batch.rawRange)).toEqual([{ from: 0, to: 400 }, { from: 400, to: 800 }, { from: 800, to: 1200 }, { from: 1200, to: 1600 }, { from: 1600, to: 2000 }]);
+    expect(planBatches([failure("1", "com.shop.A")], raw, 100).map(batch => batch.rawContent)).toEqual([undefined]);
+    expect(planBatches([], undefined, 100)).toEqual([]);
+  });
+});
+
+describe("chunkText", () => {
+  it("cuts at line breaks and keeps every character", () => {
+    const text = "first line\nsecond line\nthird line\n";
+
+    const chunks = chunkText(text, 6);
+
+    expect(chunks).toEqual(["first line\nsecond line\n", "third line\n"]);
+    expect(chunks.join("")).toBe(text);
+  });
+
+  it("cuts inside a line longer than the budget", () => {
+    expect(chunkText("x".repeat(10), 1)).toEqual(["xxxx", "xxxx", "xx"]);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps results in input order with a limited number in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async delay => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe("mergeFindings", () => {
+  it("merges the same pattern and recommendation from several batches", () => {
+    const merged = mergeFindings([
+      {
+        patterns: [{ description: "Login times out", occurrences: 2, affectedTests: ["a", "b"] }],
+        recommendations: [{ priority: "low", title: "Raise timeouts", description: "", actionItems: ["Raise the login wait"] }],
+      },
+      {
+        patterns: [
+          { description: "login times out ", occurrences: 1, affectedTests: ["b", "c"] },
+          { description: "Cart total off by tax", occurrences: 4, affectedTests: ["d"] },
+        ],
+        recommendations: [
+          { priority: "high", title: "Raise timeouts", description: "", actionItems: ["Raise the login wait", "Check the auth service"] },
+          { priority: "medium", title: "Fix tax", description: "", actionItems: [] },
+        ],
+      },
+    ]);
+
+    expect(merged.patterns).toEqual([
+      { description: "Cart total off by tax", occurrences: 4, affectedTests: ["d"] },
+      { description: "Login times out", occurrences: 3, affectedTests: ["a", "b", "c"] },
+    ]);
+    expect(merged.recommendations.map(r => [r.title, r.priority, r.actionItems])).toEqual([
+      ["Raise timeouts", "high", ["Raise the login wait", "Check the auth service"]],
+      ["Fix tax", "medium", []],
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import { parseSparkExtentReport, parseExtentReport } from "@/lib/parseReport";
+import { parseReport } from "@/lib/reportParsers";
+import { detectExtentVersion } from "@/lib/extentModel";
+
+const MODEL = [
+  {
+    name: "LoginTest",
+    status: "FAIL",
+    authorSet: [{ name: "alice" }],
+    categorySet: [{ name: "regression" }],
+    children: [
+      {
+        name: "validLogin",
+        status: "PASS",
+        startTime: "2024-05-01T10:00:00.000Z",
+        endTime: "2024-05-01T10:00:02.500Z",
+        deviceSet: [{ name: "Chrome 120" }],
+        logs: [{ status: "PASS", details: "Opened <b>login</b> page" }],
+      },
+      {
+        name: "lockedOut",
+        status: "FAIL",
+        startTime: 1714557600000,
+        endTime: 1714557601000,
+        logs: [
+          { status: "INFO", details: "Entered locked credentials" },
+          {
+            status: "FAIL",
+            details: "Expected error banner",
+            exception: { name: "java.lang.AssertionError", stackTrace: "java.lang.AssertionError\n\tat LoginTest.lockedOut(LoginTest.java:30)" },
+            media: { base64: "data:image/png;base64,iVBORw0KGgo=" },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: "Checkout feature",
+    status: "PASS",
+    children: [
+      {
+        name: "Pay with warning",
+        status: "WARNING",
+        children: [
+          { name: "I pay", status: "PASS", bddType: "com.aventstack.extentreports.gherkin.model.When" },
+          { name: "a receipt is shown", status: "WARNING", bddType: { name: "Then" } },
+        ],
+      },
+    ],
+  },
+];
+
+const html = (script: string) => `<!DOCTYPE html><html><head>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/gh/extent-framework/extent-github-cdn@b00a2d0/spark/css/spark-style.css">
+</head><body>
+<div class="test-item"><span class="test-name">Some error prone markup</span></div>
+<script>${script}</script>
+</body></html>`;
+
+describe("Extent embedded model", () => {
+  it("reads tests from a JSON model assigned in a script tag", () => {
+    const tests = parseSparkExtentReport(html(`var testData = ${JSON.stringify(MODEL)};\nrender(testData);`));
+
+    expect(tests.map(t => [t.className, t.name, t.status])).toEqual([
+      ["LoginTest", "validLogin", "pass"],
+      ["LoginTest", "lockedOut", "fail"],
+      ["Checkout feature", "Pay with warning", "pass"],
+    ]);
+
+    const [valid, locked, bdd] = tests;
+    expect(valid).toMatchObject({
+      duration: 2.5,
+      authors: ["alice"],
+      tags: ["regression"],
+      devices: ["Chrome 120"],
+      stepsToReproduce: ["Opened login page"],
+    });
+    expect(locked).toMatchObject({
+      rawStatus: "fail",
+      duration: 1,
+      errorMessage: "Expected error banner",
+      failedStepIndex: 1,
+      timestamp: "2024-05-01T10:00:00.000Z",
+    });
+    expect(locked.stackTrace).toContain("LoginTest.java:30");
+    expect(locked.screenshots).toEqual([{ name: "screenshot-2-1.png", mimeType: "image/png", base64Data: "iVBORw0KGgo=" }]);
+    expect(bdd.rawStatus).toBe("warning");
+    expect(bdd.stepsToReproduce).toEqual(["When I pay", "Then a receipt is shown"]);
+  });
+
+  it("keeps log entries and BDD steps as a step tree", () => {
+    const [, locked, bdd] = parseSparkExtentReport(html(`var testData = ${JSON.stringify(MODEL)};`));
+
+    expect(locked.steps).toEqual([
+      { name: "Entered locked credentials", status: "pass", rawStatus: "info", level: "info" },
+      {
+        name: "Expected error banner",
+        status: "fail",
+        rawStatus: "fail",
+        level: "fail",
+        errorMessage: "java.lang.AssertionError",
+        attachments: [{ name: "screenshot-2-1.png", contentType: "image/png" }],
+      },
+    ]);
+    expect(bdd.steps?.map(step => [step.name, step.rawStatus])).toEqual([["When I pay", "pass"], ["Then a receipt is shown", "warning"]]);
+  });
+
+  it("reads a JSON script block", () => {
+    const tests = parseSparkExtentReport(
+      html("").replace("<script></script>", `<script type="application/json">${JSON.stringify({ tests: MODEL })}</script>`)
+    );
+    expect(tests).toHaveLength(3);
+  });
+
+  it("falls back to DOM scraping without a model", () => {
+    const tests = parseSparkExtentReport(html("console.log('no model');"));
+    expect(tests.map(t => t.name)).toEqual(["Some error prone markup"]);
+  });
+
+  it("records which strategy found the tests", () => {
+    expect(parseExtentReport(html(`var testData = ${JSON.stringify(MODEL)};`)).diagnostics).toMatchObject({
+      strategy: "Embedded JSON model (Extent v5)",
+      nodeCount: 3,
+      guessedStatus: [],
+    });
+
+    // Nothing in the markup says whether "Checkout" passed
+    const { diagnostics } = parseExtentReport(
+      html("console.log('no model');").replace("Some error prone markup", "Checkout")
+    );
+    expect(diagnostics.strategy).toMatch(/^DOM selector/);
+    expect(diagnostics.guessedStatus).toEqual(["Checkout"]);
+    expect(diagnostics.notes[0]).toMatch(/No embedded JSON model/);
+  });
+
+  it("marks tests rebuilt from summary counts as low reliability", () => {
+    const { testCases, diagnostics } = parseExtentReport("<html><body><p>Passed: 2</p><p>Failed: 1</p></body></html>");
+
+    expect(testCases).toHaveLength(3);
+    expect(diagnostics.reliability).toBe("low");
+    expect(diagnostics.strategy).toBe("Pass/fail/skip counts in the page text");
+    expect(diagnostics.guessedStatus).toHaveLength(3);
+  });
+
+  it("reads the dashboard's system/environment table into run metadata", () => {
+    const dashboard = `<div class="card"><div class="card-header"><p>System/Environment</p></div>
+<div class="card-body"><table class="table table-sm"><thead><tr><th>Name</th><th>Value</th></tr></thead>
+<tbody><tr><td>OS</td><td>Windows 11</td></tr><tr><td>Base URL</td><td>https://staging-2.shop.test</td></tr></tbody></table></div></div>`;
+    const content = html(`var testData = ${JSON.stringify(MODEL)};`).replace("<body>", `<body>${dashboard}`);
+
+    expect(parseExtentReport(content).environment).toEqual({ OS: "Windows 11", "Base URL": "https://staging-2.shop.test" });
+    expect(parseReport({ fileName: "Spark.html", content }).runMetadata).toEqual({
+      environment: { OS: "Windows 11", "Base URL": "https://staging-2.shop.test" },
+      authors: ["alice"],
+      devices: ["Chrome 120"],
+      tags: ["regression"],
+    });
+  });
+
+  it("reads the fields of the detected version's layout", () => {
+    const legacy = [{
+      name: "LoginTest",
+      status: "fail",
+      authorContext: { all: [{ name: "bob" }] },
+      nodeContext: {
+        all: [{
+          name: "lockedOut",
+          status: "fail",
+          logContext: { all: [{ status: "fail", details: "Expected error banner" }] },
+          // A Spark field in a v4 report is not read
+          logs: [{ status: "pass", details: "ignored" }],
+        }],
+      },
+    }];
+    const v4 = (script: string) => html(script).replace(/<link[^>]*>/, '<link href="https://cdn.jsdelivr.net/gh/extent-framework/extent-github-cdn@b00a2d0/v4/css/extent.v4.css">');
+
+    const report = parseExtentReport(v4(`var testData = ${JSON.stringify(legacy)};`));
+    const [test] = report.testCases;
+
+    expect(report.version).toBe("v4");
+    expect(report.diagnostics.strategy).toBe("Embedded JSON model (Extent v4)");
+    expect(test).toMatchObject({ className: "LoginTest", name: "lockedOut", status: "fail", errorMessage: "Expected error banner", authors: ["bob"] });
+    expect(test.logs).toEqual(["Expected error banner"]);
+  });
+
+  it("detects the Extent version from asset references", () => {
+    expect(detectExtentVersion(html(""))).toBe("v5");
+    expect(detectExtentVersion('<link href="extent-github-cdn/v3html/css/extent.css">')).toBe("v3");
+    expect(detectExtentVersion("<html></html>")).toBeUndefined();
+  });
+});
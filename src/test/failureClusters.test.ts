@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  clusterFailures,
+  clusterPatterns,
+  errorSignature,
+  fanOutVerdicts,
+  maskVolatile,
+  representativeForModel,
+} from "../../supabase/functions/analyze-report/clusters.ts";
+
+const failure = (id: string, errorMessage: string, stackTrace?: string) => ({
+  id,
+  name: `test${id}`,
+  className: "com.shop.OrderTest",
+  status: "fail" as const,
+  duration: 1,
+  errorMessage,
+  stackTrace,
+});
+
+describe("maskVolatile", () => {
+  it("masks ids, timestamps and numbers", () => {
+    expect(maskVolatile("Order 3f2b1c9a-1d2e-4f50-8a9b-0c1d2e3f4a5b created at 2024-03-01T10:15:30Z")).toBe(
+      "Order <guid> created at <time>"
+    );
+    expect(maskVolatile("session 9f86d081884c7d65 for qa+1@shop.test took 1.5s at 0x7ffe")).toBe(
+      "session <id> for <email> took <n>s at <id>"
+    );
+  });
+});
+
+describe("errorSignature", () => {
+  it("combines the first line of the error with the top frame", () => {
+    const testCase = failure("1", "Timeout after 3000ms\nmore detail", "Error\n    at LoginPage.submit (login.ts:42:7)\n    at run (runner.ts:5:1)");
+
+    expect(errorSignature(testCase)).toBe("Timeout after <n>ms @ at LoginPage.submit (login.ts:<n>:<n>)");
+  });
+
+  it("keeps apart tests in different classes that fail the same assertion helper", () => {
+    const assertionFailure = (id: string, testClass: string, method: string) => ({
+      ...failure(
+        id,
+        `expected:<${id}10> but was:<${id}00>`,
+        `java.lang.AssertionError: expected\n\tat org.junit.Assert.fail(Assert.java:89)\n\tat org.junit.Assert.failNotEquals(Assert.java:835)\n\tat ${testClass}.${method}(${testClass}.java:${id}4)`
+      ),
+      parsedStackTrace: {
+        runtime: "java" as const,
+        exceptions: [{
+          type: "java.lang.AssertionError",
+          frames: [
+            { module: "org.junit.Assert", method: "failNotEquals", framework: true },
+            { module: testClass, method, framework: false },
+          ],
+        }],
+      },
+    });
+    const cart = assertionFailure("1", "com.shop.CartTest", "addsTax");
+    const users = assertionFailure("2", "com.shop.UserApiTest", "returns404");
+
+    expect(errorSignature(cart)).toBe("expected:<<n>> but was:<<n>> @ com.shop.CartTest.addsTax");
+    expect(clusterFailures([cart, users])).toHaveLength(2);
+    expect(clusterFailures([{ ...cart, parsedStackTrace: undefined }, { ...users, parsedStackTrace: undefined }])).toHaveLength(2);
+    expect(errorSignature({ ...cart, parsedStackTrace: undefined })).toContain("at com.shop.CartTest.addsTax");
+  });
+
+  it("is empty without an error or a trace", () => {
+    expect(errorSignature({ id: "1", name: "passes", className: "com.shop.OrderTest", status: "fail", duration: 1 })).toBe("");
+  });
+});
+
+describe("clusterFailures", () => {
+  const failures = [
+    failure("1", "Order 17 not found"),
+    failure("2", "Order 204 not found"),
+    failure("3", "Payment declined"),
+    { id: "4", name: "test4", className: "com.shop.OrderTest", status: "fail" as const, duration: 1 },
+  ];
+
+  it("groups failures with the same signature in order of first appearance", () => {
+    const clusters = clusterFailures(failures);
+
+    expect(clusters.map(cluster => cluster.members.map(member => member.id))).toEqual([["1", "2"], ["3"], ["4"]]);
+    expect(clusters[0].representative.id).toBe("1");
+    expect(clusters[2].signature).toBe("test:4");
+  });
+
+  it("tells the model how many tests a representative stands for", () => {
+    const [shared, single] = clusterFailures(failures);
+
+    expect(representativeForModel(shared).sharedFailure).toEqual({ tests: 2, otherTests: ["test2"] });
+    expect(representativeForModel(single).sharedFailure).toBeUndefined();
+  });
+
+  it("copies a representative's verdict to the whole cluster", () => {
+    const clusters = clusterFailures(failures);
+    const verdicts = fanOutVerdicts([
+      { testId: "1", testName: "test1", category: "application_defect" },
+      { testId: "3", testName: "test3", category: "test_data_issue" },
+    ], clusters);
+
+    expect(verdicts.map(verdict => [verdict.testId, verdict.category, verdict.cluster?.size])).toEqual([
+      ["1", "application_defect", 2],
+      ["2", "application_defect", 2],
+      ["3", "test_data_issue", undefined],
+    ]);
+  });
+
+  it("reports clusters of more than one test as patterns", () => {
+    expect(clusterPatterns(clusterFailures(failures))).toEqual([
+      {
+        description: "2 tests fail with the same error: Order 17 not found",
+        occurrences: 2,
+        affectedTests: ["test1", "test2"],
+        signature: "Order <n> not found",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { classifyFailures, matchRules, rulesFromConfig, DEFAULT_RULES } from "../../supabase/functions/analyze-report/rules.ts";
+
+const failure = (id: string, errorMessage: string, extra: object = {}) => ({
+  id,
+  name: id,
+  className: "com.shop.CheckoutTest",
+  status: "fail" as const,
+  duration: 0,
+  errorMessage,
+  ...extra,
+});
+
+describe("failure rules", () => {
+  it("labels the signatures of the default rule pack", () => {
+    const { verdicts, unresolved } = classifyFailures([
+      failure("a", "org.openqa.selenium.NoSuchElementException: no such element: Unable to locate element"),
+      failure("b", "StaleElementReferenceException: stale element reference: element is not attached"),
+      failure("c", "HTTP status 503 Service Unavailable"),
+      failure("d", "java.sql.SQLIntegrityConstraintViolationException: Duplicate entry 'qa@shop.test'"),
+      failure("e", "expected:<110> but was:<100>"),
+    ], DEFAULT_RULES);
+
+    expect(verdicts.map(v => [v.testId, v.category, v.ruleId])).toEqual([
+      ["a", "automation_script_defect", "element-not-found"],
+      ["b", "automation_script_defect", "stale-element"],
+      ["c", "environment_issue", "service-unavailable"],
+      ["d", "test_data_issue", "db-constraint"],
+    ]);
+    expect(verdicts[2].evidence).toEqual(["HTTP status 503 Service Unavailable"]);
+    expect(unresolved.map(t => t.id)).toEqual(["e"]);
+  });
+
+  it("searches parsed exceptions when the raw trace was left out", () => {
+    const hints = matchRules(failure("a", "", {
+      parsedStackTrace: { runtime: "java", exceptions: [{ type: "java.net.UnknownHostException", message: "staging-2", frames: [] }] },
+    }), DEFAULT_RULES);
+
+    expect(hints).toEqual([
+      { rule: "unknown-host", category: "environment_issue", confidence: "high", match: "java.net.UnknownHostException: staging-2" },
+    ]);
+  });
+
+  it("does not read line numbers as status codes", () => {
+    expect(matchRules(failure("a", "at com.shop.Cart.total(Cart.java:503)"), DEFAULT_RULES)).toEqual([]);
+  });
+
+  it("leaves weak, conflicting and tool-flagged failures to the model as hints", () => {
+    const { verdicts, unresolved } = classifyFailures([
+      failure("weak", "ElementClickInterceptedException: element click intercepted"),
+      failure("conflict", "Connection refused while inserting: duplicate key value violates unique constraint"),
+      failure("flaky", "Connection refused", { flaky: true }),
+    ], DEFAULT_RULES);
+
+    expect(verdicts).toEqual([]);
+    expect(unresolved.map(t => [t.id, t.ruleHints.map(hint => hint.rule)])).toEqual([
+      ["weak", ["element-not-interactable"]],
+      ["conflict", ["connection-refused", "db-constraint"]],
+      ["flaky", ["connection-refused"]],
+    ]);
+  });
+
+  it("overrides, disables and adds rules from config", () => {
+    const rules = rulesFromConfig(JSON.stringify([
+      { id: "stale-element", enabled: false },
+      { ...DEFAULT_RULES.find(rule => rule.id === "wait-timeout"), confidence: "high" },
+      {
+        id: "payments-sandbox",
+        description: "The payment sandbox rejected the card",
+        category: "environment_issue",
+        confidence: "high",
+        patterns: ["sandbox declined"],
+        suggestedFix: "Reset the sandbox account",
+      },
+    ]));
+
+    expect(rules.map(rule => rule.id)).not.toContain("stale-element");
+    expect(rules.find(rule => rule.id === "wait-timeout").confidence).toBe("high");
+    expect(rules[rules.length - 1].id).toBe("payments-sandbox");
+  });
+
+  it("rejects rules it cannot use", () => {
+    expect(() => rulesFromConfig("{")).toThrow("FAILURE_RULES is not valid JSON");
+    expect(() => rulesFromConfig('[{"id":"x","category":"bug","confidence":"high","patterns":["a"]}]')).toThrow('unknown category "bug"');
+    expect(() => rulesFromConfig('[{"id":"x","category":"flaky_test","confidence":"high","patterns":["("]}]')).toThrow("invalid pattern");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { mergeReports } from "@/lib/mergeReports";
+import { stableTestId, testIdentity } from "@/lib/testIdentity";
+import { ParsedReport } from "@/lib/reportParsers";
+import { TestCase } from "@/types/analysis";
+
+const report = (fileName: string, testCases: Partial<TestCase>[]): ParsedReport => ({
+  testCases: testCases.map((t, i) => ({ id: `test-${i + 1}`, className: "Checkout", name: "t", status: "pass", duration: 1, ...t })),
+  rawContent: `<html>${fileName}</html>`,
+  metadata: { format: "spark-extent", formatLabel: "Spark Extent HTML", fileName },
+});
+
+describe("mergeReports", () => {
+  it("keeps a single report as it is", () => {
+    const single = report("a.html", [{ name: "pays" }]);
+    expect(mergeReports([single])).toBe(single);
+  });
+
+  it("tags tests with their shard and reconciles reruns", () => {
+    const merged = mergeReports([
+      report("ExtentReport.html", [
+        { name: "pays", status: "fail", errorMessage: "timeout", timestamp: "2024-05-01T10:00:00Z" },
+        { name: "lists cart" },
+      ]),
+      report("ExtentReport.html", [{ name: "pays", status: "pass", timestamp: "2024-05-01T10:05:00Z" }]),
+    ]);
+
+    expect(merged.testCases.map(t => [t.name, t.shard])).toEqual([
+      ["pays", "ExtentReport.html (2)"],
+      ["lists cart", "ExtentReport.html"],
+    ]);
+    expect(merged.testCases[0].id).toBe(stableTestId(testIdentity(merged.testCases[0])));
+    expect(merged.testCases[0]).toMatchObject({ status: "pass", flaky: true });
+    expect(merged.testCases[0].attempts?.map(a => [a.attempt, a.status, a.errorMessage])).toEqual([
+      [0, "fail", "timeout"],
+      [1, "pass", undefined],
+    ]);
+    expect(merged.metadata).toMatchObject({ format: "spark-extent", fileName: "2 shards" });
+    expect(merged.rawContent).toContain("=== ExtentReport.html (2) ===");
+  });
+
+  it("reports per-shard totals and remaps config-failure links", () => {
+    const merged = mergeReports([
+      report("agent-1.xml", [{ name: "ok" }]),
+      report("agent-2.xml", [
+        { name: "setUp", configMethod: "@BeforeClass", status: "fail" },
+        { name: "blocked", status: "skip", skippedBy: "test-1" },
+      ]),
+    ]);
+
+    expect(merged.shards).toEqual([
+      { name: "agent-1.xml", total: 1, passed: 1, failed: 0, skipped: 0, duration: 1 },
+      { name: "agent-2.xml", total: 2, passed: 0, failed: 1, skipped: 1, duration: 2 },
+    ]);
+    expect(merged.testCases[2].skippedBy).toBe(merged.testCases[1].id);
+  });
+
+  it("combines run metadata, keeping every value where shards differ", () => {
+    const merged = mergeReports([
+      { ...report("a.html", []), runMetadata: { environment: { OS: "Linux", Browser: "Chrome 120" }, tags: ["smoke"] } },
+      { ...report("b.html", []), runMetadata: { environment: { OS: "Linux", Browser: "Firefox 125" }, authors: ["alice"] } },
+      report("c.html", []),
+    ]);
+
+    expect(merged.runMetadata).toEqual({
+      environment: { OS: "Linux", Browser: "Chrome 120, Firefox 125" },
+      authors: ["alice"],
+      tags: ["smoke"],
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { parseAllureResults, readAllureEnvironment } from "@/lib/parseAllureResults";
+import { parseReport } from "@/lib/reportParsers";
+import { failedStepPath } from "@/lib/testSteps";
+
+const encode = (value: unknown) =>
+  new TextEncoder().encode(typeof value === "string" ? value : JSON.stringify(value));
+
+const FILES = [
+  {
+    path: "allure-results/a1-result.json",
+    data: encode({
+      uuid: "a1",
+      historyId: "h1",
+      name: "pay by card",
+      fullName: "com.shop.CheckoutTest.payByCard",
+      status: "passed",
+      start: 1000,
+      stop: 2000,
+    }),
+  },
+  {
+    path: "allure-results/a2-result.json",
+    data: encode({
+      uuid: "a2",
+      historyId: "h1",
+      name: "pay by card",
+      fullName: "com.shop.CheckoutTest.payByCard",
+      status: "broken",
+      statusDetails: { message: "Gateway timeout\nmore", trace: "java.net.SocketTimeoutException", flaky: true, known: true },
+      start: 3000,
+      stop: 5500,
+      labels: [
+        { name: "testClass", value: "com.shop.CheckoutTest" },
+        { name: "epic", value: "Payments" },
+        { name: "severity", value: "critical" },
+        { name: "owner", value: "bob" },
+        { name: "tag", value: "smoke" },
+        { name: "thread", value: "main" },
+      ],
+      parameters: [
+        { name: "card", value: "visa" },
+        { name: "token", value: "secret", mode: "masked" },
+        { name: "run", value: "1", excluded: true },
+      ],
+      steps: [
+        { name: "open cart", status: "passed" },
+        {
+          name: "submit payment",
+          status: "broken",
+          steps: [{ name: "call gateway", status: "broken", attachments: [{ name: "response", source: "r1-attachment.txt", type: "text/plain" }] }],
+        },
+      ],
+      attachments: [{ name: "failure", source: "s1-attachment.png", type: "image/png" }],
+    }),
+  },
+  { path: "allure-results/r1-attachment.txt", data: encode("HTTP 504") },
+  { path: "allure-results/s1-attachment.png", data: new Uint8Array([137, 80, 78, 71]) },
+  {
+    path: "allure-results/c1-container.json",
+    data: encode({ uuid: "c1", children: ["a2"], befores: [{ name: "seed data", status: "passed" }] }),
+  },
+];
+
+describe("readAllureEnvironment", () => {
+  it("reads environment.properties from the results folder", () => {
+    const files = [{ path: "allure-results/environment.properties", data: encode("# CI\nBrowser=Chrome 120\nbase.url = https://staging-2.shop.test\n") }];
+    expect(readAllureEnvironment(files)).toEqual({ Browser: "Chrome 120", "base.url": "https://staging-2.shop.test" });
+    expect(readAllureEnvironment(FILES)).toBeUndefined();
+  });
+});
+
+describe("parseAllureResults", () => {
+  it("reports the latest retry of each test with the earlier ones as attempts", () => {
+    const tests = parseAllureResults(FILES);
+    expect(tests).toHaveLength(1);
+    expect(tests[0]).toMatchObject({ status: "fail", rawStatus: "broken", duration: 2.5 });
+    expect(tests[0].attempts?.map(a => [a.attempt, a.rawStatus, a.duration])).toEqual([[0, "passed", 1], [1, "broken", 2.5]]);
+  });
+
+  it("orders retries by start time and flags a test that passed after failing", () => {
+    const run = (uuid: string, status: string, start: number) => ({
+      path: `allure-results/${uuid}-result.json`,
+      data: encode({ uuid, historyId: "h2", name: "ship order", status, statusDetails: { message: `${status} run` }, start, stop: start + 500 }),
+    });
+    const [test] = parseAllureResults([run("b3", "passed", 9000), run("b1", "failed", 1000), run("b2", "broken", 5000)]);
+
+    expect(test).toMatchObject({ status: "pass", flaky: true });
+    expect(test.attempts?.map(a => [a.attempt, a.status, a.errorMessage])).toEqual([
+      [0, "fail", "failed run"],
+      [1, "fail", "broken run"],
+      [2, "pass", "passed run"],
+    ]);
+  });
+
+  it("maps steps, labels, parameters and attachments", () => {
+    const [test] = parseAllureResults(FILES);
+
+    expect(test).toMatchObject({
+      name: "pay by card",
+      className: "com.shop.CheckoutTest",
+      errorMessage: "Gateway timeout",
+      stackTrace: "java.net.SocketTimeoutException",
+      stepsToReproduce: ["open cart", "submit payment", "  call gateway"],
+      failedStepIndex: 2,
+      parameters: [{ name: "card", value: "visa" }, { name: "token", value: "******" }],
+      labels: { epic: "Payments", severity: "critical", owner: "bob" },
+      tags: ["smoke"],
+      authors: ["bob"],
+      flaky: true,
+      knownIssue: true,
+    });
+    expect(test.logs).toEqual(["response:\nHTTP 504"]);
+    expect(test.screenshots).toEqual([{ name: "failure.png", mimeType: "image/png", base64Data: "iVBORw==" }]);
+  });
+
+  it("builds a step tree framed by container fixtures", () => {
+    const [test] = parseAllureResults(FILES);
+
+    expect(test.steps?.map(step => step.name)).toEqual(["seed data", "open cart", "submit payment"]);
+    expect(failedStepPath(test.steps)).toEqual([2, 0]);
+    expect(test.steps?.[2].steps?.[0]).toEqual({
+      name: "call gateway",
+      status: "fail",
+      rawStatus: "broken",
+      attachments: [{ name: "response.txt", contentType: "text/plain", path: "r1-attachment.txt" }],
+    });
+  });
+
+  it("is detected from an uploaded results folder", () => {
+    const report = parseReport({ fileName: "allure-results", content: "", files: FILES });
+    expect(report.metadata.format).toBe("allure");
+    expect(report.testCases).toHaveLength(1);
+    expect(report.runMetadata).toEqual({ authors: ["bob"], tags: ["smoke"] });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { parseConsoleLog } from "@/lib/parseConsoleLog";
+import { detectReportFormat, parseReport } from "@/lib/reportParsers";
+
+const MAVEN = `2024-05-01T10:00:00.1234567Z [INFO] Running com.shop.CartTest
+[ERROR] Tests run: 3, Failures: 1, Errors: 1, Skipped: 0, Time elapsed: 0.52 s <<< FAILURE! - in com.shop.CartTest
+[ERROR] addsTax(com.shop.CartTest)  Time elapsed: 0.01 s  <<< FAILURE!
+java.lang.AssertionError: expected:<110> but was:<100>
+	at org.junit.Assert.fail(Assert.java:88)
+	at com.shop.CartTest.addsTax(CartTest.java:42)
+
+[ERROR] com.shop.CartTest.removesItem -- Time elapsed: 0.02 s <<< ERROR!
+java.lang.NullPointerException
+	at com.shop.Cart.remove(Cart.java:17)
+
+[INFO] Results:
+[ERROR] Failures: 
+[ERROR]   CartTest.addsTax:42 expected:<110> but was:<100>
+[ERROR] Tests run: 3, Failures: 1, Errors: 1, Skipped: 0
+`;
+
+const GRADLE = `> Task :test
+
+CartTest > addsTax() FAILED
+    org.opentest4j.AssertionFailedError: expected: <110> but was: <100>
+        at app//com.shop.CartTest.addsTax(CartTest.java:42)
+
+CartTest > Nested > removesItem() PASSED
+
+3 tests completed, 1 failed
+`;
+
+describe("parseConsoleLog", () => {
+  it("splits Maven Surefire output into failing tests", () => {
+    const { testCases, diagnostics } = parseConsoleLog(MAVEN);
+
+    expect(testCases).toHaveLength(2);
+    expect(testCases[0]).toMatchObject({
+      name: "addsTax",
+      className: "com.shop.CartTest",
+      status: "fail",
+      rawStatus: "FAILURE",
+      duration: 0.01,
+      errorMessage: "java.lang.AssertionError: expected:<110> but was:<100>",
+    });
+    expect(testCases[0].stackTrace).toContain("CartTest.java:42");
+    expect(testCases[1]).toMatchObject({ name: "removesItem", className: "com.shop.CartTest", rawStatus: "ERROR" });
+    expect(diagnostics.strategy).toBe("Maven Surefire console output");
+    expect(diagnostics.notes[0]).toMatch(/Maven reported 3 tests/);
+  });
+
+  it("reads Gradle test results with nested classes", () => {
+    const { testCases } = parseConsoleLog(GRADLE);
+
+    expect(testCases.map(t => [t.className, t.name, t.status])).toEqual([
+      ["CartTest", "addsTax()", "fail"],
+      ["CartTest.Nested", "removesItem()", "pass"],
+    ]);
+    expect(testCases[0].errorMessage).toBe("org.opentest4j.AssertionFailedError: expected: <110> but was: <100>");
+  });
+
+  it("turns pasted stack traces into one failure each", () => {
+    const { testCases, diagnostics } = parseConsoleLog(`Seen in #ci-alerts:
+java.lang.IllegalStateException: cart is locked
+	at com.shop.Cart.add(Cart.java:10)
+	at com.shop.CartTest.adds(CartTest.java:5)
+
+Traceback (most recent call last):
+  File "tests/test_cart.py", line 12, in test_total
+    assert cart.total() == 110
+AssertionError: assert 100 == 110
+`);
+
+    expect(testCases.map(t => [t.name, t.errorMessage])).toEqual([
+      ["java.lang.IllegalStateException at com.shop.Cart.add(Cart.java:10)", "java.lang.IllegalStateException: cart is locked"],
+      ['AssertionError at File "tests/test_cart.py", line 12, in test_total', "AssertionError: assert 100 == 110"],
+    ]);
+    expect(diagnostics.reliability).toBe("medium");
+  });
+
+  it("is picked for logs but not for reports that contain traces", () => {
+    expect(detectReportFormat({ fileName: "build.log", content: MAVEN })?.id).toBe("console-log");
+    expect(detectReportFormat({ fileName: "pasted.log", content: "boom\n    at run (index.js:1:1)" })?.id).toBe("console-log");
+    expect(
+      detectReportFormat({ fileName: "TEST-Cart.xml", content: `<testsuite name="Cart"><failure>${MAVEN}</failure></testsuite>` })?.id
+    ).toBe("junit");
+    expect(parseReport({ fileName: "pasted.log", content: "Deploy FAILED, see above" }).diagnostics[0]).toMatchObject({
+      format: "console-log",
+      testCount: 0,
+      reliability: "low",
+    });
+  });
+});
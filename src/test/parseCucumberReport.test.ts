@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { parseCucumberJson, parseCucumberMessages, parseCucumberReport } from "@/lib/parseCucumberReport";
+import { failedStepPath } from "@/lib/testSteps";
+
+const JSON_REPORT = JSON.stringify([
+  {
+    name: "Checkout",
+    uri: "features/checkout.feature",
+    tags: [{ name: "@shop" }],
+    elements: [
+      {
+        type: "background",
+        keyword: "Background",
+        steps: [{ keyword: "Given ", name: "I am logged in", result: { status: "passed", duration: 1e9 } }],
+      },
+      {
+        type: "scenario",
+        name: "Pay by card",
+        tags: [{ name: "@shop" }, { name: "@smoke" }],
+        steps: [
+          { keyword: "When ", name: "I pay", result: { status: "passed", duration: 5e8 } },
+          {
+            keyword: "Then ",
+            name: "I see the receipt",
+            result: { status: "failed", duration: 5e8, error_message: "AssertionError: receipt missing\n\tat Steps.receipt(Steps.java:9)" },
+            embeddings: [
+              { mime_type: "image/png", data: "iVBORw0KGgo=", name: "receipt" },
+              { mime_type: "text/plain", data: btoa("cart id 42") },
+            ],
+          },
+          { keyword: "And ", name: "I get an email", result: { status: "skipped" } },
+        ],
+      },
+      {
+        type: "scenario",
+        name: "Pay by voucher",
+        steps: [{ keyword: "When ", name: "I use a voucher", result: { status: "undefined" } }],
+      },
+    ],
+  },
+]);
+
+const MESSAGES = [
+  { gherkinDocument: { uri: "login.feature", feature: { name: "Login", children: [
+    { scenario: { id: "s1", name: "Bad password", steps: [{ id: "g1", keyword: "Given " }, { id: "g2", keyword: "Then " }] } },
+  ] } } },
+  { pickle: { id: "p1", uri: "login.feature", name: "Bad password", tags: [{ name: "@auth" }], steps: [
+    { id: "ps1", text: "I enter a wrong password", astNodeIds: ["g1"] },
+    { id: "ps2", text: "I see an error", astNodeIds: ["g2"] },
+  ] } },
+  { testCase: { id: "tc1", pickleId: "p1", testSteps: [{ id: "h1", hookId: "hook" }, { id: "t1", pickleStepId: "ps1" }, { id: "t2", pickleStepId: "ps2" }] } },
+  { testCaseStarted: { id: "a1", testCaseId: "tc1", attempt: 0, timestamp: { seconds: 1714557600, nanos: 0 } } },
+  { testStepFinished: { testCaseStartedId: "a1", testStepId: "t2", testStepResult: { status: "FAILED", message: "flaky" } } },
+  { testCaseFinished: { testCaseStartedId: "a1", willBeRetried: true } },
+  { testCaseStarted: { id: "a2", testCaseId: "tc1", attempt: 1, timestamp: { seconds: 1714557700, nanos: 0 } } },
+  { testStepFinished: { testCaseStartedId: "a2", testStepId: "h1", testStepResult: { status: "PASSED", duration: { seconds: 0, nanos: 1e8 } } } },
+  { testStepFinished: { testCaseStartedId: "a2", testStepId: "t1", testStepResult: { status: "PASSED", duration: { seconds: 1, nanos: 0 } } } },
+  { testStepFinished: { testCaseStartedId: "a2", testStepId: "t2", testStepResult: { status: "FAILED", duration: { seconds: 0, nanos: 0 }, message: "Expected error banner" } } },
+  { attachment: { testCaseStartedId: "a2", testStepId: "t2", body: "iVBORw0KGgo=", mediaType: "image/png", contentEncoding: "BASE64" } },
+  { testCaseFinished: { testCaseStartedId: "a2", willBeRetried: false } },
+].map(envelope => JSON.stringify(envelope)).join("\n");
+
+describe("parseCucumberJson", () => {
+  it("builds one test per scenario with Gherkin steps", () => {
+    const [card, voucher] = parseCucumberJson(JSON_REPORT);
+
+    expect(card).toMatchObject({
+      name: "Pay by card",
+      className: "Checkout",
+      status: "fail",
+      rawStatus: "failed",
+      duration: 2,
+      errorMessage: "AssertionError: receipt missing",
+      failedStepIndex: 2,
+      tags: ["@shop", "@smoke"],
+      logs: ["cart id 42"],
+    });
+    expect(card.stepsToReproduce).toEqual([
+      "Given I am logged in",
+      "When I pay",
+      "Then I see the receipt",
+      "And I get an email",
+    ]);
+    expect(card.screenshots).toEqual([{ name: "receipt.png", mimeType: "image/png", base64Data: "iVBORw0KGgo=" }]);
+    expect(voucher).toMatchObject({ status: "fail", rawStatus: "undefined", errorMessage: "Undefined step: When I use a voucher" });
+  });
+
+  it("does not roll steps of unknown status up into a pass", () => {
+    const [scenario] = parseCucumberJson(JSON.stringify([{
+      name: "Checkout",
+      elements: [{ type: "scenario", name: "Pay later", steps: [{ keyword: "When ", name: "I defer", result: { status: "unknown" } }] }],
+    }]));
+
+    expect(scenario).toMatchObject({ status: "skip", rawStatus: "unknown" });
+  });
+
+  it("attaches each step's output and screenshots to it in the step tree", () => {
+    const [card] = parseCucumberJson(JSON_REPORT);
+
+    expect(card.steps).toHaveLength(4);
+    expect(failedStepPath(card.steps)).toEqual([2]);
+    expect(card.steps?.[2]).toMatchObject({
+      name: "Then I see the receipt",
+      status: "fail",
+      duration: 0.5,
+      errorMessage: "AssertionError: receipt missing",
+      attachments: [{ name: "receipt.png", contentType: "image/png" }],
+      steps: [{ name: "cart id 42", status: "pass", level: "info" }],
+    });
+  });
+});
+
+describe("parseCucumberMessages", () => {
+  it("reads the final attempt of each pickle", () => {
+    const tests = parseCucumberMessages(MESSAGES);
+
+    expect(tests).toHaveLength(1);
+    expect(tests[0]).toMatchObject({
+      name: "Bad password",
+      className: "Login",
+      status: "fail",
+      errorMessage: "Expected error banner",
+      failedStepIndex: 1,
+      duration: 1.1,
+      tags: ["@auth"],
+      timestamp: "2024-05-01T10:01:40.000Z",
+    });
+    expect(tests[0].stepsToReproduce).toEqual(["Given I enter a wrong password", "Then I see an error"]);
+    expect(tests[0].screenshots).toHaveLength(1);
+  });
+
+  it("keeps retried runs as attempts and flags a scenario that passed on retry", () => {
+    const tests = parseCucumberMessages(MESSAGES);
+
+    expect(tests[0].flaky).toBeUndefined();
+    expect(tests[0].attempts?.map(a => [a.attempt, a.status, a.errorMessage, a.timestamp])).toEqual([
+      [0, "fail", "flaky", "2024-05-01T10:00:00.000Z"],
+      [1, "fail", "Expected error banner", "2024-05-01T10:01:40.000Z"],
+    ]);
+
+    const passedOnRetry = parseCucumberMessages(MESSAGES.replace('"FAILED","duration"', '"PASSED","duration"'));
+    expect(passedOnRetry[0]).toMatchObject({ status: "pass", flaky: true });
+    expect(passedOnRetry[0].attempts?.map(a => a.status)).toEqual(["fail", "pass"]);
+  });
+
+  it("keeps the Examples row of outline pickles as parameters", () => {
+    const outline = [
+      { gherkinDocument: { uri: "cart.feature", feature: { name: "Cart", children: [
+        { scenario: { id: "s1", name: "Add <item>", steps: [{ id: "g1", keyword: "When " }], examples: [{
+          tableHeader: { cells: [{ value: "item" }] },
+          tableBody: [{ id: "r1", cells: [{ value: "apple" }] }, { id: "r2", cells: [{ value: "pear" }] }],
+        }] } },
+      ] } } },
+      ...["r1", "r2"].map((row, i) => ({ pickle: { id: `p${i}`, uri: "cart.feature", name: "Add item", astNodeIds: ["s1", row], steps: [] } })),
+      ...[0, 1].map(i => ({ testCase: { id: `tc${i}`, pickleId: `p${i}`, testSteps: [] } })),
+      ...[0, 1].map(i => ({ testCaseStarted: { id: `a${i}`, testCaseId: `tc${i}` } })),
+    ].map(envelope => JSON.stringify(envelope)).join("\n");
+
+    expect(parseCucumberMessages(outline).map(t => t.parameters)).toEqual([
+      [{ name: "item", value: "apple" }],
+      [{ name: "item", value: "pear" }],
+    ]);
+  });
+
+  it("is chosen for NDJSON content", () => {
+    expect(parseCucumberReport(MESSAGES)).toHaveLength(1);
+    expect(parseCucumberReport(JSON_REPORT)).toHaveLength(2);
+  });
+});
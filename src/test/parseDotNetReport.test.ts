@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { parseTrxReport, parseNUnitReport, parseXUnitReport } from "@/lib/parseDotNetReport";
+import { detectReportFormat } from "@/lib/reportParsers";
+
+const TRX = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun id="1" name="build" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+  <Results>
+    <UnitTestResult testId="a" testName="AddsTax" computerName="agent-1" duration="00:00:01.5000000" startTime="2024-05-01T10:00:00Z" outcome="Failed">
+      <Output>
+        <StdOut>calculating</StdOut>
+        <ErrorInfo>
+          <Message>Assert.AreEqual failed. Expected:&lt;110&gt;. Actual:&lt;100&gt;.</Message>
+          <StackTrace>   at Shop.Tests.CartTests.AddsTax() in C:\\src\\CartTests.cs:line 42</StackTrace>
+        </ErrorInfo>
+        <TextMessages><Message>tax table v2</Message></TextMessages>
+      </Output>
+      <ResultFiles><ResultFile path="C:\\results\\cart.png" /></ResultFiles>
+    </UnitTestResult>
+    <UnitTestResult testId="b" testName="Empties" duration="00:00:00.0100000" outcome="NotExecuted" />
+  </Results>
+  <TestDefinitions>
+    <UnitTest name="AddsTax" id="a">
+      <TestCategory><TestCategoryItem TestCategory="Smoke" /></TestCategory>
+      <TestMethod className="Shop.Tests.CartTests, Shop.Tests, Version=1.0.0.0" name="AddsTax" />
+    </UnitTest>
+  </TestDefinitions>
+</TestRun>`;
+
+const NUNIT = `<test-run id="0" result="Failed">
+  <test-suite type="TestFixture" name="CartTests" classname="Shop.Tests.CartTests">
+    <properties><property name="Category" value="Cart" /><property name="Author" value="dana" /></properties>
+    <test-case name="AddsTax(10)" classname="Shop.Tests.CartTests" result="Failed" duration="0.25" start-time="2024-05-01 10:00:00Z">
+      <properties><property name="Category" value="Smoke" /><property name="_JOINTYPE" value="x" /></properties>
+      <failure><message>Expected: 110 But was: 100</message><stack-trace>at Shop.Tests.CartTests.AddsTax(Int32 rate) in /src/CartTests.cs:line 18</stack-trace></failure>
+      <output>computing</output>
+      <attachments><attachment><filePath>/tmp/cart.png</filePath><description>cart</description></attachment></attachments>
+    </test-case>
+    <test-case name="Coupons" classname="Shop.Tests.CartTests" result="Skipped" label="Ignored" duration="0">
+      <reason><message>flaky upstream</message></reason>
+    </test-case>
+  </test-suite>
+</test-run>`;
+
+const XUNIT = `<assemblies>
+  <assembly name="Shop.Tests.dll" test-framework="xUnit.net 2.4.2">
+    <collection name="Cart">
+      <test name="Shop.Tests.CartTests.AddsTax" type="Shop.Tests.CartTests" method="AddsTax" time="0.03" result="Fail">
+        <traits><trait name="Category" value="Smoke" /><trait name="Owner" value="payments" /></traits>
+        <failure exception-type="Xunit.Sdk.EqualException"><message>Assert.Equal() Failure</message><stack-trace>at Shop.Tests.CartTests.AddsTax() in /src/CartTests.cs:line 9</stack-trace></failure>
+      </test>
+      <test name="Shop.Tests.CartTests.Coupons" type="Shop.Tests.CartTests" method="Coupons" time="0" result="Skip"><reason>not ready</reason></test>
+    </collection>
+  </assembly>
+</assemblies>`;
+
+describe("parseTrxReport", () => {
+  it("joins results to their definitions", () => {
+    const [failed, notRun] = parseTrxReport(TRX);
+
+    expect(failed).toMatchObject({
+      name: "AddsTax",
+      className: "Shop.Tests.CartTests",
+      status: "fail",
+      rawStatus: "Failed",
+      duration: 1.5,
+      errorMessage: "Assert.AreEqual failed. Expected:<110>. Actual:<100>.",
+      tags: ["Smoke"],
+      devices: ["agent-1"],
+      logs: ["[stdout] calculating", "tax table v2"],
+      attachments: [{ name: "cart.png", path: "C:\\results\\cart.png" }],
+    });
+    expect(failed.stackTrace).toContain("CartTests.cs:line 42");
+    expect(notRun).toMatchObject({ status: "skip", rawStatus: "NotExecuted" });
+  });
+});
+
+describe("parseNUnitReport", () => {
+  it("inherits fixture categories and keeps output and attachments", () => {
+    const [failed, ignored] = parseNUnitReport(NUNIT);
+
+    expect(failed).toMatchObject({
+      name: "AddsTax(10)",
+      status: "fail",
+      duration: 0.25,
+      errorMessage: "Expected: 110 But was: 100",
+      tags: ["Cart", "Smoke"],
+      authors: ["dana"],
+      logs: ["[output] computing"],
+      attachments: [{ name: "cart", path: "/tmp/cart.png" }],
+    });
+    expect(failed.labels).toBeUndefined();
+    expect(ignored).toMatchObject({ status: "skip", rawStatus: "Skipped:Ignored", logs: ["Ignored: flaky upstream"] });
+  });
+});
+
+describe("parseXUnitReport", () => {
+  it("maps traits and prefixes the exception type", () => {
+    const [failed, skipped] = parseXUnitReport(XUNIT);
+
+    expect(failed).toMatchObject({
+      className: "Shop.Tests.CartTests",
+      status: "fail",
+      errorMessage: "Xunit.Sdk.EqualException : Assert.Equal() Failure",
+      tags: ["Smoke"],
+      labels: { Owner: "payments" },
+    });
+    expect(skipped).toMatchObject({ status: "skip", logs: ["Skipped: not ready"] });
+  });
+});
+
+describe(".NET format detection", () => {
+  it("routes each result file to its adapter", () => {
+    expect(detectReportFormat({ fileName: "run.trx", content: TRX })?.id).toBe("trx");
+    expect(detectReportFormat({ fileName: "TestResult.xml", content: NUNIT })?.id).toBe("nunit");
+    expect(detectReportFormat({ fileName: "results.xml", content: XUNIT })?.id).toBe("xunit");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { parseGoTestReport } from "@/lib/parseGoTestReport";
+import { detectReportFormat } from "@/lib/reportParsers";
+
+const event = (fields: Record<string, unknown>) => JSON.stringify({ Time: "2024-05-01T10:00:00Z", ...fields });
+
+const STREAM = [
+  event({ Action: "start", Package: "shop/cart" }),
+  event({ Action: "run", Package: "shop/cart", Test: "TestTotals" }),
+  event({ Action: "output", Package: "shop/cart", Test: "TestTotals", Output: "=== RUN   TestTotals\n" }),
+  event({ Action: "run", Package: "shop/cart", Test: "TestTotals/with_tax" }),
+  event({ Action: "output", Package: "shop/cart", Test: "TestTotals/with_tax", Output: "    cart_test.go:20: loading fixtures\n" }),
+  event({ Action: "output", Package: "shop/cart", Test: "TestTotals/with_tax", Output: "    cart_test.go:24: expected 110, got 100\n" }),
+  event({ Action: "output", Package: "shop/cart", Test: "TestTotals/with_tax", Output: "        diff: -110 +100\n" }),
+  event({ Action: "output", Package: "shop/cart", Test: "TestTotals/with_tax", Output: "--- FAIL: TestTotals/with_tax (0.01s)\n" }),
+  event({ Action: "fail", Package: "shop/cart", Test: "TestTotals/with_tax", Elapsed: 0.01 }),
+  event({ Action: "run", Package: "shop/cart", Test: "TestTotals/no_tax" }),
+  event({ Action: "pass", Package: "shop/cart", Test: "TestTotals/no_tax", Elapsed: 0 }),
+  event({ Action: "fail", Package: "shop/cart", Test: "TestTotals", Elapsed: 0.02 }),
+  event({ Action: "run", Package: "shop/cart", Test: "TestSlow" }),
+  event({ Action: "output", Package: "shop/cart", Test: "TestSlow", Output: "    cart_test.go:40: skipping in short mode\n" }),
+  event({ Action: "skip", Package: "shop/cart", Test: "TestSlow", Elapsed: 0 }),
+  event({ Action: "fail", Package: "shop/cart", Elapsed: 0.5 }),
+  event({ Action: "output", Package: "shop/api", Output: "# shop/api\n" }),
+  event({ Action: "output", Package: "shop/api", Output: "./api.go:10:2: undefined: handler\n" }),
+  event({ Action: "output", Package: "shop/api", Output: "FAIL\tshop/api [build failed]\n" }),
+  event({ Action: "fail", Package: "shop/api", Elapsed: 0 }),
+].join("\n");
+
+describe("parseGoTestReport", () => {
+  it("builds tests from the event stream with subtests as steps", () => {
+    const [parent, withTax, noTax, slow] = parseGoTestReport(STREAM);
+
+    expect(parent).toMatchObject({
+      name: "TestTotals",
+      className: "shop/cart",
+      status: "fail",
+      duration: 0.02,
+      stepsToReproduce: ["with_tax (fail)", "no_tax (pass)"],
+      failedStepIndex: 0,
+      errorMessage: "Subtest TestTotals/with_tax failed",
+    });
+    expect(withTax).toMatchObject({
+      status: "fail",
+      errorMessage: "cart_test.go:24: expected 110, got 100\ndiff: -110 +100",
+      stepsToReproduce: ["cart_test.go:20: loading fixtures", "cart_test.go:24: expected 110, got 100\ndiff: -110 +100"],
+      failedStepIndex: 1,
+    });
+    expect(noTax.status).toBe("pass");
+    expect(slow).toMatchObject({ status: "skip", errorMessage: "cart_test.go:40: skipping in short mode" });
+  });
+
+  it("reports packages that fail without a failing test", () => {
+    const testCases = parseGoTestReport(STREAM);
+
+    expect(testCases).toHaveLength(5);
+    expect(testCases[4]).toMatchObject({ name: "Package failed", className: "shop/api", status: "fail", errorMessage: "./api.go:10:2: undefined: handler" });
+  });
+
+  it("is detected by the registry", () => {
+    expect(detectReportFormat({ fileName: "go-test.json", content: STREAM })?.id).toBe("go-test");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { parseJUnitReport } from "@/lib/parseJUnitReport";
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="com.example.LoginTest" timestamp="2024-05-01T10:00:00">
+    <testcase name="validLogin" classname="com.example.LoginTest" time="1,234.5"/>
+    <testcase name="invalidLogin" classname="com.example.LoginTest" time="0.2">
+      <failure message="expected true but was false" type="java.lang.AssertionError">java.lang.AssertionError: expected true but was false
+	at com.example.LoginTest.invalidLogin(LoginTest.java:42)</failure>
+      <system-out>Opening login page</system-out>
+    </testcase>
+    <testsuite name="Nested">
+      <testcase name="boom" time="0.1"><error type="java.lang.NullPointerException"/></testcase>
+      <testcase name="later" classname="com.example.Nested"><skipped message="not ready"/></testcase>
+    </testsuite>
+  </testsuite>
+</testsuites>`;
+
+describe("parseJUnitReport", () => {
+  it("maps testcases from nested suites", () => {
+    const tests = parseJUnitReport(REPORT);
+
+    expect(tests.map(t => [t.name, t.status, t.rawStatus])).toEqual([
+      ["validLogin", "pass", "passed"],
+      ["invalidLogin", "fail", "failure"],
+      ["boom", "fail", "error"],
+      ["later", "skip", "skipped"],
+    ]);
+    expect(tests[0].duration).toBe(1234.5);
+    expect(tests[0].timestamp).toBe("2024-05-01T10:00:00");
+  });
+
+  it("keeps failure details and output", () => {
+    const [, failed, errored, skipped] = parseJUnitReport(REPORT);
+
+    expect(failed.errorMessage).toBe("expected true but was false");
+    expect(failed.stackTrace).toContain("LoginTest.java:42");
+    expect(failed.logs).toEqual(["Opening login page"]);
+    expect(errored.className).toBe("Nested");
+    expect(errored.errorMessage).toBe("java.lang.NullPointerException");
+    expect(skipped.logs).toEqual(["Skipped: not ready"]);
+  });
+
+  it("accepts several concatenated testsuite files", () => {
+    const single = `<?xml version="1.0"?><testsuite name="A"><testcase name="one" time="1"/></testsuite>`;
+    const tests = parseJUnitReport(`${single}\n${single.replace("one", "two")}`);
+
+    expect(tests.map(t => t.name)).toEqual(["one", "two"]);
+    expect(tests.map(t => t.id)).toEqual(["test-1", "test-2"]);
+  });
+
+  it("turns Surefire's flaky and rerun elements into attempts", () => {
+    const [flaky, broken] = parseJUnitReport(`<testsuite name="Checkout">
+  <testcase classname="com.shop.CheckoutTest" name="pays" time="1.5">
+    <flakyFailure message="timeout waiting for receipt" type="java.lang.AssertionError"><stackTrace>at CheckoutTest.pays</stackTrace></flakyFailure>
+    <flakyError message="connection reset" type="java.net.SocketException"/>
+  </testcase>
+  <testcase classname="com.shop.CheckoutTest" name="refunds" time="2">
+    <failure message="expected:&lt;10&gt; but was:&lt;0&gt;">trace</failure>
+    <rerunFailure message="expected:&lt;10&gt; but was:&lt;0&gt;"/>
+  </testcase>
+</testsuite>`);
+
+    expect(flaky).toMatchObject({ status: "pass", flaky: true });
+    expect(flaky.attempts?.map(a => [a.attempt, a.status, a.rawStatus, a.errorMessage])).toEqual([
+      [0, "fail", "flakyFailure", "timeout waiting for receipt"],
+      [1, "fail", "flakyError", "connection reset"],
+      [2, "pass", "passed", undefined],
+    ]);
+    expect(broken.flaky).toBeUndefined();
+    expect(broken.attempts?.map(a => [a.status, a.rawStatus])).toEqual([["fail", "failure"], ["fail", "rerunFailure"]]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { parseJestReport } from "@/lib/parseJestReport";
+import { parseMochaReport } from "@/lib/parseMochaReport";
+import { detectReportFormat } from "@/lib/reportParsers";
+
+const JEST_REPORT = JSON.stringify({
+  numFailedTestSuites: 2,
+  numTotalTests: 3,
+  success: false,
+  testResults: [
+    {
+      name: "/app/src/cart.test.ts",
+      status: "failed",
+      startTime: 1714557600000,
+      assertionResults: [
+        {
+          ancestorTitles: ["Cart", "totals"],
+          title: "adds tax",
+          status: "failed",
+          duration: 15,
+          failureMessages: [
+            "\u001b[2mexpect(\u001b[22mreceived\u001b[2m).toBe(\u001b[22mexpected\u001b[2m)\u001b[22m\n\nExpected: 110\nReceived: 100\n    at Object.<anonymous> (/app/src/cart.test.ts:12:19)",
+          ],
+        },
+        {
+          ancestorTitles: ["Cart"],
+          title: "empties",
+          status: "passed",
+          duration: 4,
+          invocations: 2,
+          retryReasons: ["Error: flaky network\n    at cart.test.ts:30:5"],
+        },
+        { ancestorTitles: ["Cart"], title: "applies coupons", status: "todo", duration: null },
+      ],
+    },
+    {
+      name: "/app/src/broken.test.ts",
+      status: "failed",
+      message: "Cannot find module './missing' from 'broken.test.ts'\n    at Resolver.resolveModule (resolver.js:324:11)",
+      assertionResults: [],
+    },
+  ],
+});
+
+const MOCHA_REPORT = JSON.stringify({
+  stats: { suites: 1, tests: 2, passes: 1, failures: 1 },
+  tests: [
+    { title: "parses dates", fullTitle: "utils parses dates", file: "/app/test/utils.spec.js", duration: 3, err: {} },
+    {
+      title: "formats money",
+      fullTitle: "utils formats money",
+      file: "/app/test/utils.spec.js",
+      duration: 5,
+      err: { message: "expected '1.00' to equal '1,00'", stack: "AssertionError: expected '1.00' to equal '1,00'\n    at utils.spec.js:9:3", actual: "1.00", expected: "1,00" },
+    },
+  ],
+  pending: [],
+  failures: [{ title: "formats money", fullTitle: "utils formats money" }],
+  passes: [{ title: "parses dates", fullTitle: "utils parses dates" }],
+});
+
+describe("parseJestReport", () => {
+  it("splits failure messages into error and stack", () => {
+    const [failed, retried, todo] = parseJestReport(JEST_REPORT);
+
+    expect(failed).toMatchObject({ className: "cart.test.ts › Cart › totals", status: "fail", duration: 0.015 });
+    expect(failed.errorMessage).toBe("expect(received).toBe(expected)\n\nExpected: 110\nReceived: 100");
+    expect(failed.stackTrace).toContain("cart.test.ts:12:19");
+    expect(retried).toMatchObject({ status: "pass", flaky: true });
+    expect(retried.attempts?.map(a => a.status)).toEqual(["fail", "pass"]);
+    expect(todo).toMatchObject({ status: "skip", rawStatus: "todo" });
+  });
+
+  it("reports suites that failed to run", () => {
+    const broken = parseJestReport(JEST_REPORT)[3];
+
+    expect(broken).toMatchObject({ name: "Test suite failed to run", className: "broken.test.ts", status: "fail" });
+    expect(broken.errorMessage).toBe("Cannot find module './missing' from 'broken.test.ts'");
+  });
+});
+
+describe("parseMochaReport", () => {
+  it("uses the describe path and an expected/actual diff", () => {
+    const [passed, failed] = parseMochaReport(MOCHA_REPORT);
+
+    expect(passed).toMatchObject({ className: "utils", status: "pass" });
+    expect(failed).toMatchObject({ status: "fail", duration: 0.005 });
+    expect(failed.errorMessage).toContain("Expected: 1,00\nActual: 1.00");
+  });
+});
+
+describe("JavaScript JSON detection", () => {
+  it("tells Jest, Mocha and mochawesome apart", () => {
+    expect(detectReportFormat({ fileName: "jest.json", content: JEST_REPORT })?.id).toBe("jest");
+    expect(detectReportFormat({ fileName: "mocha.json", content: MOCHA_REPORT })?.id).toBe("mocha");
+  });
+});
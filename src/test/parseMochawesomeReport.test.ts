@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { parseMochawesomeReport } from "@/lib/parseMochawesomeReport";
+import { detectReportFormat } from "@/lib/reportParsers";
+
+const REPORT = JSON.stringify({
+  stats: { suites: 2, tests: 2, passes: 1, failures: 1, passPercent: 50 },
+  results: [
+    {
+      title: "",
+      fullFile: "cypress/e2e/login.cy.js",
+      tests: [],
+      suites: [
+        {
+          title: "Login",
+          tests: [
+            { title: "shows the form", state: "passed", duration: 120, err: {} },
+            {
+              title: "rejects a bad password",
+              state: "failed",
+              duration: 3400,
+              context: JSON.stringify([
+                { title: "cypress-mochawesome-reporter-screenshots", value: [["login.cy.js/Login -- rejects (failed).png"]] },
+                "note: staging data",
+              ]),
+              err: {
+                message: "AssertionError: expected 'Welcome' to equal 'Invalid password'",
+                estack: "AssertionError: expected 'Welcome' to equal 'Invalid password'\n    at Context.eval (login.cy.js:14:8)",
+                diff: "- Welcome\n+ Invalid password\n",
+              },
+            },
+          ],
+          suites: [],
+        },
+      ],
+    },
+  ],
+});
+
+describe("parseMochawesomeReport", () => {
+  it("builds class names from the describe path and keeps the diff", () => {
+    const [passed, failed] = parseMochawesomeReport(REPORT);
+
+    expect(passed).toMatchObject({ name: "shows the form", className: "Login", status: "pass", duration: 0.12 });
+    expect(failed).toMatchObject({ status: "fail", rawStatus: "failed", duration: 3.4, logs: ["note: staging data"] });
+    expect(failed.errorMessage).toContain("expected 'Welcome' to equal 'Invalid password'");
+    expect(failed.errorMessage).toContain("+ Invalid password");
+    expect(failed.stackTrace).toContain("login.cy.js:14:8");
+  });
+
+  it("turns screenshot paths from context into attachments", () => {
+    const [, failed] = parseMochawesomeReport(REPORT);
+
+    expect(failed.attachments).toEqual([
+      { name: "cypress-mochawesome-reporter-screenshots", contentType: "image/png", path: "login.cy.js/Login -- rejects (failed).png" },
+    ]);
+  });
+
+  it("is detected by the registry", () => {
+    expect(detectReportFormat({ fileName: "mochawesome.json", content: REPORT })?.id).toBe("mochawesome");
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { parsePlaywrightReport } from "@/lib/parsePlaywrightReport";
+import { detectReportFormat } from "@/lib/reportParsers";
+
+const REPORT = JSON.stringify({
+  config: { rootDir: "/app/tests", projects: [{ name: "chromium" }, { name: "webkit" }] },
+  suites: [
+    {
+      title: "checkout.spec.ts",
+      file: "checkout.spec.ts",
+      suites: [
+        {
+          title: "Checkout",
+          specs: [
+            {
+              title: "pays with card",
+              tags: ["@smoke"],
+              tests: [
+                {
+                  projectName: "chromium",
+                  expectedStatus: "passed",
+                  status: "flaky",
+                  results: [
+                    {
+                      retry: 0,
+                      status: "failed",
+                      duration: 1200,
+                      errors: [{ message: "\u001b[31mTimeout 5000ms exceeded\u001b[39m", location: { file: "checkout.spec.ts", line: 12, column: 5 } }],
+                    },
+                    { retry: 1, status: "passed", duration: 800 },
+                  ],
+                },
+                {
+                  projectName: "webkit",
+                  expectedStatus: "passed",
+                  status: "unexpected",
+                  annotations: [{ type: "issue", description: "https://jira/SHOP-1" }],
+                  results: [
+                    {
+                      retry: 0,
+                      status: "failed",
+                      duration: 2000,
+                      startTime: "2024-05-01T10:00:00.000Z",
+                      errors: [{ message: "expect(received).toBeVisible()", stack: "Error: expect(received).toBeVisible()\n    at checkout.spec.ts:20:7", location: { file: "checkout.spec.ts", line: 20, column: 7 } }],
+                      stdout: [{ text: "clicked pay\n" }],
+                      attachments: [
+                        { name: "screenshot", contentType: "image/png", body: "iVBORw0KGgo=" },
+                        { name: "trace", contentType: "application/zip", path: "test-results/trace.zip" },
+                      ],
+                      steps: [
+                        { title: "open cart" },
+                        { title: "pay", error: { message: "boom" }, steps: [{ title: "click #pay", error: { message: "boom" } }] },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+describe("parsePlaywrightReport", () => {
+  it("keeps one test per project with retries as attempts", () => {
+    const [chromium, webkit] = parsePlaywrightReport(REPORT);
+
+    expect(chromium).toMatchObject({
+      name: "pays with card",
+      className: "checkout.spec.ts › Checkout",
+      browser: "chromium",
+      status: "pass",
+      rawStatus: "flaky",
+      flaky: true,
+      duration: 0.8,
+      tags: ["@smoke"],
+    });
+    expect(chromium.errorMessage).toBeUndefined();
+    expect(chromium.attempts).toEqual([
+      { attempt: 0, status: "fail", rawStatus: "failed", duration: 1.2, errorMessage: "Timeout 5000ms exceeded", timestamp: undefined },
+      { attempt: 1, status: "pass", rawStatus: "passed", duration: 0.8, errorMessage: undefined, timestamp: undefined },
+    ]);
+    expect(webkit.browser).toBe("webkit");
+  });
+
+  it("maps errors, locations, steps and attachments", () => {
+    const [, webkit] = parsePlaywrightReport(REPORT);
+
+    expect(webkit).toMatchObject({
+      status: "fail",
+      errorMessage: "expect(received).toBeVisible()",
+      stepsToReproduce: ["open cart", "pay", "  click #pay"],
+      failedStepIndex: 2,
+      labels: { issue: "https://jira/SHOP-1" },
+      attachments: [{ name: "trace", contentType: "application/zip", path: "test-results/trace.zip" }],
+    });
+    expect(webkit.stackTrace).toContain("checkout.spec.ts:20:7");
+    expect(webkit.logs).toEqual(["Error location: checkout.spec.ts:20:7", "clicked pay"]);
+    expect(webkit.screenshots).toEqual([{ name: "screenshot.png", mimeType: "image/png", base64Data: "iVBORw0KGgo=" }]);
+  });
+
+  it("is detected by the registry", () => {
+    expect(detectReportFormat({ fileName: "results.json", content: REPORT })?.id).toBe("playwright");
+  });
+});
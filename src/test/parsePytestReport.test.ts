@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { parsePytestJson, parsePytestHtml } from "@/lib/parsePytestReport";
+import { detectReportFormat } from "@/lib/reportParsers";
+
+const JSON_REPORT = JSON.stringify({
+  created: 1714557600,
+  duration: 1.2,
+  exitcode: 1,
+  root: "/app",
+  summary: { passed: 1, failed: 1, xfailed: 1, skipped: 1 },
+  tests: [
+    {
+      nodeid: "tests/test_users.py::TestUsers::test_create[admin-201]",
+      outcome: "failed",
+      setup: { duration: 0.01, outcome: "passed" },
+      call: {
+        duration: 0.3,
+        outcome: "failed",
+        crash: { path: "/app/tests/test_users.py", lineno: 18, message: "AssertionError: assert 500 == 201" },
+        longrepr: "def test_create(role, code):\n>       assert resp.status_code == code\nE       assert 500 == 201\n\ntests/test_users.py:18: AssertionError",
+        stdout: "POST /users\n",
+        log: [{ levelname: "ERROR", name: "api", msg: "db timeout" }],
+      },
+      teardown: { duration: 0.02, outcome: "passed" },
+    },
+    {
+      nodeid: "tests/test_users.py::test_legacy_export",
+      outcome: "xfailed",
+      call: { duration: 0.1, outcome: "skipped", crash: { message: "KeyError: 'legacy'" }, longrepr: "E   KeyError: 'legacy'" },
+    },
+    {
+      nodeid: "tests/test_health.py::test_staging_only",
+      outcome: "skipped",
+      setup: { duration: 0, outcome: "skipped", longrepr: "('/app/tests/test_health.py', 4, 'Skipped: needs staging')" },
+    },
+    { nodeid: "tests/test_health.py::test_ping", outcome: "xpassed", call: { duration: 0.05, outcome: "passed" } },
+  ],
+});
+
+const HTML_DATA = {
+  tests: {
+    "tests/test_cart.py::test_total": [
+      { result: "Rerun", duration: "5 ms", log: "E   assert 1 == 2", extras: [] },
+      { result: "Passed", duration: "4 ms", log: "No log output captured.", extras: [] },
+    ],
+    "tests/test_cart.py::test_checkout": [
+      {
+        result: "Failed",
+        duration: "00:00:02",
+        log: ">       assert cart.paid\nE       AssertionError: not paid\n\n----------------------------- Captured stdout call -----------------------------\npaying...\n",
+        extras: [{ name: "page", format_type: "image", content: "iVBORw0KGgo=", mime_type: "image/png", extension: "png" }],
+      },
+    ],
+  },
+};
+
+const HTML_REPORT = `<!DOCTYPE html><html><head><title>report.html</title></head><body>
+<p>Report generated by <a href="https://pypi.python.org/pypi/pytest-html">pytest-html</a></p>
+<div id="data-container" data-jsonblob="${JSON.stringify(HTML_DATA).replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"></div>
+</body></html>`;
+
+describe("parsePytestJson", () => {
+  it("splits nodeids and joins phase output", () => {
+    const [failed] = parsePytestJson(JSON_REPORT);
+
+    expect(failed).toMatchObject({
+      name: "test_create[admin-201]",
+      className: "tests/test_users.py::TestUsers",
+      parameters: [{ value: "admin-201" }],
+      status: "fail",
+      errorMessage: "AssertionError: assert 500 == 201",
+      logs: ["[call stdout] POST /users", "ERROR api: db timeout"],
+    });
+    expect(failed.duration).toBeCloseTo(0.33);
+    expect(failed.stackTrace).toContain("tests/test_users.py:18: AssertionError");
+  });
+
+  it("keeps expected failures out of the failed bucket", () => {
+    const [, xfailed, skipped, xpassed] = parsePytestJson(JSON_REPORT);
+
+    expect(xfailed).toMatchObject({ status: "skip", rawStatus: "xfailed", errorMessage: "KeyError: 'legacy'" });
+    expect(skipped).toMatchObject({ status: "skip", errorMessage: "Skipped: needs staging", stackTrace: undefined });
+    expect(xpassed).toMatchObject({ status: "pass", rawStatus: "xpassed" });
+  });
+});
+
+describe("parsePytestHtml", () => {
+  it("reads the pytest-html 4 data blob with reruns", () => {
+    const [total, checkout] = parsePytestHtml(HTML_REPORT);
+
+    expect(total).toMatchObject({ name: "test_total", status: "pass", flaky: true, duration: 0.004 });
+    expect(total.attempts?.map(a => a.status)).toEqual(["fail", "pass"]);
+    expect(checkout).toMatchObject({
+      status: "fail",
+      duration: 2,
+      errorMessage: "AssertionError: not paid",
+      logs: ["Captured stdout call\npaying..."],
+      screenshots: [{ name: "page", mimeType: "image/png", base64Data: "iVBORw0KGgo=" }],
+    });
+  });
+
+  it("is detected by the registry ahead of the generic HTML scraper", () => {
+    expect(detectReportFormat({ fileName: "report.html", content: HTML_REPORT })?.id).toBe("pytest-html");
+    expect(detectReportFormat({ fileName: "report.json", content: JSON_REPORT })?.id).toBe("pytest-json");
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { parseRobotReport } from "@/lib/parseRobotReport";
+import { detectReportFormat } from "@/lib/reportParsers";
+import { failedStepPath } from "@/lib/testSteps";
+
+const OUTPUT = `<?xml version="1.0" encoding="UTF-8"?>
+<robot generator="Robot 6.1.1 (Python 3.11.4 on linux)" generated="20240501 10:00:00.000" rpa="false" schemaversion="4">
+<suite id="s1" name="Tests" source="/app/tests">
+<suite id="s1-s1" name="Login" source="/app/tests/login.robot">
+<test id="s1-s1-t1" name="Valid Login" line="8">
+<kw name="Open Browser" library="SeleniumLibrary">
+<arg>\${URL}</arg>
+<arg>chrome</arg>
+<msg timestamp="20240501 10:00:00.100" level="INFO">Opening browser 'chrome'</msg>
+<status status="PASS" starttime="20240501 10:00:00.000" endtime="20240501 10:00:01.000"/>
+</kw>
+<for flavor="IN">
+<var>\${user}</var>
+<value>alice</value>
+<iter>
+<var name="\${user}">alice</var>
+<kw name="Submit Credentials">
+<kw name="Click Button" library="SeleniumLibrary">
+<arg>id=login</arg>
+<msg timestamp="20240501 10:00:02.000" level="FAIL">Element 'id=login' not visible</msg>
+<msg timestamp="20240501 10:00:02.000" level="INFO" html="true">&lt;/td&gt;&lt;/tr&gt;&lt;tr&gt;&lt;td colspan="3"&gt;&lt;a href="selenium-screenshot-1.png"&gt;&lt;img src="selenium-screenshot-1.png" width="800px"&gt;&lt;/a&gt;</msg>
+<status status="FAIL" starttime="20240501 10:00:01.500" endtime="20240501 10:00:02.000"/>
+</kw>
+<status status="FAIL" starttime="20240501 10:00:01.000" endtime="20240501 10:00:02.000"/>
+</kw>
+<status status="FAIL" starttime="20240501 10:00:01.000" endtime="20240501 10:00:02.000"/>
+</iter>
+<status status="FAIL" starttime="20240501 10:00:01.000" endtime="20240501 10:00:02.000"/>
+</for>
+<kw name="Close Browser" library="SeleniumLibrary" type="TEARDOWN">
+<status status="PASS" starttime="20240501 10:00:02.000" endtime="20240501 10:00:02.500"/>
+</kw>
+<tag>smoke</tag>
+<status status="FAIL" starttime="20240501 10:00:00.000" endtime="20240501 10:00:02.500">Element 'id=login' not visible</status>
+</test>
+<test id="s1-s1-t2" name="Locked Account" line="20">
+<tag>wip</tag>
+<status status="SKIP" starttime="20240501 10:00:03.000" endtime="20240501 10:00:03.000">Skipped with --skip option.</status>
+</test>
+<status status="FAIL" starttime="20240501 10:00:00.000" endtime="20240501 10:00:03.000"/>
+</suite>
+<status status="FAIL" starttime="20240501 10:00:00.000" endtime="20240501 10:00:03.000"/>
+</suite>
+</robot>`;
+
+describe("parseRobotReport", () => {
+  it("traces keywords and control structures as steps", () => {
+    const [failed] = parseRobotReport(OUTPUT);
+
+    expect(failed).toMatchObject({
+      name: "Valid Login",
+      className: "Tests.Login",
+      status: "fail",
+      rawStatus: "FAIL",
+      duration: 2.5,
+      errorMessage: "Element 'id=login' not visible",
+      tags: ["smoke"],
+      stepsToReproduce: [
+        "SeleniumLibrary.Open Browser    ${URL}    chrome",
+        "FOR    ${user}    IN    alice",
+        "  ITER    ${user}=alice",
+        "    Submit Credentials",
+        "      SeleniumLibrary.Click Button    id=login",
+        "[teardown] SeleniumLibrary.Close Browser",
+      ],
+      failedStepIndex: 4,
+      attachments: [{ name: "selenium-screenshot-1.png", contentType: "image/png", path: "selenium-screenshot-1.png" }],
+    });
+    expect(failed.logs).toEqual(["[INFO] Opening browser 'chrome'", "[FAIL] Element 'id=login' not visible"]);
+  });
+
+  it("nests messages under their keywords in the step tree", () => {
+    const [failed] = parseRobotReport(OUTPUT);
+    const path = failedStepPath(failed.steps);
+
+    expect(path).toEqual([1, 0, 0, 0, 0]);
+    const clickButton = failed.steps?.[1].steps?.[0].steps?.[0].steps?.[0];
+    expect(clickButton).toMatchObject({ name: "SeleniumLibrary.Click Button    id=login", status: "fail", duration: 0.5 });
+    expect(clickButton?.steps).toMatchObject([
+      { name: "Element 'id=login' not visible", status: "fail", level: "fail" },
+      {
+        name: "selenium-screenshot-1.png",
+        status: "pass",
+        level: "info",
+        attachments: [{ name: "selenium-screenshot-1.png", contentType: "image/png", path: "selenium-screenshot-1.png" }],
+      },
+    ]);
+  });
+
+  it("maps skipped tests and is detected by the registry", () => {
+    expect(parseRobotReport(OUTPUT)[1]).toMatchObject({ status: "skip", errorMessage: "Skipped with --skip option." });
+    expect(detectReportFormat({ fileName: "output.xml", content: OUTPUT })?.id).toBe("robot");
+  });
+});
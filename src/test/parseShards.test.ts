@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { parseShards, ParseProgress } from "@/lib/parseShards";
+import { toSelectedFiles } from "@/lib/reportFiles";
+import { File as NodeFile } from "node:buffer";
+
+// jsdom's File can't be read; Node's implements the same stream()/arrayBuffer() as browsers
+const reportFile = (content: string, name: string) => new NodeFile([content], name) as unknown as File;
+
+const junit = (name: string, status: string) => `<?xml version="1.0"?>
+<testsuite name="suite" tests="1">
+  <testcase classname="com.example.Cart" name="${name}" time="0.1">${status === "fail" ? '<failure message="boom"/>' : ""}</testcase>
+</testsuite>`;
+
+describe("parseShards", () => {
+  it("reports bytes read and tests found while parsing each shard", async () => {
+    const files = [
+      reportFile(junit("adds item", "pass"), "agent-1.xml"),
+      reportFile(junit("removes item", "fail"), "agent-2.xml"),
+    ];
+    const updates: ParseProgress[] = [];
+
+    const result = await parseShards(toSelectedFiles(files).map(file => [file]), progress => updates.push(progress));
+
+    expect(result.testCases).toHaveLength(2);
+    expect(result.shards?.map(s => s.name)).toEqual(["agent-1.xml", "agent-2.xml"]);
+    const last = updates[updates.length - 1];
+    expect(last.bytesRead).toBe(last.totalBytes);
+    expect(last.totalBytes).toBe(files[0].size + files[1].size);
+    expect(last.testsFound).toBe(2);
+    expect(updates.some(u => u.stage === "reading" && u.fileName === "agent-2.xml")).toBe(true);
+  });
+
+  it("keeps a single report unmerged", async () => {
+    const result = await parseShards([toSelectedFiles([reportFile(junit("adds item", "pass"), "results.xml")])], () => {});
+
+    expect(result.shards).toBeUndefined();
+    expect(result.metadata.fileName).toBe("results.xml");
+  });
+
+  it("stops between files once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const files = toSelectedFiles([reportFile(junit("adds item", "pass"), "agent-1.xml"), reportFile(junit("removes item", "fail"), "agent-2.xml")]);
+    const seen = new Set<string>();
+
+    const result = parseShards(files.map(file => [file]), progress => {
+      seen.add(progress.fileName as string);
+      if (progress.testsFound === 1) controller.abort(new DOMException("Parsing cancelled", "AbortError"));
+    }, controller.signal);
+
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+    expect([...seen]).toEqual(["agent-1.xml"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { parseStackTrace, rootCause, firstApplicationFrame, compactStackTrace, formatFrame } from "@/lib/parseStackTrace";
+import { parseReport } from "@/lib/reportParsers";
+
+const JAVA = `org.openqa.selenium.WebDriverException: checkout failed
+	at org.openqa.selenium.remote.RemoteWebDriver.execute(RemoteWebDriver.java:595)
+	at com.shop.pages.CheckoutPage.submit(CheckoutPage.java:31)
+	at com.shop.CheckoutTest.paysByCard(CheckoutTest.java:18)
+	at java.base/jdk.internal.reflect.NativeMethodAccessorImpl.invoke0(Native Method)
+	Suppressed: java.lang.IllegalStateException: driver closed
+		at com.shop.Driver.close(Driver.java:9)
+Caused by: java.net.ConnectException: Connection refused
+	at java.base/sun.nio.ch.Net.connect0(Native Method)
+	at com.shop.api.PaymentClient.charge(PaymentClient.java:44)
+	... 12 more`;
+
+describe("parseStackTrace", () => {
+  it("reads a Java trace with its cause chain", () => {
+    const trace = parseStackTrace(JAVA);
+
+    expect(trace.runtime).toBe("java");
+    expect(trace.exceptions.map(e => [e.type, e.message])).toEqual([
+      ["org.openqa.selenium.WebDriverException", "checkout failed"],
+      ["java.net.ConnectException", "Connection refused"],
+    ]);
+    expect(trace.exceptions[0].frames[1]).toEqual({
+      module: "com.shop.pages.CheckoutPage",
+      method: "submit",
+      file: "CheckoutPage.java",
+      line: 31,
+      framework: false,
+    });
+    expect(trace.exceptions[0].frames.map(f => f.framework)).toEqual([true, false, false, true]);
+    expect(rootCause(trace).omittedFrames).toBe(12);
+    // The root cause's own application frame beats the outer exception's
+    expect(firstApplicationFrame(trace)).toEqual({ exception: 1, frame: 1 });
+  });
+
+  it("reads chained Python tracebacks with the root cause last", () => {
+    const trace = parseStackTrace(`Traceback (most recent call last):
+  File "/app/shop/db.py", line 8, in connect
+    return driver.connect(url)
+ConnectionRefusedError: [Errno 111] Connection refused
+
+The above exception was the direct cause of the following exception:
+
+Traceback (most recent call last):
+  File "/usr/lib/python3.11/site-packages/_pytest/python.py", line 194, in pytest_pyfunc_call
+    result = testfunction(**testargs)
+  File "/app/tests/test_cart.py", line 12, in test_total
+    cart = Cart(connect())
+RuntimeError: database unavailable`);
+
+    expect(trace.runtime).toBe("python");
+    expect(trace.exceptions.map(e => e.type)).toEqual(["RuntimeError", "ConnectionRefusedError"]);
+    expect(trace.exceptions[0].frames.map(f => [f.module, f.method, f.framework])).toEqual([
+      ["test_cart", "test_total", false],
+      ["_pytest", "pytest_pyfunc_call", true],
+    ]);
+    expect(rootCause(trace).message).toBe("[Errno 111] Connection refused");
+  });
+
+  it("reads JavaScript frames and tells node_modules from project code", () => {
+    const trace = parseStackTrace(`TypeError: Cannot read properties of undefined (reading 'total')
+    at Cart.checkout (/app/src/cart.ts:42:17)
+    at Context.<anonymous> (/app/node_modules/mocha/lib/runnable.js:366:21)
+    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)`);
+
+    expect(trace.runtime).toBe("javascript");
+    expect(trace.exceptions[0].frames.map(f => [f.module, f.line, f.column, f.framework])).toEqual([
+      ["cart", 42, 17, false],
+      ["mocha", 366, 21, true],
+      ["node:internal/process/task_queues", 95, 5, true],
+    ]);
+    expect(formatFrame(trace.exceptions[0].frames[0], trace.runtime)).toBe("Cart.checkout (/app/src/cart.ts:42)");
+  });
+
+  it("reads .NET inner exceptions in cause order", () => {
+    const trace = parseStackTrace(`System.InvalidOperationException: Checkout failed ---> System.Net.Http.HttpRequestException: No connection
+   at System.Net.Http.HttpClient.SendAsync(HttpRequestMessage request)
+   at Shop.Api.PaymentClient.Charge(Decimal amount) in C:\\src\\Api\\PaymentClient.cs:line 27
+   --- End of inner exception stack trace ---
+   at Shop.Tests.CheckoutTests.PaysByCard() in C:\\src\\Tests\\CheckoutTests.cs:line 19`);
+
+    expect(trace.runtime).toBe("dotnet");
+    expect(trace.exceptions.map(e => [e.type, e.frames.length])).toEqual([
+      ["System.InvalidOperationException", 1],
+      ["System.Net.Http.HttpRequestException", 2],
+    ]);
+    expect(rootCause(trace).frames[1]).toMatchObject({ module: "Shop.Api.PaymentClient", method: "Charge", line: 27, framework: false });
+  });
+
+  it("reads native backtraces from gdb", () => {
+    const trace = parseStackTrace(`Program received signal SIGSEGV, Segmentation fault.
+#0  0x0000555555555189 in parse_header (buf=0x0) at src/http.c:42
+#1  0x00005555555551f0 in main () at src/main.c:10
+#2  0x00007ffff7a05b97 in __libc_start_main () from /lib/x86_64-linux-gnu/libc.so.6`);
+
+    expect(trace.runtime).toBe("native");
+    expect(trace.exceptions[0]).toMatchObject({ type: "SIGSEGV", message: "Segmentation fault." });
+    expect(trace.exceptions[0].frames.map(f => [f.method, f.file, f.framework])).toEqual([
+      ["parse_header", "src/http.c", false],
+      ["main", "src/main.c", false],
+      ["__libc_start_main", undefined, true],
+    ]);
+  });
+
+  it("returns nothing for text without frames", () => {
+    expect(parseStackTrace("AssertionError: expected 110 but was 100")).toBeUndefined();
+    expect(parseStackTrace(undefined)).toBeUndefined();
+  });
+
+  it("drops framework frames for the AI but keeps the throwing frame", () => {
+    const compact = compactStackTrace(parseStackTrace(JAVA));
+
+    expect(compact.exceptions[0].frames.map(f => f.method)).toEqual(["execute", "submit", "paysByCard"]);
+    expect(compact.exceptions[0].omittedFrames).toBe(1);
+    expect(compact.exceptions[1].omittedFrames).toBe(12);
+  });
+
+  it("is attached to parsed tests by the registry", () => {
+    const [testCase] = parseReport({
+      fileName: "TEST-Checkout.xml",
+      content: `<testsuite name="Checkout"><testcase name="paysByCard" classname="com.shop.CheckoutTest"><failure message="checkout failed">${JAVA}</failure></testcase></testsuite>`,
+    }).testCases;
+
+    expect(testCase.parsedStackTrace?.runtime).toBe("java");
+    expect(testCase.parsedStackTrace?.exceptions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { parseTestNGReport } from "@/lib/parseTestNGReport";
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testng-results skipped="2" failed="0" total="3" passed="1">
+  <suite name="Regression" duration-ms="1500">
+    <groups>
+      <group name="smoke">
+        <method signature="CheckoutTest.pay()" name="pay" class="com.shop.CheckoutTest"/>
+      </group>
+    </groups>
+    <test name="Checkout">
+      <class name="com.shop.CheckoutTest">
+        <test-method status="PASS" signature="init()" name="init" is-config="true" is-before-class="true" duration-ms="3"/>
+        <test-method status="FAIL" signature="login()" name="login" is-config="true" is-before-method="true" duration-ms="120">
+          <exception class="java.lang.IllegalStateException">
+            <message><![CDATA[Session expired]]></message>
+            <full-stacktrace><![CDATA[java.lang.IllegalStateException: Session expired
+	at com.shop.CheckoutTest.login(CheckoutTest.java:20)]]></full-stacktrace>
+          </exception>
+        </test-method>
+        <test-method status="SKIP" signature="pay()" name="pay" duration-ms="0" data-provider="cards">
+          <params>
+            <param index="0"><value><![CDATA[4111111111111111]]></value></param>
+            <param index="1"><value is-null="true"/></param>
+          </params>
+        </test-method>
+      </class>
+      <class name="com.shop.CartTest">
+        <test-method status="PASS" signature="add()" name="add" duration-ms="2500" started-at="2024-05-01T10:00:00Z"/>
+        <test-method status="SKIP" signature="remove()" name="remove" duration-ms="0"/>
+      </class>
+    </test>
+  </suite>
+</testng-results>`;
+
+describe("parseTestNGReport", () => {
+  it("keeps failed config methods and drops passing ones", () => {
+    const tests = parseTestNGReport(REPORT);
+
+    expect(tests.map(t => t.name)).toEqual(["login", "pay", "add", "remove"]);
+    expect(tests[0]).toMatchObject({
+      status: "fail",
+      configMethod: "@BeforeMethod",
+      errorMessage: "Session expired",
+      duration: 0.12,
+    });
+  });
+
+  it("links skipped tests to the config failure that caused them", () => {
+    const [login, pay, , remove] = parseTestNGReport(REPORT);
+
+    expect(pay.skippedBy).toBe(login.id);
+    expect(remove.skippedBy).toBeUndefined();
+  });
+
+  it("keeps data-provider parameters and groups", () => {
+    const [, pay, add] = parseTestNGReport(REPORT);
+
+    expect(pay.parameters).toEqual([
+      { name: "arg0", value: "4111111111111111" },
+      { name: "arg1", value: "null" },
+    ]);
+    expect(pay.tags).toEqual(["smoke"]);
+    expect(add.duration).toBe(2.5);
+    expect(add.timestamp).toBe("2024-05-01T10:00:00Z");
+  });
+
+  it("reads retried runs as failed attempts of the method's final run", () => {
+    const run = (status: string, retried: boolean, card: string, message?: string) => `
+        <test-method status="${status}" signature="pay()" name="pay" duration-ms="500"${retried ? ' retried="true"' : ""}>
+          <params><param index="0"><value><![CDATA[${card}]]></value></param></params>
+          ${message ? `<exception class="java.net.SocketTimeoutException"><message><![CDATA[${message}]]></message></exception>` : ""}
+        </test-method>`;
+    const tests = parseTestNGReport(`<testng-results><suite name="S"><test name="T"><class name="com.shop.CheckoutTest">
+      ${run("SKIP", true, "visa", "Read timed out")}
+      ${run("SKIP", true, "visa", "Connection reset")}
+      ${run("PASS", false, "visa")}
+      ${run("FAIL", false, "amex", "Declined")}
+    </class></test></suite></testng-results>`);
+
+    expect(tests.map(t => [t.name, t.status, t.parameters?.[0].value])).toEqual([["pay", "pass", "visa"], ["pay", "fail", "amex"]]);
+    expect(tests[0].flaky).toBe(true);
+    expect(tests[0].attempts?.map(a => [a.attempt, a.status, a.rawStatus, a.errorMessage])).toEqual([
+      [0, "fail", "retried", "Read timed out"],
+      [1, "fail", "retried", "Connection reset"],
+      [2, "pass", "pass", undefined],
+    ]);
+    expect(tests[1].attempts).toBeUndefined();
+  });
+});
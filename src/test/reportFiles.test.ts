@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { resolvePath, createImageResolver, groupLooseFiles } from "@/lib/reportFiles";
+import { parseReport, ReportFile } from "@/lib/reportParsers";
+
+const encoder = new TextEncoder();
+const file = (path: string, content: string): ReportFile => ({ path, data: encoder.encode(content) });
+
+const REPORT_HTML = `<html><head><title>Extent</title></head><body>
+<ul>
+  <li class="test fail">
+    <span class="test-name">Checkout fails</span>
+    <pre class="exception">java.lang.AssertionError: Expected: paid</pre>
+    <a href="screenshots/checkout%20page.png"><img src="./screenshots/checkout%20page.png"></a>
+    <img src="../shared/logo.png">
+    <a href="screenshots/missing.png">missing</a>
+  </li>
+</ul>
+</body></html>`;
+
+describe("resolvePath", () => {
+  it("resolves relative references against the report folder", () => {
+    expect(resolvePath("report", "./screenshots/a%20b.png?v=2")).toBe("report/screenshots/a b.png");
+    expect(resolvePath("report/html", "../img/x.png")).toBe("report/img/x.png");
+    expect(resolvePath("report", "screenshots\\win.png")).toBe("report/screenshots/win.png");
+  });
+
+  it("only resolves images that are in the upload", () => {
+    const resolve = createImageResolver([file("r/a.png", "png"), file("r/notes.txt", "text")], "r");
+
+    expect(resolve("a.png")).toMatchObject({ name: "a.png", mimeType: "image/png" });
+    expect(resolve("notes.txt")).toBeUndefined();
+    expect(resolve("https://cdn.example.com/a.png")).toBeUndefined();
+  });
+});
+
+describe("groupLooseFiles", () => {
+  const picked = (...names: string[]) => names.map(name => ({ file: new File(["{}"], name), path: name }));
+
+  it("keeps an Allure results set together and splits standalone reports into shards", () => {
+    const selected = picked("a1-result.json", "TEST-Login.xml", "c1-container.json", "s1-attachment.png", "environment.properties", "TEST-Cart.xml");
+
+    expect(groupLooseFiles(selected).map(shard => shard.map(({ path }) => path))).toEqual([
+      ["a1-result.json", "c1-container.json", "s1-attachment.png", "environment.properties"],
+      ["TEST-Login.xml"],
+      ["TEST-Cart.xml"],
+    ]);
+  });
+
+  it("makes each file a shard when none is an Allure result", () => {
+    expect(groupLooseFiles(picked("shard-1.json", "categories.json"))).toHaveLength(2);
+  });
+});
+
+describe("zipped report folders", () => {
+  it("parses the report document and turns referenced images into screenshots", () => {
+    const report = parseReport({
+      fileName: "extent-report.zip",
+      content: "",
+      files: [
+        file("extent-report/index.html", REPORT_HTML),
+        file("extent-report/screenshots/checkout page.png", "checkout-bytes"),
+        file("shared/logo.png", "logo-bytes"),
+      ],
+    });
+
+    const [test] = report.testCases;
+    expect(report.metadata).toMatchObject({ format: "spark-extent", fileName: "extent-report.zip" });
+    // Linked and inlined copies of the same image collapse to one screenshot
+    expect(test.screenshots?.map(s => s.name)).toEqual(["checkout page.png", "logo.png"]);
+    expect(test.screenshots?.[0].base64Data).toBe(btoa("checkout-bytes"));
+    expect(test.logs).toContain("Screenshot available: screenshots/missing.png");
+  });
+
+  it("prefers the report over a larger build log next to it", () => {
+    const junit = `<testsuite name="A"><testcase name="works" classname="com.shop.A"/></testsuite>`;
+    const log = `[INFO] Scanning for projects...\n${"[INFO] Downloading dependency\n".repeat(200)}[ERROR] BUILD FAILURE`;
+
+    const report = parseReport({
+      fileName: "results.zip",
+      content: "",
+      files: [file("results/TEST-A.xml", junit), file("results/build.log", log)],
+    });
+
+    expect(report.metadata.format).toBe("junit");
+    expect(report.testCases.map(t => t.name)).toEqual(["works"]);
+  });
+});
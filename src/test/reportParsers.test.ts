@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { detectReportFormat, parseReport, registerReportParser, getSupportedExtensions } from "@/lib/reportParsers";
+
+describe("report parser registry", () => {
+  it.each([
+    ["report.html", "<html><head><title>Extent</title></head><body></body></html>", "spark-extent"],
+    ["index.html", "<!DOCTYPE html><html><body>Plain report</body></html>", "spark-extent"],
+    ["results.xml", "<?xml version=\"1.0\"?><testng-results total=\"0\"></testng-results>", "testng"],
+    ["TEST-Login.xml", "<?xml version=\"1.0\"?><testsuite name=\"Login\"></testsuite>", "junit"],
+    ["cucumber.json", "[{\"name\":\"Feature\",\"elements\":[]}]", "cucumber-json"],
+    ["messages.ndjson", "{\"meta\":{\"protocolVersion\":\"22.0.0\"}}\n{\"pickle\":{}}", "cucumber-messages"],
+  ])("detects %s", (fileName, content, format) => {
+    expect(detectReportFormat({ fileName, content })?.id).toBe(format);
+  });
+
+  it("rejects content no adapter recognizes", () => {
+    expect(detectReportFormat({ fileName: "notes.txt", content: "hello" })).toBeUndefined();
+    expect(() => parseReport({ fileName: "notes.txt", content: "hello" })).toThrow("Unrecognized report format");
+  });
+
+  it("reads plain pasted text as a console log", () => {
+    const report = parseReport({ fileName: "pasted.log", content: "Deploying build 412 to staging\nSmoke checks finished" });
+
+    expect(report.testCases).toEqual([]);
+    expect(report.metadata.format).toBe("console-log");
+    expect(report.rawContent).toContain("Smoke checks finished");
+    expect(report.diagnostics?.[0].strategy).toBe("Free text without test markers");
+    expect(detectReportFormat({ fileName: "pasted.log", content: "<testsuite name=\"Login\"></testsuite>" })?.id).toBe("junit");
+  });
+
+  it("returns test cases with the detected format", () => {
+    const report = parseReport({
+      fileName: "TEST-Login.xml",
+      content: "<testsuite name=\"Login\"><testcase name=\"ok\" time=\"1\"/></testsuite>",
+    });
+
+    expect(report.testCases).toHaveLength(1);
+    expect(report.metadata).toMatchObject({ format: "junit", formatLabel: "JUnit XML", fileName: "TEST-Login.xml" });
+    expect(report.rawContent).toContain("<testsuite");
+  });
+
+  it("sends only the start of a large report whose tests were parsed", () => {
+    const testcases = Array.from({ length: 1000 }, (_, i) => `<testcase classname="com.shop.LoginTest" name="logsIn${i}" time="1"/>`).join("\n");
+    const report = parseReport({ fileName: "TEST-Login.xml", content: `<testsuite name="Login">${testcases}</testsuite>` });
+
+    expect(report.testCases).toHaveLength(1000);
+    expect(report.rawContent.length).toBeLessThan(25100);
+    expect(report.rawContent).toMatch(/\[content truncated\]\.\.\.$/);
+  });
+
+  it("reports how the file was read", () => {
+    const [diagnostics] = parseReport({
+      fileName: "TEST-Login.xml",
+      content: "<testsuite name=\"Login\"><testcase name=\"ok\" timestamp=\"2024-05-01T10:00:00\"/><testcase name=\"ok\" timestamp=\"2024-05-01T10:01:00\"/></testsuite>",
+    }).diagnostics;
+
+    expect(diagnostics).toMatchObject({
+      fileName: "TEST-Login.xml",
+      format: "junit",
+      strategy: "JUnit XML parser",
+      reliability: "high",
+      testCount: 1,
+    });
+    expect(diagnostics.confidence).toBeGreaterThan(0.5);
+    expect(diagnostics.confidence).toBeLessThanOrEqual(1);
+    expect(diagnostics.notes).toContain("1 repeated run(s) folded into attempts of the same test");
+  });
+
+  it("accepts new adapters without touching the upload page", () => {
+    registerReportParser({
+      id: "tap",
+      label: "TAP",
+      extensions: [".tap"],
+      sniff: input => (input.content.startsWith("TAP version") ? 1 : 0),
+      parse: () => ({ testCases: [] }),
+    });
+
+    expect(getSupportedExtensions()).toContain(".tap");
+    expect(parseReport({ fileName: "out.tap", content: "TAP version 13" }).metadata.format).toBe("tap");
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ANALYSIS_TOOL, REDUCE_TOOL, validate } from "../../supabase/functions/analyze-report/schema.ts";
+import { parseModelJson, requestStructured } from "../../supabase/functions/analyze-report/structured.ts";
+import { fakeProvider } from "../../supabase/functions/analyze-report/fakeProvider.ts";
+
+const verdict = (overrides: object = {}) => ({
+  testName: "paysByCard",
+  rootCause: "Tax is no longer added",
+  category: "application_defect",
+  confidence: "high",
+  evidence: ["expected:<110> but was:<100>"],
+  suggestedFix: "Restore the tax calculation",
+  ...overrides,
+});
+
+const analysis = (failures: object[]) => ({ failures, patterns: [], recommendations: [] });
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("validate", () => {
+  it("repairs values that clearly mean something valid", () => {
+    const { value, repairs, issues } = validate(ANALYSIS_TOOL.parameters, {
+      ...analysis([verdict({ category: "Application Defect", evidence: "one line", testId: 7 })]),
+      summary: { total: "3", passed: 2, failed: 1, skipped: 0 },
+    });
+
+    expect(issues).toEqual([]);
+    expect(value).toMatchObject({
+      failures: [{ category: "application_defect", evidence: ["one line"], testId: "7" }],
+      summary: { total: 3 },
+    });
+    expect(repairs.map(repair => repair.path)).toEqual(["failures[0].testId", "failures[0].category", "failures[0].evidence", "summary.total"]);
+  });
+
+  it("fills in defaults and names every field that is still wrong", () => {
+    const { value, issues } = validate(ANALYSIS_TOOL.parameters, {
+      failures: [verdict({ confidence: "certain", rootCause: undefined })],
+      patterns: "none",
+    });
+
+    expect(issues).toEqual([
+      { path: "failures[0].rootCause", message: "is missing" },
+      { path: "failures[0].confidence", message: '"certain" is not one of high, medium, low' },
+      { path: "patterns", message: "expected a list" },
+      { path: "recommendations", message: "is missing" },
+    ]);
+    expect(value).toMatchObject({ failures: [{ rootCause: "", confidence: "low" }], patterns: [], recommendations: [] });
+  });
+});
+
+describe("parseModelJson", () => {
+  it("reads JSON out of a markdown reply", () => {
+    expect(parseModelJson('Here you go:\n```json\n{"patterns": []}\n```')).toEqual({ patterns: [] });
+    expect(() => parseModelJson("I could not analyze this report.")).toThrow();
+  });
+});
+
+describe("requestStructured", () => {
+  it("retries once with only the failing fields named", async () => {
+    const provider = fakeProvider({
+      report_analysis: [analysis([verdict({ category: "product bug" })]), analysis([verdict()])],
+    });
+
+    const { value, repairs } = await requestStructured(provider, "system", "analyze", ANALYSIS_TOOL);
+
+    const retry = provider.requests[1].messages.at(-1).content;
+    expect(retry).toContain('- failures[0].category: "product bug" is not one of');
+    expect(retry).not.toContain("rootCause");
+    expect(value).toMatchObject({ failures: [{ category: "application_defect" }] });
+    expect(repairs).toEqual([expect.objectContaining({ path: "failures[0].category", action: "repaired" })]);
+  });
+
+  it("keeps the first reply when the retry comes back worse", async () => {
+    const provider = fakeProvider({
+      merged_findings: [{ patterns: [], recommendations: "none" }, "not json at all"],
+    });
+
+    const { value, repairs } = await requestStructured(provider, "system", "merge", REDUCE_TOOL);
+
+    expect(value).toEqual({ patterns: [], recommendations: [] });
+    expect(repairs).toEqual([expect.objectContaining({ path: "recommendations", action: "defaulted" })]);
+  });
+
+  it("throws when no reply is JSON", async () => {
+    const provider = fakeProvider({ merged_findings: ["sorry", "still sorry"] });
+
+    await expect(requestStructured(provider, "system", "merge", REDUCE_TOOL)).rejects.toThrow("could not be read as JSON");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { collapseTestRuns, stableTestId, testIdentity } from "@/lib/testIdentity";
+import { parseReport } from "@/lib/reportParsers";
+import { TestCase } from "@/types/analysis";
+
+const test = (id: string, fields: Partial<TestCase>): TestCase => ({ id, className: "Checkout", name: "pays", status: "pass", duration: 1, ...fields });
+
+describe("collapseTestRuns", () => {
+  it("derives ids from class, name, browser and parameters", () => {
+    const [visa, amex] = collapseTestRuns([[
+      test("test-1", { parameters: [{ name: "card", value: "visa" }] }),
+      test("test-2", { parameters: [{ name: "card", value: "amex" }] }),
+    ]]);
+    const [reordered] = collapseTestRuns([[test("test-9", { parameters: [{ name: "card", value: "amex" }] })]]);
+
+    expect(visa.id).toMatch(/^test-[0-9a-z]+$/);
+    expect(visa.id).not.toBe(amex.id);
+    expect(reordered.id).toBe(amex.id);
+    expect(amex.id).toBe(stableTestId(testIdentity(amex)));
+  });
+
+  it("folds retries into attempts and flags tests that passed on retry as flaky", () => {
+    const [pays] = collapseTestRuns([[
+      test("test-1", { status: "fail", errorMessage: "timeout", timestamp: "2024-05-01T10:00:00Z" }),
+      test("test-2", { status: "pass", timestamp: "2024-05-01T10:01:00Z" }),
+    ]]);
+
+    expect(pays).toMatchObject({ status: "pass", flaky: true });
+    expect(pays.attempts?.map(a => [a.attempt, a.status])).toEqual([[0, "fail"], [1, "pass"]]);
+  });
+
+  it("keeps same-named tests of one report apart when nothing says they are retries", () => {
+    const [first, second, third] = collapseTestRuns([[
+      test("test-1", { className: "Test Suite", name: "Login", status: "fail", errorMessage: "wrong password" }),
+      test("test-2", { className: "Test Suite", name: "Login", status: "pass" }),
+      test("test-3", { className: "Test Suite", name: "Login", status: "pass", timestamp: "2024-05-01T10:00:00Z" }),
+    ]]);
+
+    expect([first.status, second.status, third.status]).toEqual(["fail", "pass", "pass"]);
+    expect(first.flaky).toBeUndefined();
+    expect(first.id).toBe(stableTestId(testIdentity(first)));
+    expect(new Set([first.id, second.id, third.id]).size).toBe(3);
+  });
+
+  it("flags flakiness from attempts the framework already recorded", () => {
+    const [pays] = collapseTestRuns([[test("test-1", {
+      attempts: [
+        { attempt: 0, status: "fail", duration: 1 },
+        { attempt: 1, status: "pass", duration: 1 },
+      ],
+    })]]);
+
+    expect(pays.flaky).toBe(true);
+  });
+
+  it("keeps each run of a setup method and remaps skippedBy to the new ids", () => {
+    const testCases = collapseTestRuns([[
+      test("test-1", { name: "setUp", configMethod: "@BeforeMethod" }),
+      test("test-2", { name: "first" }),
+      test("test-3", { name: "setUp", configMethod: "@BeforeMethod", status: "fail" }),
+      test("test-4", { name: "second", status: "skip", skippedBy: "test-3" }),
+    ]]);
+
+    expect(testCases.map(t => t.name)).toEqual(["setUp", "first", "setUp", "second"]);
+    expect(new Set(testCases.map(t => t.id)).size).toBe(4);
+    expect(testCases[3].skippedBy).toBe(testCases[2].id);
+  });
+
+  it("is applied to every parsed report", () => {
+    const report = parseReport({
+      fileName: "TEST-Checkout.xml",
+      content: `<testsuite name="Checkout">
+  <testcase classname="Checkout" name="pays" time="1" timestamp="2024-05-01T10:00:00"><failure message="timeout"/></testcase>
+  <testcase classname="Checkout" name="pays" time="1" timestamp="2024-05-01T10:01:00"/>
+</testsuite>`,
+    });
+
+    expect(report.testCases).toHaveLength(1);
+    expect(report.testCases[0]).toMatchObject({ status: "pass", flaky: true, id: stableTestId(testIdentity(report.testCases[0])) });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DOMParser as LinkedomParser } from "linkedom";
+import { xmlWellFormednessError } from "@/lib/xml";
+import { parseJUnitReport } from "@/lib/parseJUnitReport";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("xmlWellFormednessError", () => {
+  it("accepts comments, CDATA, doctypes and markup inside attribute values", () => {
+    expect(xmlWellFormednessError(`<?xml version="1.0"?>
+<!DOCTYPE suite [<!ENTITY x "y">]>
+<!-- <unclosed> -->
+<testsuite name="a > b"><testcase name="x"><failure><![CDATA[expected <b> but was <i>]]></failure></testcase><testcase name="y"/></testsuite>`)).toBeUndefined();
+  });
+
+  it("names the first problem", () => {
+    expect(xmlWellFormednessError(`<testsuite><testcase name="x"></testsuite>`)).toBe("</testsuite> closes <testcase>");
+    expect(xmlWellFormednessError(`<testsuite><testcase name="x"/>`)).toBe("<testsuite> is never closed");
+    expect(xmlWellFormednessError(`<testsuite><testcase name="x`)).toBe('unexpected "<" at offset 11');
+  });
+});
+
+// The parse worker reads reports with linkedom, which never reports a <parsererror>
+describe("parseXmlDocument under linkedom", () => {
+  it("rejects a truncated report instead of reading it as passed", () => {
+    vi.stubGlobal("DOMParser", LinkedomParser);
+
+    expect(() => parseJUnitReport(`<testsuite><testcase name="x"></testsuite>`)).toThrow("Invalid XML report: </testsuite> closes <testcase>");
+    expect(parseJUnitReport(`<testsuite><testcase name="x"/></testsuite>`).map(t => [t.name, t.status])).toEqual([["x", "pass"]]);
+  });
+});
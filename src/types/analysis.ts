@@ -3,13 +3,101 @@ export interface TestCase {
   name: string;
   className: string;
   status: 'pass' | 'fail' | 'skip';
+  // Status as written by the source framework (e.g. 'error', 'xfailed', 'broken')
+  rawStatus?: string;
   duration: number;
   errorMessage?: string;
   stackTrace?: string;
+  // stackTrace split into exceptions and frames, when its runtime is recognized
+  parsedStackTrace?: ParsedStackTrace;
   logs?: string[];
   timestamp?: string;
   stepsToReproduce?: string[];
+  // Index into stepsToReproduce of the step that failed
+  failedStepIndex?: number;
+  // Step tree (node → step → log entry) for frameworks that record one; stepsToReproduce stays the flat outline
+  steps?: TestStep[];
   screenshots?: Screenshot[];
+  parameters?: TestParameter[];
+  tags?: string[];
+  authors?: string[];
+  devices?: string[];
+  // Set on setup/teardown methods, e.g. '@BeforeClass'
+  configMethod?: string;
+  // Id of the failed config method that caused this test to be skipped
+  skippedBy?: string;
+  labels?: Record<string, string>;
+  // Flags set by the reporting tool itself (e.g. Allure statusDetails)
+  flaky?: boolean;
+  knownIssue?: boolean;
+  muted?: boolean;
+  // Browser or Playwright project the test ran in
+  browser?: string;
+  // Every run of a retried test, oldest first; the test's own status is the final attempt's
+  attempts?: TestAttempt[];
+  // Artifacts that aren't inline screenshots, e.g. traces and videos
+  attachments?: TestAttachment[];
+  // Report file the test came from when several shards were merged
+  shard?: string;
+}
+
+export interface TestAttempt {
+  attempt: number;
+  status: TestCase['status'];
+  rawStatus?: string;
+  duration: number;
+  errorMessage?: string;
+  timestamp?: string;
+}
+
+export interface TestStep {
+  name: string;
+  status: TestCase['status'];
+  rawStatus?: string;
+  timestamp?: string;
+  duration?: number;
+  // Set on log entries: the level the framework logged it at, lower-cased (info, warning, error...)
+  level?: string;
+  errorMessage?: string;
+  // Files captured during the step; image attachments name one of the test's screenshots
+  attachments?: TestAttachment[];
+  steps?: TestStep[];
+}
+
+export interface StackFrame {
+  // Class, module, namespace or library the frame belongs to
+  module?: string;
+  method?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  // Runtime, test framework or third-party code rather than the project's own
+  framework: boolean;
+}
+
+export interface StackException {
+  type: string;
+  message?: string;
+  frames: StackFrame[];
+  // Frames the runtime left out ("... 12 more") or that were dropped to save space
+  omittedFrames?: number;
+}
+
+export interface ParsedStackTrace {
+  runtime: 'java' | 'python' | 'javascript' | 'dotnet' | 'native';
+  // The thrown exception first, then its causes; the last one is the root cause
+  exceptions: StackException[];
+}
+
+export interface TestAttachment {
+  name: string;
+  contentType?: string;
+  path?: string;
+}
+
+export interface TestParameter {
+  name?: string;
+  value: string;
 }
 
 export interface Screenshot {
@@ -18,6 +106,73 @@ export interface Screenshot {
   mimeType: string;
 }
 
+export interface ReportMetadata {
+  format: string;
+  formatLabel: string;
+  version?: string;
+  fileName: string;
+}
+
+// How one report file was turned into test cases, so odd results can be traced to the parser or the AI
+export interface ParseDiagnostics {
+  fileName: string;
+  format: string;
+  formatLabel: string;
+  // Sniff score of the chosen parser, 0..1
+  confidence: number;
+  // Selector or strategy that produced the tests, e.g. 'Embedded JSON model' or 'DOM selector ".test"'
+  strategy: string;
+  reliability: 'high' | 'medium' | 'low';
+  // Elements or entries the strategy matched, before filtering
+  nodeCount?: number;
+  testCount: number;
+  // Tests whose status the parser defaulted instead of reading it
+  guessedStatus: string[];
+  ignored: string[];
+  notes: string[];
+}
+
+// Describes the run as a whole rather than any one test
+export interface RunMetadata {
+  // The report's system/environment table, e.g. OS, Browser, App Version, Base URL
+  environment?: Record<string, string>;
+  authors?: string[];
+  devices?: string[];
+  browsers?: string[];
+  tags?: string[];
+}
+
+export interface ShardSummary {
+  name: string;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+}
+
+// One request of a run too large to analyze in a single prompt
+export interface BatchReport {
+  index: number;
+  // Failing tests in the batch, or 0 for a slice of raw report text
+  tests: number;
+  // The characters of the raw report a slice batch held
+  rawRange?: { from: number; to: number };
+  status: 'ok' | 'failed';
+  error?: string;
+}
+
+// A field of the AI reply that failed schema validation
+export interface OutputRepair {
+  // The request it came from when the run was split, e.g. "batch 2" or "merge"
+  scope?: string;
+  // e.g. 'failures[3].category'
+  path: string;
+  // 'repaired' fields were fixed up or corrected on retry; 'defaulted' ones hold a placeholder
+  action: 'repaired' | 'defaulted';
+  detail: string;
+}
+
 export interface AnalysisResult {
   summary: {
     total: number;
@@ -30,6 +185,14 @@ export interface AnalysisResult {
   failures: FailureAnalysis[];
   patterns: Pattern[];
   recommendations: Recommendation[];
+  // Per-report totals when sharded reports were merged
+  shards?: ShardSummary[];
+  runMetadata?: RunMetadata;
+  // One entry per parsed report file
+  diagnostics?: ParseDiagnostics[];
+  // Present only when the run was split into batches for analysis
+  batches?: BatchReport[];
+  outputRepairs?: OutputRepair[];
 }
 
 export interface FailureAnalysis {
@@ -40,6 +203,15 @@ export interface FailureAnalysis {
   evidence: string[];
   suggestedFix: string;
   jiraIssueKey?: string;
+  // Fields the AI reply left out or got wrong, shown with defaults instead of a real verdict
+  defaultedFields?: string[];
+  // Set when a failure-signature rule labelled this failure instead of the AI
+  ruleId?: string;
+  // Set when other failing tests had the same error; the verdict was shared with all of them
+  cluster?: {
+    signature: string;
+    size: number;
+  };
 }
 
 export type DefectCategory = 
@@ -54,6 +226,8 @@ export interface Pattern {
   description: string;
   occurrences: number;
   affectedTests: string[];
+  // The masked error signature, for patterns of failures that share one
+  signature?: string;
 }
 
 export interface Recommendation {
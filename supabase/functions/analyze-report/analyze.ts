@@ -0,0 +1,321 @@
+import { BatchReport, FailureVerdict, FieldRepair, ModelAnalysis, OutputRepair, ParseDiagnostics, Pattern, Recommendation, RunMetadata, TestCase } from "./types.ts";
+import { ModelProvider, ProviderError } from "./providers.ts";
+import { ANALYSIS_TOOL, REDUCE_TOOL } from "./schema.ts";
+import { requestStructured } from "./structured.ts";
+import { SYSTEM_PROMPT, REDUCE_SYSTEM_PROMPT, RAW_CONTENT_LIMIT, ReportContext, buildUserPrompt, buildReducePrompt } from "./prompt.ts";
+import { AnalysisBatch, estimateTokens, planBatches, promptTest, mapWithConcurrency, mergeFindings } from "./batches.ts";
+import { classifyFailures, DEFAULT_RULES, FailureRule, rulePatterns } from "./rules.ts";
+import { clusterFailures, clusterPatterns, fanOutVerdicts, FailureCluster, representativeForModel } from "./clusters.ts";
+
+// Tokens of tests or report text per request
+export const DEFAULT_BATCH_TOKENS = 16000;
+// Batches run a few at a time so a nightly run doesn't hit the provider's rate limit all at once
+const MAX_PARALLEL_BATCHES = 3;
+
+// The request body the browser sends
+export interface AnalyzeRequest {
+  testCases?: TestCase[];
+  rawContent?: string;
+  reportFormat?: string;
+  runMetadata?: RunMetadata;
+  diagnostics?: ParseDiagnostics[];
+}
+
+export interface AnalyzeOptions {
+  // Tokens of tests or report text per request
+  batchTokens?: number;
+  rules?: FailureRule[];
+}
+
+interface BatchOutcome {
+  batch: AnalysisBatch;
+  analysis?: ModelAnalysis;
+  repairs?: FieldRepair[];
+  error?: unknown;
+}
+
+// Every analysis field of these verdicts is a placeholder, and the UI says so
+const UNANALYZED_FIELDS = ['rootCause', 'category', 'confidence', 'suggestedFix'];
+
+// Failures whose batch got no usable answer still appear, flagged for manual review
+function unanalyzedVerdicts(tests: TestCase[]): FailureVerdict[] {
+  return tests.map(t => ({
+    testId: t.id,
+    testName: t.name,
+    rootCause: t.errorMessage || "Unable to determine root cause - manual review required",
+    category: "automation_script_defect",
+    confidence: "low",
+    evidence: [t.errorMessage || "No error message available"],
+    suggestedFix: "Review the test implementation and logs manually",
+    defaultedFields: UNANALYZED_FIELDS,
+  }));
+}
+
+// Attaches each defaulted field of failures[i] to that verdict, so its card can flag it
+function withDefaultedFields(analysis: ModelAnalysis, repairs: FieldRepair[]): ModelAnalysis {
+  const failures = (analysis.failures || []).map((verdict, index) => {
+    const prefix = `failures[${index}].`;
+    const defaultedFields = repairs
+      .filter(repair => repair.action === 'defaulted' && repair.path.startsWith(prefix))
+      .map(repair => repair.path.slice(prefix.length));
+    return defaultedFields.length > 0 ? { ...verdict, defaultedFields } : verdict;
+  });
+  return { ...analysis, failures };
+}
+
+// Runs the whole analysis against `provider`. Throws the ProviderError when no request got through at all.
+export async function analyzeReport(
+  { testCases, rawContent, reportFormat, runMetadata, diagnostics }: AnalyzeRequest,
+  provider: ModelProvider,
+  { batchTokens: budget = DEFAULT_BATCH_TOKENS, rules = DEFAULT_RULES }: AnalyzeOptions = {}
+) {
+  const parsedTests: TestCase[] = testCases || [];
+  const failedFromParsing = parsedTests.filter((t: TestCase) => t.status === 'fail');
+  const skippedFromParsing = parsedTests.filter((t: TestCase) => t.status === 'skip');
+  const passedFromParsing = parsedTests.filter((t: TestCase) => t.status === 'pass');
+
+  // pytest xfail results are expected failures: recorded outcomes, never defects. Matched by id only,
+  // since a parametrized test or one in another module can share an xfailed test's name
+  const expectedFailures = new Set(
+    parsedTests.filter((t: TestCase) => t.rawStatus === 'xfailed').map((t: TestCase) => t.id)
+  );
+
+  console.log(`Parsed: ${parsedTests.length} tests (${failedFromParsing.length} failed, ${passedFromParsing.length} passed, ${skippedFromParsing.length} skipped)`);
+
+  // Failures with the same error signature are analyzed once, through their first test, and the verdict
+  // copied to the rest. 200 tests failing on a down login service cost one analysis, not 200.
+  const clusters = clusterFailures(failedFromParsing.filter((t: TestCase) => !expectedFailures.has(t.id)));
+  const clusterOf = new Map(clusters.map(cluster => [cluster.representative.id, cluster]));
+
+  // Representatives with a known signature are labelled by rule; the model only sees the rest, with weaker rule hits attached
+  const { verdicts: ruleVerdicts, unresolved } = classifyFailures(clusters.map(cluster => cluster.representative), rules);
+  const forModel = new Map(unresolved.map(t => [t.id, representativeForModel(clusterOf.get(t.id) as FailureCluster, t)]));
+  const withheld = new Set(clusters.flatMap(cluster => cluster.members).filter(t => !forModel.has(t.id)).map(t => t.id));
+  const modelTests = parsedTests.filter(t => !withheld.has(t.id)).map(t => promptTest(forModel.get(t.id) || t));
+  const ruleCounts: Record<string, number> = {};
+  ruleVerdicts.forEach(verdict => {
+    const size = clusterOf.get(verdict.testId as string)?.members.length || 1;
+    ruleCounts[verdict.ruleId as string] = (ruleCounts[verdict.ruleId as string] || 0) + size;
+  });
+
+  const context: ReportContext = {
+    reportFormat,
+    runMetadata,
+    diagnostics: diagnostics || [],
+    ruleCounts,
+    totals: {
+      total: parsedTests.length,
+      passed: passedFromParsing.length,
+      failed: failedFromParsing.length,
+      skipped: skippedFromParsing.length,
+    },
+  };
+
+  // Every failure labelled by rule: nothing is left for the model
+  const skipModel = failedFromParsing.length > 0 && unresolved.length === 0;
+
+  // The instructions, environment and diagnostics go into every request; the rest of the budget is
+  // for tests and report text, though never less than a quarter of it
+  const promptTokens = estimateTokens(SYSTEM_PROMPT) + estimateTokens(buildUserPrompt(context, { tests: [], batch: { index: 0, count: 1 } }));
+  const contentBudget = Math.max(budget - promptTokens, Math.floor(budget / 4));
+
+  // Runs that fit go out in one request as before; larger ones are split so no failure is cut off
+  const raw: string = rawContent || '';
+  const wholeRun = !skipModel &&
+    estimateTokens(JSON.stringify(modelTests, null, 2)) + estimateTokens(raw.slice(0, RAW_CONTENT_LIMIT)) <= contentBudget &&
+    (parsedTests.length > 0 || raw.length <= RAW_CONTENT_LIMIT);
+  // A large parsed run with no failures left for the model needs one request for its patterns and
+  // recommendations, not its raw report cut into slices the parser already read
+  const noFailuresLeft = !skipModel && !wholeRun && parsedTests.length > 0 && forModel.size === 0;
+  const singlePass = wholeRun || noFailuresLeft;
+  const batches: AnalysisBatch[] = skipModel
+    ? []
+    : wholeRun
+      ? [{ index: 0, tests: modelTests, rawContent: raw }]
+      : noFailuresLeft
+        ? [{ index: 0, tests: [], rawContent: raw }]
+        : planBatches(Array.from(forModel.values()), parsedTests.length > 0 ? undefined : raw, contentBudget);
+
+  if (clusters.length < failedFromParsing.length) {
+    console.log(`Grouped ${failedFromParsing.length} failures into ${clusters.length} error signatures`);
+  }
+  if (ruleVerdicts.length > 0) {
+    console.log(`Failure rules labelled ${ruleVerdicts.length} of ${clusters.length} error signatures`);
+  }
+  console.log(skipModel
+    ? "All failures matched failure rules, skipping the model"
+    : singlePass
+      ? `Calling ${provider.name} for comprehensive analysis...`
+      : `Calling ${provider.name} for ${batches.length} batches (${budget} tokens each)...`);
+
+  // Map: each batch is analyzed on its own, and one bad batch doesn't sink the others
+  const outcomes = await mapWithConcurrency(batches, MAX_PARALLEL_BATCHES, async (batch): Promise<BatchOutcome> => {
+    const userPrompt = buildUserPrompt(context, {
+      tests: batch.tests,
+      rawContent: batch.rawContent,
+      batch: singlePass ? undefined : { index: batch.index, count: batches.length },
+    });
+    try {
+      const { value, repairs } = await requestStructured<ModelAnalysis>(provider, SYSTEM_PROMPT, userPrompt, ANALYSIS_TOOL);
+      return { batch, analysis: withDefaultedFields(value, repairs), repairs };
+    } catch (error) {
+      console.error(`Analysis of batch ${batch.index + 1} failed:`, error);
+      return { batch, error };
+    }
+  });
+
+  // When no batch got through, the provider's own error (rate limit, credits) is what the user needs to see
+  const providerErrors = outcomes.map(o => o.error).filter((e): e is ProviderError => e instanceof ProviderError);
+  if (outcomes.length > 0 && providerErrors.length === outcomes.length) {
+    throw providerErrors[0];
+  }
+
+  const analyses = outcomes.filter(o => o.analysis).map(o => o.analysis as ModelAnalysis);
+  const failedOutcomes = outcomes.filter(o => !o.analysis);
+  const batchReports: BatchReport[] = outcomes.map(({ batch, analysis, error }) => ({
+    index: batch.index,
+    tests: batch.tests.filter(t => t.status === 'fail').reduce((sum, t) => sum + (t.sharedFailure?.tests || 1), 0),
+    rawRange: batch.rawRange,
+    status: analysis ? 'ok' : 'failed',
+    error: analysis ? undefined : error instanceof Error ? error.message : String(error),
+  }));
+
+  const outputRepairs: OutputRepair[] = outcomes.flatMap(({ batch, repairs }) =>
+    (repairs || []).map(repair => singlePass ? repair : { ...repair, scope: `batch ${batch.index + 1}` })
+  );
+
+  // Reduce: one set of patterns and recommendations for the whole run
+  let patterns: Pattern[] = analyses[0]?.patterns || [];
+  let recommendations: Recommendation[] = analyses[0]?.recommendations || [];
+  if (!singlePass && analyses.length > 1) {
+    try {
+      const merged = await requestStructured<ModelAnalysis>(provider, REDUCE_SYSTEM_PROMPT, buildReducePrompt(context, analyses), REDUCE_TOOL);
+      patterns = merged.value.patterns || [];
+      recommendations = merged.value.recommendations || [];
+      outputRepairs.push(...merged.repairs.map(repair => ({ ...repair, scope: 'merge' })));
+    } catch (error) {
+      console.error("Reduce pass failed, merging batch findings locally:", error);
+      ({ patterns, recommendations } = mergeFindings(analyses));
+    }
+  }
+
+  const verdicts: FailureVerdict[] = fanOutVerdicts([
+    ...ruleVerdicts,
+    ...analyses.flatMap(analysis => analysis.failures || []),
+    ...failedOutcomes.flatMap(({ batch }) => unanalyzedVerdicts(batch.tests.filter(t => t.status === 'fail'))),
+  ], clusters);
+
+  // Clusters and rules show what failures have in common even where the model never saw them
+  patterns = [...clusterPatterns(clusters), ...rulePatterns(verdicts, rules), ...patterns];
+  if (failedOutcomes.length > 0) {
+    // A failed slice of an unparsed report leaves no placeholders behind: its tests are simply missing
+    const lostRanges = failedOutcomes.flatMap(({ batch }) => batch.rawRange ? [`${batch.rawRange.from}-${batch.rawRange.to}`] : []);
+    recommendations = [
+      {
+        priority: "high",
+        title: "Manual Review Required",
+        description: singlePass
+          ? "AI analysis encountered parsing issues. Please review the report manually for complete accuracy."
+          : lostRanges.length > 0
+            ? `${lostRanges.length} of ${batches.length} slices of the raw report could not be analyzed (characters ${lostRanges.join(', ')}); tests in them are missing from the results. Please review that part of the report manually.`
+            : `${failedOutcomes.length} of ${batches.length} analysis batches failed; their failures are listed without an AI root cause. Please review them manually.`,
+        actionItems: ["Review each failure manually", "Check test logs for more context"]
+      },
+      ...recommendations,
+    ];
+  }
+
+  // Use AI-extracted tests if available, otherwise use parsed tests. Failure batches leave
+  // extractedTests empty, so after a split only raw-text slices contribute to it.
+  const extractedTests = analyses.flatMap(analysis => analysis.extractedTests || []);
+  const finalTests: TestCase[] = extractedTests.length > 0 && (wholeRun || parsedTests.length === 0)
+    ? extractedTests
+    : parsedTests;
+  
+  const finalPassed = finalTests.filter(t => t.status === 'pass');
+  const finalFailed = finalTests.filter(t => t.status === 'fail');
+  const finalSkipped = finalTests.filter(t => t.status === 'skip');
+
+  // Use AI summary if provided, otherwise calculate. A batch, or a request without the rule-labelled
+  // and clustered failures, only saw part of the run, so its summary doesn't count
+  const summaryData = (wholeRun && withheld.size === 0 && analyses[0]?.summary) || {
+    total: finalTests.length,
+    passed: finalPassed.length,
+    failed: finalFailed.length,
+    skipped: finalSkipped.length
+  };
+
+  const totalDuration = finalTests.reduce((sum, t) => sum + (t.duration || 0), 0);
+  
+  const summary = {
+    total: summaryData.total || finalTests.length,
+    passed: summaryData.passed || finalPassed.length,
+    failed: summaryData.failed || finalFailed.length,
+    skipped: summaryData.skipped || finalSkipped.length,
+    duration: totalDuration > 60 ? `${(totalDuration / 60).toFixed(1)}m` : `${totalDuration.toFixed(1)}s`,
+    passRate: summaryData.total > 0 
+      ? ((summaryData.passed || finalPassed.length) / summaryData.total) * 100 
+      : 0,
+  };
+
+  // Map failures to include testCase objects
+  const mappedFailures = verdicts
+    .map(f => ({
+      f,
+      // Find matching test case: by id, else by name, preferring a test that isn't an expected failure
+      matchingTest: finalTests.find(t => t.id === f.testId) || [...finalTests]
+        .sort((a, b) => Number(expectedFailures.has(a.id)) - Number(expectedFailures.has(b.id)))
+        .find(t => t.name === f.testName || t.name?.toLowerCase() === f.testName?.toLowerCase()),
+    }))
+    .filter(({ f, matchingTest }) => !expectedFailures.has(matchingTest?.id ?? f.testId))
+    .map(({ f, matchingTest }, idx) => {
+      const testCase: TestCase = matchingTest || {
+        id: f.testId || `failure-${idx}`,
+        name: f.testName || 'Unknown Test',
+        className: 'Unknown Class',
+        status: 'fail' as const,
+        duration: 0,
+        errorMessage: f.evidence?.[0],
+        stackTrace: f.evidence?.slice(1)?.join('\n')
+      };
+      
+      return {
+        testCase,
+        rootCause: f.rootCause || 'Analysis pending',
+        category: f.category || 'automation_script_defect',
+        confidence: f.confidence || 'medium',
+        evidence: f.evidence || [],
+        suggestedFix: f.suggestedFix || 'Review test implementation',
+        defaultedFields: f.defaultedFields,
+        ruleId: f.ruleId,
+        cluster: f.cluster,
+      };
+    });
+
+  const result = {
+    summary,
+    failures: mappedFailures,
+    patterns,
+    recommendations,
+    // Only worth reporting when the run was split
+    batches: singlePass || skipModel ? undefined : batchReports,
+    outputRepairs,
+  };
+
+  console.log("Analysis complete:", {
+    total: summary.total,
+    passed: summary.passed,
+    failed: summary.failed,
+    skipped: summary.skipped,
+    failuresAnalyzed: mappedFailures.length,
+    patterns: result.patterns.length,
+    recommendations: result.recommendations.length,
+    batches: `${analyses.length}/${batches.length}`,
+    labelledByRule: ruleVerdicts.length,
+    errorSignatures: clusters.length,
+    repaired: outputRepairs.filter(repair => repair.action === 'repaired').length,
+    defaulted: outputRepairs.filter(repair => repair.action === 'defaulted').length,
+  });
+
+  return result;
+}
@@ -0,0 +1,175 @@
+import { ModelAnalysis, ParsedStackTrace, Pattern, Recommendation, TestCase } from "./types.ts";
+
+// Roughly four characters per token for English, JSON and stack traces; close enough to budget with
+const CHARS_PER_TOKEN = 4;
+
+export interface AnalysisBatch {
+  index: number;
+  tests: TestCase[];
+  // A slice of the raw report, for reports whose tests could not be parsed
+  rawContent?: string;
+  // Where that slice sits in the raw report
+  rawRange?: { from: number; to: number };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Screenshot data and anything but an attachment's name, type and path are bytes the model can't
+// read as text; they come off every test before it is measured or sent
+export function promptTest(testCase: TestCase): TestCase {
+  const { screenshots, attachments, ...rest } = testCase;
+  return attachments
+    ? { ...rest, attachments: attachments.map(({ name, contentType, path }) => ({ name, contentType, path })) }
+    : rest;
+}
+
+function testTokens(testCase: TestCase): number {
+  return estimateTokens(JSON.stringify(testCase, null, 2));
+}
+
+// Frames kept per exception once a trace has to be cut
+const MAX_TRIMMED_FRAMES = 10;
+
+function trimStackTrace(trace: ParsedStackTrace | undefined, maxChars: number): ParsedStackTrace | undefined {
+  if (!trace) return undefined;
+  return {
+    ...trace,
+    exceptions: trace.exceptions.map(exception => ({
+      ...exception,
+      message: exception.message?.slice(0, maxChars),
+      frames: exception.frames.slice(0, MAX_TRIMMED_FRAMES),
+      omittedFrames: (exception.omittedFrames || 0) + Math.max(exception.frames.length - MAX_TRIMMED_FRAMES, 0) || undefined,
+    })),
+  };
+}
+
+// What a test bigger than a whole batch gives up, in order: output and the list of files first, then
+// the step tree (stepsToReproduce still outlines it), then the length of its error and trace
+const TRIMS: ((testCase: TestCase, maxChars: number) => TestCase)[] = [
+  testCase => ({ ...testCase, logs: undefined, attachments: undefined }),
+  testCase => ({ ...testCase, steps: undefined }),
+  (testCase, maxChars) => ({
+    ...testCase,
+    errorMessage: testCase.errorMessage?.slice(0, maxChars),
+    stackTrace: testCase.stackTrace?.slice(0, maxChars),
+    parsedStackTrace: trimStackTrace(testCase.parsedStackTrace, maxChars),
+    stepsToReproduce: testCase.stepsToReproduce?.map(step => step.slice(0, 200)),
+  }),
+];
+
+function fitTest(testCase: TestCase, budget: number): TestCase {
+  const maxChars = Math.floor((budget * CHARS_PER_TOKEN) / 4);
+  let fitted = testCase;
+  for (const trim of TRIMS) {
+    if (testTokens(fitted) <= budget) break;
+    fitted = trim(fitted, maxChars);
+  }
+  return fitted;
+}
+
+// Packs failures into batches of at most `budget` tokens. Failures of the same class go together
+// so a batch can still see what they have in common.
+export function batchFailures(failures: TestCase[], budget: number): TestCase[][] {
+  const ordered = [...failures].sort((a, b) => (a.className || '').localeCompare(b.className || ''));
+  const batches: TestCase[][] = [];
+  let current: TestCase[] = [];
+  let used = 0;
+
+  ordered.forEach(failure => {
+    const testCase = fitTest(promptTest(failure), budget);
+    const tokens = testTokens(testCase);
+    if (current.length > 0 && used + tokens > budget) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(testCase);
+    used += tokens;
+  });
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
+
+// Cuts report text at line breaks into slices of at most `budget` tokens
+export function chunkText(text: string, budget: number): string[] {
+  const maxChars = budget * CHARS_PER_TOKEN;
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    const lineBreak = text.lastIndexOf('\n', end);
+    if (end < text.length && lineBreak > start) end = lineBreak + 1;
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+// Parsed failures are batched on their own. The raw report is sliced instead only when nothing was
+// parsed from it; pass no `rawContent` otherwise.
+export function planBatches(failures: TestCase[], rawContent: string | undefined, budget: number): AnalysisBatch[] {
+  if (failures.length > 0 || !rawContent) {
+    return batchFailures(failures, budget).map((tests, index) => ({ index, tests }));
+  }
+  let from = 0;
+  return chunkText(rawContent, budget).map((slice, index) => {
+    const rawRange = { from, to: from + slice.length };
+    from = rawRange.to;
+    return { index, tests: [], rawContent: slice, rawRange };
+  });
+}
+
+// Runs `task` over every item with at most `limit` in flight, keeping results in input order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+const PRIORITY_ORDER: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+// Stands in for the reduce pass when it fails: the same pattern or recommendation from several batches becomes one entry
+export function mergeFindings(results: ModelAnalysis[]): { patterns: Pattern[]; recommendations: Recommendation[] } {
+  const patterns = new Map<string, Pattern>();
+  results.flatMap(result => result.patterns || []).forEach(pattern => {
+    const key = (pattern.description || '').trim().toLowerCase();
+    const existing = patterns.get(key);
+    if (!existing) {
+      patterns.set(key, { ...pattern, affectedTests: [...(pattern.affectedTests || [])] });
+      return;
+    }
+    existing.occurrences += pattern.occurrences || 0;
+    existing.affectedTests = Array.from(new Set([...existing.affectedTests, ...(pattern.affectedTests || [])]));
+  });
+
+  const recommendations = new Map<string, Recommendation>();
+  results.flatMap(result => result.recommendations || []).forEach(recommendation => {
+    const key = (recommendation.title || '').trim().toLowerCase();
+    const existing = recommendations.get(key);
+    if (!existing) {
+      recommendations.set(key, { ...recommendation, actionItems: [...(recommendation.actionItems || [])] });
+      return;
+    }
+    if ((PRIORITY_ORDER[recommendation.priority] ?? 2) < (PRIORITY_ORDER[existing.priority] ?? 2)) existing.priority = recommendation.priority;
+    existing.actionItems = Array.from(new Set([...existing.actionItems, ...(recommendation.actionItems || [])]));
+  });
+
+  return {
+    patterns: Array.from(patterns.values()).sort((a, b) => b.occurrences - a.occurrences),
+    recommendations: Array.from(recommendations.values()).sort(
+      (a, b) => (PRIORITY_ORDER[a.priority] ?? 2) - (PRIORITY_ORDER[b.priority] ?? 2)
+    ),
+  };
+}
@@ -0,0 +1,119 @@
+import { FailureVerdict, Pattern, StackFrame, TestCase } from "./types.ts";
+
+// Failures whose error message and top stack frame read the same once volatile values are masked
+export interface FailureCluster {
+  signature: string;
+  // Analyzed on behalf of the whole cluster
+  representative: TestCase;
+  // The representative first
+  members: TestCase[];
+}
+
+// The prompt names a few of the other tests, enough to show how widespread a failure is
+const LISTED_MEMBERS = 10;
+const SIGNATURE_LENGTH = 300;
+
+// Order matters: GUIDs and timestamps are masked before the bare numbers inside them
+const VOLATILE_VALUES: [RegExp, string][] = [
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<guid>'],
+  [/\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?\b/g, '<time>'],
+  [/\b\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, '<time>'],
+  [/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, '<email>'],
+  [/\b0x[0-9a-f]+\b/gi, '<id>'],
+  // Hashes, session and object ids: long runs of hex with both letters and digits
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<id>'],
+  [/\d+(?:\.\d+)?/g, '<n>'],
+];
+
+export function maskVolatile(text: string): string {
+  return VOLATILE_VALUES
+    .reduce((masked, [pattern, placeholder]) => masked.replace(pattern, placeholder), text)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function frameName(frame: StackFrame): string {
+  return [frame.module, frame.method].filter(Boolean).join('.') || frame.file || '';
+}
+
+// Runtime, test framework and assertion library frames in a raw trace. The innermost frame is often one
+// of these (org.junit.Assert.failNotEquals) and says nothing about which test failed.
+const FRAMEWORK_FRAME = /^\s*at (java|javax|jdk|sun|kotlin|org\.junit|junit|org\.testng|org\.hamcrest|org\.assertj|org\.openqa\.selenium|System|Microsoft|NUnit|Xunit)\.|node_modules|node:internal|\((internal|node:)|site-packages|[\\/](unittest|_pytest|pytest)[\\/]/;
+
+// The innermost frame of the project's own code in the root cause, or of a raw trace. Only when there is
+// none does the innermost frame stand in.
+function topFrame(testCase: TestCase): string {
+  const exceptions = testCase.parsedStackTrace?.exceptions;
+  const root = exceptions?.[exceptions.length - 1];
+  if (root?.frames.length) return frameName(root.frames.find(frame => !frame.framework) || root.frames[0]);
+  const frames = (testCase.stackTrace?.split('\n') || []).filter(line => /^\s*(at |File ")/.test(line));
+  return (frames.find(line => !FRAMEWORK_FRAME.test(line)) || frames[0])?.trim() || '';
+}
+
+function errorText(testCase: TestCase): string {
+  const message = testCase.errorMessage?.split('\n').find(line => line.trim() !== '');
+  if (message) return message;
+  const exceptions = testCase.parsedStackTrace?.exceptions;
+  const root = exceptions?.[exceptions.length - 1];
+  return root ? `${root.type}: ${root.message || ''}` : '';
+}
+
+// Empty when the test has neither an error message nor a trace to compare
+export function errorSignature(testCase: TestCase): string {
+  const message = errorText(testCase);
+  const frame = topFrame(testCase);
+  if (!message && !frame) return '';
+  return maskVolatile([message, frame].filter(Boolean).join(' @ ')).slice(0, SIGNATURE_LENGTH);
+}
+
+// Clusters in order of first appearance; a test without a signature is a cluster of its own
+export function clusterFailures(failures: TestCase[]): FailureCluster[] {
+  const clusters = new Map<string, FailureCluster>();
+  failures.forEach(testCase => {
+    const signature = errorSignature(testCase) || `test:${testCase.id}`;
+    const cluster = clusters.get(signature);
+    if (cluster) {
+      cluster.members.push(testCase);
+    } else {
+      clusters.set(signature, { signature, representative: testCase, members: [testCase] });
+    }
+  });
+  return Array.from(clusters.values());
+}
+
+// What the model sees of a cluster: its representative, told how many tests it stands for
+export function representativeForModel(cluster: FailureCluster, testCase: TestCase = cluster.representative): TestCase {
+  if (cluster.members.length === 1) return testCase;
+  return {
+    ...testCase,
+    sharedFailure: {
+      tests: cluster.members.length,
+      otherTests: cluster.members.slice(1, LISTED_MEMBERS + 1).map(member => member.name),
+    },
+  };
+}
+
+// Copies a representative's verdict to every member of its cluster
+export function fanOutVerdicts(verdicts: FailureVerdict[], clusters: FailureCluster[]): FailureVerdict[] {
+  const byId = new Map(clusters.map(cluster => [cluster.representative.id, cluster]));
+  const byName = new Map(clusters.map(cluster => [cluster.representative.name, cluster]));
+
+  return verdicts.flatMap(verdict => {
+    const cluster = (verdict.testId && byId.get(verdict.testId)) || (verdict.testName && byName.get(verdict.testName));
+    if (!cluster || cluster.members.length === 1) return [verdict];
+    const shared = { signature: cluster.signature, size: cluster.members.length };
+    return cluster.members.map(member => ({ ...verdict, testId: member.id, testName: member.name, cluster: shared }));
+  });
+}
+
+export function clusterPatterns(clusters: FailureCluster[]): Pattern[] {
+  return clusters
+    .filter(cluster => cluster.members.length > 1)
+    .sort((a, b) => b.members.length - a.members.length)
+    .map(cluster => ({
+      description: `${cluster.members.length} tests fail with the same error: ${(errorText(cluster.representative) || cluster.signature).slice(0, 200)}`,
+      occurrences: cluster.members.length,
+      affectedTests: cluster.members.map(member => member.name),
+      signature: cluster.signature,
+    }));
+}
@@ -0,0 +1,32 @@
+import { ChatMessage, ModelProvider } from "./providers.ts";
+
+// Replies per tool name, played back in order. A reply is the raw tool arguments or text the model
+// sent; objects are taken as already-parsed arguments.
+export type FakeRecording = Record<string, (string | object)[]>;
+
+export interface FakeProvider extends ModelProvider {
+  // Every request made, in order, so tests can check the prompts
+  requests: { tool: string; messages: ChatMessage[] }[];
+}
+
+// Deterministic and offline: runs the whole analysis without a network or an API key
+export function fakeProvider(recording: FakeRecording): FakeProvider {
+  const played: Record<string, number> = {};
+  const requests: FakeProvider['requests'] = [];
+
+  return {
+    name: "Fake",
+    requests,
+    async complete(messages, tool) {
+      requests.push({ tool: tool.name, messages: [...messages] });
+      const replies = recording[tool.name] || [];
+      const index = played[tool.name] || 0;
+      if (index >= replies.length) {
+        throw new Error(`No recorded ${tool.name} reply left (${replies.length} recorded)`);
+      }
+      played[tool.name] = index + 1;
+      const reply = replies[index];
+      return typeof reply === 'string' ? reply : JSON.stringify(reply);
+    },
+  };
+}
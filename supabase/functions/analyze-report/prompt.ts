@@ -0,0 +1,240 @@
+import { ParseDiagnostics, RunMetadata, TestCase, ModelAnalysis } from "./types.ts";
+
+export const SYSTEM_PROMPT = `You are an expert test automation engineer specializing in analyzing Spark Extent Reports and test execution results. Your task is to ACCURATELY extract and analyze test results from the provided report content.
+
+CRITICAL INSTRUCTIONS:
+1. FIRST, carefully extract ALL test cases from the raw content. Look for:
+   - Test names, method names, or scenario names
+   - Status indicators (pass/fail/skip/error)
+   - Error messages, exceptions, and stack traces
+   - Execution times and timestamps
+
+2. For each FAILED test, determine:
+   - Root cause category (MUST be one of: application_defect, automation_script_defect, test_data_issue, environment_issue, configuration_issue, flaky_test)
+   - Confidence level (high/medium/low)
+   - Specific evidence from the report
+   - Actionable fix recommendation
+
+3. Identify patterns across failures
+
+4. Provide prioritized recommendations
+
+ACCURACY IS CRITICAL. Extract the EXACT test names and error messages from the report. Do not make up test names or errors.
+
+Return the result by calling the report_analysis function with arguments in this exact structure:
+{
+  "extractedTests": [
+    {
+      "id": "unique-id",
+      "name": "exact test name from report",
+      "className": "test class or suite name",
+      "status": "pass|fail|skip",
+      "errorMessage": "exact error message if failed",
+      "stackTrace": "stack trace if available"
+    }
+  ],
+  "failures": [
+    {
+      "testId": "matching id from extractedTests",
+      "testName": "exact test name",
+      "rootCause": "detailed analysis of why this test failed",
+      "category": "one of the valid categories",
+      "confidence": "high|medium|low",
+      "evidence": ["specific evidence from the report"],
+      "suggestedFix": "specific actionable fix"
+    }
+  ],
+  "patterns": [
+    {
+      "description": "pattern description",
+      "occurrences": number,
+      "affectedTests": ["test names"]
+    }
+  ],
+  "recommendations": [
+    {
+      "priority": "high|medium|low",
+      "title": "short title",
+      "description": "detailed description",
+      "actionItems": ["specific actions"]
+    }
+  ],
+  "summary": {
+    "total": number,
+    "passed": number,
+    "failed": number,
+    "skipped": number
+  }
+}`;
+
+const ANALYSIS_RULES = `- Extract ALL test cases with their EXACT names and statuses
+- For failed tests, analyze the root cause based on error messages and stack traces
+- Be precise and accurate - do not invent or assume information not in the report
+- Tests with a "configMethod" are setup/teardown methods (e.g. @BeforeClass). Tests with "skippedBy" were skipped because the config method with that id failed - attribute them to that config failure instead of treating them as independent problems
+- "failedStepIndex" is the index into "stepsToReproduce" of the step that failed; use the failing step's text as evidence
+- "steps", when present, is the same run as a tree: nested steps and log entries, each with its own status, timestamp and log "level". The failing step's parents and the log entries just before it show what the test was doing when it broke
+- Tests marked "flaky" by the reporting tool should be classified as flaky_test unless the evidence clearly says otherwise. "knownIssue" failures are already tracked and "muted" tests are deliberately ignored - say so in the root cause instead of reporting them as new defects
+- "browser" is the browser or Playwright project a test ran in. When the same test fails in some browsers but passes in others, treat it as browser-specific and say which browsers are affected
+- "attempts" lists every run of a retried test. A test that failed and then passed on retry is evidence of flakiness, not a separate failure per attempt
+- "rawStatus" is the reporting tool's own outcome. Tests with rawStatus "xfailed" are expected failures (pytest xfail) - never list them in "failures" or treat them as defects. "xpassed" tests unexpectedly passed; mention them only if the xfail marker looks stale
+- "parsedStackTrace" replaces the raw stack trace when it could be parsed. "exceptions" lists the thrown exception first and its causes after it; the LAST one is the root cause. Frames are innermost first, "framework": true marks runtime, test framework and third-party code, and "omittedFrames" counts framework frames left out. Quote the root cause and the first frame with "framework": false (the project's own code) in "evidence", and use that frame's module/namespace to tell test code from application code
+- "shard" names the report (CI agent) a test came from when parallel runs were merged. Failures concentrated on one shard while the same tests pass elsewhere point to an environment_issue on that agent - name the shard
+- "RUN ENVIRONMENT" is the report's system/environment table (OS, browser, app version, base URL...) plus the authors, devices, browsers and tags seen across tests. When failures line up with one of these (e.g. only on Chrome 120, only against staging-2, only tests tagged @payments), say so explicitly in the root cause and patterns, quoting the value
+- "PARSER DIAGNOSTICS" says how each report was read: the strategy, its "reliability", tests whose status was guessed ("guessedStatus") and what was skipped ("ignored"), each as a count and a sample of names. When reliability is low or a test's status was guessed, verify names and statuses against the RAW REPORT CONTENT instead of trusting the pre-parsed data, and lower your confidence for failures you could not confirm there
+- A "Console log" report was split from CI console output or pasted text. Only failures are named there, so do not report the missing passing tests as absent. Tests with className "Pasted log" are bare stack traces; their names are made up from the exception and top frame, so name the failing code rather than the test in the root cause
+- "ruleHints" are deterministic failure-signature rules that matched a test's error or trace without deciding it. Treat them as strong evidence for the named category, but follow the evidence when it points elsewhere and say why in the root cause
+- "sharedFailure" marks a test that stands for every failing test with the same error signature (the error and top stack frame with numbers, ids, timestamps and GUIDs masked). "tests" failed the same way, some of them named in "otherTests"; your verdict is applied to all of them, so analyze it once and judge the shared cause. A failure shared by many tests across different classes points to a common dependency (environment, test data, a shared page) rather than the individual tests
+- "FAILURES LABELLED BY RULES" counts failing tests that matched a known signature and were classified without you. They are left out of the test data but counted in the totals; do not report them as missing
+- If the report shows all tests passed, report that accurately`;
+
+// Raw report text sent alongside pre-parsed tests in a single pass
+export const RAW_CONTENT_LIMIT = 25000;
+
+export interface ReportContext {
+  reportFormat?: string;
+  runMetadata?: RunMetadata;
+  diagnostics: ParseDiagnostics[];
+  // Failures labelled by rule and left out of the prompt, per rule id
+  ruleCounts?: Record<string, number>;
+  // Totals over the whole run, so a batch knows the failures it sees are only part of it
+  totals: { total: number; passed: number; failed: number; skipped: number };
+}
+
+export interface BatchPrompt {
+  tests: TestCase[];
+  rawContent?: string;
+  // Set when the run was split: which batch this is out of how many
+  batch?: { index: number; count: number };
+}
+
+// Names listed per diagnostics list; after a regex fallback "guessedStatus" can name hundreds of tests
+const MAX_LISTED = 10;
+
+const listSample = (items: string[]) => ({ count: items.length, sample: items.slice(0, MAX_LISTED) });
+
+export function buildUserPrompt(context: ReportContext, { tests, rawContent, batch }: BatchPrompt): string {
+  let userPrompt = `Analyze this ${context.reportFormat || 'Spark Extent Report'} and provide 100% accurate results:
+
+`;
+
+  if (batch) {
+    const { total, passed, failed, skipped } = context.totals;
+    userPrompt += `=== BATCH ${batch.index + 1} OF ${batch.count} ===
+The run is too large for one request and was split into batches. The whole run has ${total} tests (${passed} passed, ${failed} failed, ${skipped} skipped).
+${tests.length > 0
+  ? `This batch holds ${tests.length} of the failing tests. Analyze every one of them; leave "extractedTests" empty and report patterns only among these tests.`
+  : 'This batch holds one slice of the raw report. Extract and analyze the tests found in this slice only.'}
+
+`;
+  }
+
+  // The run's environment lets failures be tied to a browser, device or deployment
+  if (context.runMetadata) {
+    userPrompt += `=== RUN ENVIRONMENT ===
+${JSON.stringify(context.runMetadata, null, 2)}
+
+`;
+  }
+
+  // How the browser read the report tells the AI how much to trust the pre-parsed tests
+  if (context.diagnostics.length > 0) {
+    userPrompt += `=== PARSER DIAGNOSTICS ===
+${JSON.stringify(context.diagnostics.map(diagnostics => ({
+  ...diagnostics,
+  guessedStatus: listSample(diagnostics.guessedStatus),
+  ignored: listSample(diagnostics.ignored),
+})), null, 2)}
+
+`;
+  }
+
+  // A large run whose failures were all labelled, or that has none, is sent without its tests
+  if (!batch && tests.length === 0 && context.totals.total > 0) {
+    const { total, passed, failed, skipped } = context.totals;
+    userPrompt += `=== RUN TOTALS ===
+The report was parsed: ${total} tests (${passed} passed, ${failed} failed, ${skipped} skipped). None of its failures are left to analyze, so leave "failures" and "extractedTests" empty and report only patterns and recommendations for the run.
+
+`;
+  }
+
+  const ruleLabelled = Object.values(context.ruleCounts || {}).reduce((sum, count) => sum + count, 0);
+  if (ruleLabelled > 0) {
+    userPrompt += `=== FAILURES LABELLED BY RULES ===
+${ruleLabelled} failing tests matched known failure signatures (per rule: ${JSON.stringify(context.ruleCounts)}) and are not listed below.
+
+`;
+  }
+
+  // Include parsed test data if available
+  if (tests.length > 0) {
+    userPrompt += `=== PRE-PARSED TEST DATA ===
+${JSON.stringify(tests, null, 2)}
+
+`;
+  }
+
+  // Include raw content for AI to extract additional info
+  if (rawContent) {
+    // Batches are already cut to size; a single pass keeps as much as possible
+    const trimmedContent = !batch && rawContent.length > RAW_CONTENT_LIMIT
+      ? rawContent.substring(0, RAW_CONTENT_LIMIT) + '\n...[content truncated]...'
+      : rawContent;
+
+    userPrompt += `=== RAW REPORT CONTENT ===
+${trimmedContent}
+
+`;
+  }
+
+  return userPrompt + `
+IMPORTANT: 
+${ANALYSIS_RULES}`;
+}
+
+export const REDUCE_SYSTEM_PROMPT = `You are an expert test automation engineer. A large test run was analyzed in batches; each batch reported its own failure patterns and recommendations. Merge them into one report for the whole run.
+
+- Merge patterns that describe the same underlying problem, add up their occurrences and combine their affected tests
+- Look across batches for patterns no single batch could see (the same root cause or category spread over many batches)
+- Deduplicate recommendations, keep the most specific action items and order them by priority
+- Do not invent failures; use only the batch findings given
+
+Return the result by calling the merged_findings function with arguments in this exact structure:
+{
+  "patterns": [
+    {
+      "description": "pattern description",
+      "occurrences": number,
+      "affectedTests": ["test names"]
+    }
+  ],
+  "recommendations": [
+    {
+      "priority": "high|medium|low",
+      "title": "short title",
+      "description": "detailed description",
+      "actionItems": ["specific actions"]
+    }
+  ]
+}`;
+
+// Only the verdicts travel to the reduce pass, one line per failure, so it stays small for any run size
+export function buildReducePrompt(context: ReportContext, results: ModelAnalysis[]): string {
+  const failures = results.flatMap(result => result.failures || []).map(f => ({
+    test: f.testName || f.testId,
+    category: f.category,
+    rootCause: f.rootCause?.split('\n')[0]?.slice(0, 200),
+  }));
+  const { total, passed, failed, skipped } = context.totals;
+
+  return `The run has ${total} tests (${passed} passed, ${failed} failed, ${skipped} skipped), analyzed in ${results.length} batches.
+
+=== FAILURE VERDICTS ===
+${JSON.stringify(failures)}
+
+=== BATCH PATTERNS ===
+${JSON.stringify(results.map(result => result.patterns || []), null, 2)}
+
+=== BATCH RECOMMENDATIONS ===
+${JSON.stringify(results.map(result => result.recommendations || []), null, 2)}
+`;
+}
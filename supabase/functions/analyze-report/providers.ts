@@ -0,0 +1,212 @@
+import { ToolSpec } from "./schema.ts";
+import { fakeProvider, FakeRecording } from "./fakeProvider.ts";
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// One LLM backend. complete() asks for the answer as a call to `tool` and returns the tool's JSON
+// arguments, or the reply text when the model answered in prose instead.
+export interface ModelProvider {
+  name: string;
+  complete(messages: ChatMessage[], tool: ToolSpec): Promise<string>;
+}
+
+// Carries the provider's HTTP status so rate limits and exhausted credits reach the client as such
+export class ProviderError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Missing or unknown settings; the detail is logged, the client only learns the service isn't configured
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+// Lower temperature for more accurate/deterministic output
+const TEMPERATURE = 0.1;
+// Anthropic requires an output limit; a large run's verdicts need room
+const MAX_OUTPUT_TOKENS = 8192;
+
+const LOVABLE_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const LOVABLE_MODEL = "google/gemini-3-flash-preview";
+const OPENAI_URL = "https://api.openai.com/v1";
+const OPENAI_MODEL = "gpt-4o-mini";
+const AZURE_API_VERSION = "2024-10-21";
+const ANTHROPIC_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_MODEL = "claude-sonnet-4-5";
+const OLLAMA_URL = "http://localhost:11434";
+const OLLAMA_MODEL = "llama3.1";
+const LLAMACPP_URL = "http://localhost:8080";
+
+async function checkResponse(response: Response, provider: string): Promise<void> {
+  if (response.ok) return;
+  const errorText = await response.text();
+  console.error(`${provider} error:`, response.status, errorText);
+  if (response.status === 429) throw new ProviderError(429, "Rate limit exceeded. Please try again in a moment.");
+  if (response.status === 402) throw new ProviderError(402, "AI credits exhausted. Please add credits to continue.");
+  throw new ProviderError(500, "AI analysis failed");
+}
+
+function requireText(content: unknown): string {
+  if (typeof content !== 'string' || content === '') throw new ProviderError(500, "AI returned an empty response");
+  return content;
+}
+
+interface OpenAiCompatibleOptions {
+  name: string;
+  url: string;
+  model?: string;
+  headers?: Record<string, string>;
+}
+
+// Chat completions with function calling: the Lovable gateway, OpenAI, Azure OpenAI and llama.cpp's server
+export function openAiCompatibleProvider({ name, url, model, headers = {} }: OpenAiCompatibleOptions): ModelProvider {
+  return {
+    name,
+    async complete(messages, tool) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          messages,
+          tools: [{ type: "function", function: tool }],
+          tool_choice: { type: "function", function: { name: tool.name } },
+          temperature: TEMPERATURE,
+        }),
+      });
+      await checkResponse(response, name);
+
+      const message = (await response.json()).choices?.[0]?.message;
+      const call = message?.tool_calls?.find((toolCall: { function?: { name?: string } }) => toolCall.function?.name === tool.name);
+      return requireText(call?.function?.arguments ?? message?.content);
+    },
+  };
+}
+
+export function anthropicProvider({ apiKey, model, url = ANTHROPIC_URL }: { apiKey: string; model: string; url?: string }): ModelProvider {
+  return {
+    name: "Anthropic",
+    async complete(messages, tool) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          temperature: TEMPERATURE,
+          // The system prompt is a parameter of its own here, not a message
+          system: messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n'),
+          messages: messages.filter(message => message.role !== 'system'),
+          tools: [{ name: tool.name, description: tool.description, input_schema: tool.parameters }],
+          tool_choice: { type: "tool", name: tool.name },
+        }),
+      });
+      await checkResponse(response, "Anthropic");
+
+      const blocks: { type: string; name?: string; input?: unknown; text?: string }[] = (await response.json()).content || [];
+      const call = blocks.find(block => block.type === 'tool_use' && block.name === tool.name);
+      if (call) return JSON.stringify(call.input);
+      return requireText(blocks.filter(block => block.type === 'text').map(block => block.text).join(''));
+    },
+  };
+}
+
+// Small local models are unreliable at tool calls, so Ollama gets the schema as a structured-output format instead
+export function ollamaProvider({ url = OLLAMA_URL, model }: { url?: string; model: string }): ModelProvider {
+  return {
+    name: "Ollama",
+    async complete(messages, tool) {
+      const response = await fetch(`${url.replace(/\/$/, '')}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          messages,
+          format: tool.parameters,
+          stream: false,
+          options: { temperature: TEMPERATURE },
+        }),
+      });
+      await checkResponse(response, "Ollama");
+
+      return requireText((await response.json()).message?.content);
+    },
+  };
+}
+
+type EnvReader = (name: string) => string | undefined;
+
+function required(env: EnvReader, name: string): string {
+  const value = env(name);
+  if (!value) throw new ProviderConfigError(`${name} is not configured`);
+  return value;
+}
+
+// AI_PROVIDER picks the backend (default "lovable"); AI_MODEL overrides its default model
+export function providerFromEnv(env: EnvReader): ModelProvider {
+  const kind = (env("AI_PROVIDER") || "lovable").toLowerCase();
+  const model = env("AI_MODEL");
+
+  switch (kind) {
+    case "lovable":
+      return openAiCompatibleProvider({
+        name: "AI gateway",
+        url: LOVABLE_URL,
+        model: model || LOVABLE_MODEL,
+        headers: { Authorization: `Bearer ${required(env, "LOVABLE_API_KEY")}` },
+      });
+    case "openai":
+      return openAiCompatibleProvider({
+        name: "OpenAI",
+        url: `${(env("OPENAI_BASE_URL") || OPENAI_URL).replace(/\/$/, '')}/chat/completions`,
+        model: model || OPENAI_MODEL,
+        headers: { Authorization: `Bearer ${required(env, "OPENAI_API_KEY")}` },
+      });
+    case "azure": {
+      // The deployment decides the model; AI_MODEL does not apply
+      const endpoint = required(env, "AZURE_OPENAI_ENDPOINT").replace(/\/$/, '');
+      const deployment = required(env, "AZURE_OPENAI_DEPLOYMENT");
+      const apiVersion = env("AZURE_OPENAI_API_VERSION") || AZURE_API_VERSION;
+      return openAiCompatibleProvider({
+        name: "Azure OpenAI",
+        url: `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+        headers: { "api-key": required(env, "AZURE_OPENAI_API_KEY") },
+      });
+    }
+    case "anthropic":
+      return anthropicProvider({ apiKey: required(env, "ANTHROPIC_API_KEY"), model: model || ANTHROPIC_MODEL });
+    case "ollama":
+      return ollamaProvider({ url: env("OLLAMA_URL"), model: model || OLLAMA_MODEL });
+    case "llamacpp":
+      // llama-server serves whichever model it was started with; tool calls need it run with --jinja
+      return openAiCompatibleProvider({
+        name: "llama.cpp",
+        url: `${(env("LLAMACPP_URL") || LLAMACPP_URL).replace(/\/$/, '')}/v1/chat/completions`,
+        model,
+      });
+    case "fake": {
+      let recording: FakeRecording;
+      try {
+        recording = JSON.parse(required(env, "AI_FAKE_RESPONSES"));
+      } catch (error) {
+        if (error instanceof ProviderConfigError) throw error;
+        throw new ProviderConfigError("AI_FAKE_RESPONSES is not valid JSON");
+      }
+      return fakeProvider(recording);
+    }
+    default:
+      throw new ProviderConfigError(`Unknown AI_PROVIDER "${kind}"`);
+  }
+}
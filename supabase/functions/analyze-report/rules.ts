@@ -0,0 +1,237 @@
+import { DEFECT_CATEGORIES } from "./schema.ts";
+import { FailureVerdict, Pattern, RuleHint, TestCase } from "./types.ts";
+
+// A known failure signature. Any pattern (a case-insensitive regex) matching the error message,
+// stack trace or parsed exceptions labels the failure with `category`.
+export interface FailureRule {
+  id: string;
+  description: string;
+  category: string;
+  // Only "high" matches skip the model; the rest go to it as hints
+  confidence: 'high' | 'medium' | 'low';
+  patterns: string[];
+  suggestedFix: string;
+  // A custom rule with a default rule's id and `enabled: false` switches that rule off
+  enabled?: boolean;
+}
+
+export class RuleConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleConfigError';
+  }
+}
+
+export const DEFAULT_RULES: FailureRule[] = [
+  {
+    id: 'element-not-found',
+    description: 'The script could not find an element on the page',
+    category: 'automation_script_defect',
+    confidence: 'high',
+    patterns: ['NoSuchElementException', 'Unable to locate element', 'ElementNotFound'],
+    suggestedFix: 'Update the locator, or wait for the element before using it',
+  },
+  {
+    id: 'stale-element',
+    description: 'The script used an element after the page re-rendered it',
+    category: 'automation_script_defect',
+    confidence: 'high',
+    patterns: ['StaleElementReferenceException', 'stale element reference'],
+    suggestedFix: 'Look the element up again after the page changes instead of caching it',
+  },
+  {
+    id: 'element-not-interactable',
+    description: 'An element was covered or not ready when the script used it',
+    category: 'automation_script_defect',
+    confidence: 'medium',
+    patterns: ['ElementNotInteractableException', 'ElementClickInterceptedException', 'element click intercepted'],
+    suggestedFix: 'Wait for the element to be clickable, or close the overlay covering it',
+  },
+  {
+    id: 'wait-timeout',
+    description: 'A wait for the page timed out',
+    category: 'flaky_test',
+    confidence: 'medium',
+    patterns: ['TimeoutException', 'Timed out waiting', 'waiting for (selector|locator)'],
+    suggestedFix: 'Check whether the page is slow or the wait condition is wrong',
+  },
+  {
+    id: 'connection-refused',
+    description: 'A service the test needs refused the connection',
+    category: 'environment_issue',
+    confidence: 'high',
+    patterns: ['Connection refused', 'ECONNREFUSED', 'java\\.net\\.ConnectException'],
+    suggestedFix: 'Check that the service is running and reachable from the test agent',
+  },
+  {
+    id: 'service-unavailable',
+    description: 'A service answered with a gateway or availability error',
+    category: 'environment_issue',
+    confidence: 'high',
+    patterns: ['\\b50[234]\\b.{0,20}(Bad Gateway|Service Unavailable|Gateway Time-?out)', '(status|code|HTTP)\\D{0,10}\\b50[234]\\b'],
+    suggestedFix: 'Check the health of the service behind the gateway and retry once it is up',
+  },
+  {
+    id: 'unknown-host',
+    description: 'A host name could not be resolved',
+    category: 'environment_issue',
+    confidence: 'high',
+    patterns: ['UnknownHostException', 'ENOTFOUND', 'getaddrinfo', 'Name or service not known'],
+    suggestedFix: 'Check the base URL and the DNS of the test environment',
+  },
+  {
+    id: 'connection-reset',
+    description: 'A connection dropped or timed out at the network level',
+    category: 'environment_issue',
+    confidence: 'medium',
+    patterns: ['ECONNRESET', 'Connection reset', 'SocketTimeoutException', 'Read timed out'],
+    suggestedFix: 'Check the network and the load on the service at the time of the run',
+  },
+  {
+    id: 'out-of-memory',
+    description: 'The test process or browser ran out of memory',
+    category: 'environment_issue',
+    confidence: 'medium',
+    patterns: ['OutOfMemoryError', 'heap out of memory', 'Aw, Snap'],
+    suggestedFix: 'Give the agent more memory or run fewer tests in parallel',
+  },
+  {
+    id: 'db-constraint',
+    description: 'Test data broke a database constraint',
+    category: 'test_data_issue',
+    confidence: 'high',
+    patterns: [
+      'SQLIntegrityConstraintViolation',
+      'duplicate key value violates unique constraint',
+      'UNIQUE constraint failed',
+      'IntegrityError',
+      'violates foreign key constraint',
+    ],
+    suggestedFix: 'Create unique test data per run, or clean it up before the test',
+  },
+  {
+    id: 'driver-version',
+    description: 'The browser driver does not match the installed browser',
+    category: 'configuration_issue',
+    confidence: 'high',
+    patterns: ['SessionNotCreatedException', 'only supports (Chrome|browser) version'],
+    suggestedFix: 'Align the driver version with the browser on the agent, or let a driver manager pick it',
+  },
+];
+
+// Custom rules replace default rules with the same id and are added after the rest
+export function resolveRules(customRules: FailureRule[] = []): FailureRule[] {
+  const custom = new Map(customRules.map(rule => [rule.id, rule]));
+  return [
+    ...DEFAULT_RULES.map(rule => custom.get(rule.id) || rule),
+    ...customRules.filter(rule => !DEFAULT_RULES.some(defaultRule => defaultRule.id === rule.id)),
+  ].filter(rule => rule.enabled !== false);
+}
+
+// FAILURE_RULES holds a JSON array of custom rules
+export function rulesFromConfig(json: string | undefined): FailureRule[] {
+  if (!json) return resolveRules();
+  let customRules: FailureRule[];
+  try {
+    customRules = JSON.parse(json);
+  } catch {
+    throw new RuleConfigError("FAILURE_RULES is not valid JSON");
+  }
+  if (!Array.isArray(customRules)) throw new RuleConfigError("FAILURE_RULES must be a JSON array of rules");
+  customRules.forEach((rule, index) => {
+    const name = rule?.id ? `Rule "${rule.id}"` : `Rule ${index + 1}`;
+    if (!rule?.id) throw new RuleConfigError(`${name} needs an id`);
+    if (rule.enabled === false) return;
+    if (!DEFECT_CATEGORIES.includes(rule.category)) throw new RuleConfigError(`${name} has an unknown category "${rule.category}"`);
+    if (!['high', 'medium', 'low'].includes(rule.confidence)) throw new RuleConfigError(`${name} has an unknown confidence "${rule.confidence}"`);
+    if (!Array.isArray(rule.patterns) || rule.patterns.length === 0) throw new RuleConfigError(`${name} needs at least one pattern`);
+    rule.patterns.forEach(pattern => {
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        throw new RuleConfigError(`${name} has an invalid pattern /${pattern}/`);
+      }
+    });
+  });
+  return resolveRules(customRules);
+}
+
+// Parsed traces replace the raw one in the request, so their exceptions are searched too
+function failureText(testCase: TestCase): string {
+  return [
+    testCase.errorMessage,
+    testCase.stackTrace,
+    ...(testCase.parsedStackTrace?.exceptions || []).map(exception => `${exception.type}: ${exception.message || ''}`),
+  ].filter(Boolean).join('\n');
+}
+
+// The line a pattern matched, as evidence
+function matchedLine(text: string, pattern: RegExp): string | undefined {
+  return text.split('\n').find(line => pattern.test(line))?.trim().slice(0, 300);
+}
+
+export function matchRules(testCase: TestCase, rules: FailureRule[]): RuleHint[] {
+  const text = failureText(testCase);
+  if (!text) return [];
+  return rules.flatMap(rule => {
+    const match = rule.patterns
+      .map(pattern => matchedLine(text, new RegExp(pattern, 'i')))
+      .find(line => line !== undefined);
+    return match ? [{ rule: rule.id, category: rule.category, confidence: rule.confidence, match }] : [];
+  });
+}
+
+export interface Classification {
+  // Failures labelled by a rule alone
+  verdicts: FailureVerdict[];
+  // The rest, with any weaker rule hits attached for the model
+  unresolved: TestCase[];
+}
+
+// A failure is decided by rule only on a high-confidence hit whose category no other high hit contradicts.
+// Tests the reporting tool marked flaky, known or muted keep that meaning and go to the model.
+export function classifyFailures(failures: TestCase[], rules: FailureRule[]): Classification {
+  const byId = new Map(rules.map(rule => [rule.id, rule]));
+  const verdicts: FailureVerdict[] = [];
+  const unresolved: TestCase[] = [];
+
+  failures.forEach(testCase => {
+    const hints = matchRules(testCase, rules);
+    const strong = hints.filter(hint => hint.confidence === 'high');
+    const categories = new Set(strong.map(hint => hint.category));
+    const flagged = testCase.flaky || testCase.knownIssue || testCase.muted;
+    if (strong.length === 0 || categories.size > 1 || flagged) {
+      unresolved.push(hints.length > 0 ? { ...testCase, ruleHints: hints } : testCase);
+      return;
+    }
+    const rule = byId.get(strong[0].rule) as FailureRule;
+    verdicts.push({
+      testId: testCase.id,
+      testName: testCase.name,
+      rootCause: rule.description,
+      category: rule.category,
+      confidence: 'high',
+      evidence: strong.map(hint => hint.match),
+      suggestedFix: rule.suggestedFix,
+      ruleId: rule.id,
+    });
+  });
+
+  return { verdicts, unresolved };
+}
+
+// Rules that labelled more than one failure. A rule whose failures all share one error signature
+// is left out: that cluster is a pattern of its own.
+export function rulePatterns(verdicts: FailureVerdict[], rules: FailureRule[]): Pattern[] {
+  const byRule = new Map<string, FailureVerdict[]>();
+  verdicts.filter(verdict => verdict.ruleId).forEach(verdict => {
+    byRule.set(verdict.ruleId as string, [...(byRule.get(verdict.ruleId as string) || []), verdict]);
+  });
+  return Array.from(byRule.entries())
+    .filter(([, labelled]) => labelled.length > 1 && new Set(labelled.map(verdict => verdict.cluster?.signature)).size > 1)
+    .map(([ruleId, labelled]) => ({
+      description: `${rules.find(rule => rule.id === ruleId)?.description} (rule ${ruleId})`,
+      occurrences: labelled.length,
+      affectedTests: labelled.map(verdict => verdict.testName as string),
+    }));
+}
@@ -0,0 +1,218 @@
+import { FieldRepair } from "./types.ts";
+
+// The subset of JSON Schema used for the model's tool parameters; validate() understands exactly this much
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  // Used when the model leaves a required field out or gets it wrong after the repair retry
+  default?: string | number;
+}
+
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface Validation {
+  // Conforms to the schema: invalid fields already hold their defaults
+  value: unknown;
+  repairs: FieldRepair[];
+  issues: SchemaIssue[];
+}
+
+export const DEFECT_CATEGORIES = [
+  'application_defect',
+  'automation_script_defect',
+  'test_data_issue',
+  'environment_issue',
+  'configuration_issue',
+  'flaky_test',
+];
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', description, items: { type: 'string' } });
+
+const PATTERN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    occurrences: { type: 'number', default: 0 },
+    affectedTests: stringList('Test names'),
+  },
+  required: ['description', 'occurrences', 'affectedTests'],
+};
+
+const RECOMMENDATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    priority: { type: 'string', enum: ['high', 'medium', 'low'], default: 'medium' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    actionItems: stringList('Specific actions'),
+  },
+  required: ['priority', 'title', 'description', 'actionItems'],
+};
+
+export const ANALYSIS_TOOL: ToolSpec = {
+  name: 'report_analysis',
+  description: 'Report the tests found in the report, a verdict for every failed test, patterns across failures and recommendations.',
+  parameters: {
+    type: 'object',
+    properties: {
+      extractedTests: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string', description: 'Exact test name from the report' },
+            className: { type: 'string', description: 'Test class or suite name' },
+            status: { type: 'string', enum: ['pass', 'fail', 'skip'], default: 'fail' },
+            errorMessage: { type: 'string' },
+            stackTrace: { type: 'string' },
+          },
+          required: ['id', 'name', 'status'],
+        },
+      },
+      failures: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            testId: { type: 'string', description: 'Matching id from the test data' },
+            testName: { type: 'string', description: 'Exact test name' },
+            rootCause: { type: 'string', description: 'Why this test failed' },
+            category: { type: 'string', enum: DEFECT_CATEGORIES, default: 'automation_script_defect' },
+            confidence: { type: 'string', enum: ['high', 'medium', 'low'], default: 'low' },
+            evidence: stringList('Specific evidence quoted from the report'),
+            suggestedFix: { type: 'string' },
+          },
+          required: ['testName', 'rootCause', 'category', 'confidence', 'evidence', 'suggestedFix'],
+        },
+      },
+      patterns: { type: 'array', items: PATTERN_SCHEMA },
+      recommendations: { type: 'array', items: RECOMMENDATION_SCHEMA },
+      summary: {
+        type: 'object',
+        properties: {
+          total: { type: 'number' },
+          passed: { type: 'number' },
+          failed: { type: 'number' },
+          skipped: { type: 'number' },
+        },
+        required: ['total', 'passed', 'failed', 'skipped'],
+      },
+    },
+    required: ['failures', 'patterns', 'recommendations'],
+  },
+};
+
+export const REDUCE_TOOL: ToolSpec = {
+  name: 'merged_findings',
+  description: 'Report the merged patterns and recommendations for the whole run.',
+  parameters: {
+    type: 'object',
+    properties: {
+      patterns: { type: 'array', items: PATTERN_SCHEMA },
+      recommendations: { type: 'array', items: RECOMMENDATION_SCHEMA },
+    },
+    required: ['patterns', 'recommendations'],
+  },
+};
+
+function emptyValue(schema: JsonSchema): unknown {
+  if (schema.default !== undefined) return schema.default;
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries((schema.required || []).map(key => [key, emptyValue(schema.properties?.[key] ?? { type: 'string' })]));
+    case 'array':
+      return [];
+    case 'number':
+      return 0;
+    default:
+      return '';
+  }
+}
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// "Application Defect" or "passed" still say which option was meant
+function matchEnum(value: string, options: string[]): string | undefined {
+  const normalized = normalize(value);
+  return options.find(option => normalized === option) || options.find(option => normalized.startsWith(option));
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, result: Validation): unknown {
+  const at = path || 'reply';
+  const issue = (message: string) => {
+    result.issues.push({ path: at, message });
+    return emptyValue(schema);
+  };
+  const repair = (repaired: unknown, detail: string) => {
+    result.repairs.push({ path: at, action: 'repaired', detail });
+    return repaired;
+  };
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return issue('expected an object');
+      const record = value as Record<string, unknown>;
+      const checked: Record<string, unknown> = { ...record };
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined || record[key] === null) {
+          if (!schema.required?.includes(key)) return;
+          result.issues.push({ path: childPath, message: 'is missing' });
+          checked[key] = emptyValue(property);
+          return;
+        }
+        checked[key] = check(property, record[key], childPath, result);
+      });
+      return checked;
+    }
+    case 'array': {
+      const items = schema.items as JsonSchema;
+      if (!Array.isArray(value)) {
+        // Evidence or action items given as one string
+        if (typeof value === 'string' && items.type === 'string') return [repair(value, 'wrapped a single text in a list')];
+        return issue('expected a list');
+      }
+      return value.map((item, index) => check(items, item, `${path}[${index}]`, result));
+    }
+    case 'number': {
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return repair(Number(value), `read "${value}" as a number`);
+      }
+      return issue(`expected a number, got ${JSON.stringify(value)}`);
+    }
+    default: {
+      let text: unknown = value;
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        text = repair(String(value), 'read a non-text value as text');
+      } else if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+        text = repair(value.join('\n'), 'joined a list into one text');
+      }
+      if (typeof text !== 'string') return issue('expected text');
+      if (!schema.enum || schema.enum.includes(text)) return text;
+      const match = matchEnum(text, schema.enum);
+      if (match) return repair(match, `read "${text}" as "${match}"`);
+      return issue(`"${text}" is not one of ${schema.enum.join(', ')}`);
+    }
+  }
+}
+
+export function validate(schema: JsonSchema, value: unknown): Validation {
+  const result: Validation = { value: null, repairs: [], issues: [] };
+  result.value = check(schema, value, '', result);
+  return result;
+}
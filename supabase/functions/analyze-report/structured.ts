@@ -0,0 +1,89 @@
+import { ChatMessage, ModelProvider } from "./providers.ts";
+import { SchemaIssue, ToolSpec, Validation, validate } from "./schema.ts";
+import { FieldRepair } from "./types.ts";
+
+// One retry fixes most slips; what is still wrong after it gets the schema default
+const MAX_REPAIR_RETRIES = 1;
+
+export interface StructuredReply<T> {
+  value: T;
+  repairs: FieldRepair[];
+}
+
+// Extract JSON from the response (handle markdown code blocks); only needed when the model skipped the tool call
+export function parseModelJson(content: string): unknown {
+  let jsonStr = content;
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    jsonStr = jsonMatch[1].trim();
+  }
+  // Also try to find JSON object directly
+  const directJsonMatch = jsonStr.match(/\{[\s\S]*\}/);
+  if (directJsonMatch) {
+    jsonStr = directJsonMatch[0];
+  }
+  return JSON.parse(jsonStr);
+}
+
+function readReply(reply: string, tool: ToolSpec): Validation | null {
+  try {
+    return validate(tool.parameters, parseModelJson(reply));
+  } catch {
+    return null;
+  }
+}
+
+// Names only the fields that failed, so the model corrects them instead of redoing the analysis
+function repairPrompt(tool: ToolSpec, issues: SchemaIssue[] | null): string {
+  const problems = issues
+    ? issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')
+    : '- the reply was not valid JSON';
+  return `Your ${tool.name} result did not match its schema:
+${problems}
+
+Call ${tool.name} again with the complete result. Correct only the fields listed above and keep everything else exactly as it was.`;
+}
+
+// Asks for a tool call, validates it field by field and retries once with the failing fields named.
+// Throws only when no reply could be read as JSON at all.
+export async function requestStructured<T>(provider: ModelProvider, systemPrompt: string, userPrompt: string, tool: ToolSpec): Promise<StructuredReply<T>> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+  let reply = await provider.complete(messages, tool);
+  let result = readReply(reply, tool);
+  const corrected: FieldRepair[] = [];
+
+  for (let attempt = 0; attempt < MAX_REPAIR_RETRIES && (!result || result.issues.length > 0); attempt++) {
+    console.warn(`${tool.name} reply failed validation (${result ? `${result.issues.length} issues` : 'not JSON'}), asking for a repair`);
+    messages.push({ role: "assistant", content: reply }, { role: "user", content: repairPrompt(tool, result?.issues ?? null) });
+    try {
+      reply = await provider.complete(messages, tool);
+    } catch (error) {
+      console.error("Repair retry failed:", error);
+      break;
+    }
+    const retried = readReply(reply, tool);
+    // A retry that came back worse is dropped in favor of the first reply
+    if (!retried || (result && retried.issues.length > result.issues.length)) break;
+    const remaining = new Set(retried.issues.map(issue => issue.path));
+    (result?.issues || [])
+      .filter(issue => !remaining.has(issue.path))
+      .forEach(issue => corrected.push({ path: issue.path, action: 'repaired', detail: `${issue.message}; corrected by the model on retry` }));
+    result = retried;
+  }
+
+  if (!result) {
+    console.log("Raw content:", reply.substring(0, 500));
+    throw new Error(`The AI reply for ${tool.name} could not be read as JSON`);
+  }
+  return {
+    value: result.value as T,
+    repairs: [
+      ...corrected,
+      ...result.repairs,
+      ...result.issues.map((issue): FieldRepair => ({ path: issue.path, action: 'defaulted', detail: `${issue.message}; used the default` })),
+    ],
+  };
+}
@@ -0,0 +1,148 @@
+export interface RunMetadata {
+  environment?: Record<string, string>;
+  authors?: string[];
+  devices?: string[];
+  browsers?: string[];
+  tags?: string[];
+}
+
+export interface ParseDiagnostics {
+  fileName: string;
+  formatLabel: string;
+  confidence: number;
+  strategy: string;
+  reliability: 'high' | 'medium' | 'low';
+  nodeCount?: number;
+  testCount: number;
+  guessedStatus: string[];
+  ignored: string[];
+  notes: string[];
+}
+
+export interface StackFrame {
+  module?: string;
+  method?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  framework: boolean;
+}
+
+export interface ParsedStackTrace {
+  runtime: 'java' | 'python' | 'javascript' | 'dotnet' | 'native';
+  exceptions: { type: string; message?: string; frames: StackFrame[]; omittedFrames?: number }[];
+}
+
+export interface TestCase {
+  id: string;
+  name: string;
+  className: string;
+  status: 'pass' | 'fail' | 'skip';
+  rawStatus?: string;
+  duration: number;
+  errorMessage?: string;
+  stackTrace?: string;
+  parsedStackTrace?: ParsedStackTrace;
+  logs?: string[];
+  stepsToReproduce?: string[];
+  failedStepIndex?: number;
+  steps?: TestStep[];
+  screenshots?: { name: string; mimeType: string; base64Data: string }[];
+  attachments?: TestAttachment[];
+  configMethod?: string;
+  skippedBy?: string;
+  browser?: string;
+  shard?: string;
+  flaky?: boolean;
+  knownIssue?: boolean;
+  muted?: boolean;
+  // Failure rules that matched without deciding the category, passed to the model
+  ruleHints?: RuleHint[];
+  // Set on a cluster's representative: how many failing tests share its error signature
+  sharedFailure?: { tests: number; otherTests: string[] };
+}
+
+export interface TestStep {
+  name: string;
+  status: 'pass' | 'fail' | 'skip';
+  level?: string;
+  errorMessage?: string;
+  attachments?: TestAttachment[];
+  steps?: TestStep[];
+}
+
+export interface TestAttachment {
+  name: string;
+  contentType?: string;
+  path?: string;
+}
+
+export interface RuleHint {
+  rule: string;
+  category: string;
+  confidence: 'high' | 'medium' | 'low';
+  // The line of the error or trace the rule matched
+  match: string;
+}
+
+// One failure as the model reports it; every field may be missing or malformed
+export interface FailureVerdict {
+  testId?: string;
+  testName?: string;
+  rootCause?: string;
+  category?: string;
+  confidence?: string;
+  evidence?: string[];
+  suggestedFix?: string;
+  // Fields the model got wrong even after the repair retry, now holding schema defaults
+  defaultedFields?: string[];
+  // Set when a failure rule decided the verdict and the model never saw the failure
+  ruleId?: string;
+  // Set on every member when the verdict was fanned out from a cluster's representative
+  cluster?: { signature: string; size: number };
+}
+
+export interface Pattern {
+  description: string;
+  occurrences: number;
+  affectedTests: string[];
+  // Set when the pattern is a cluster of failures with the same error signature
+  signature?: string;
+}
+
+export interface Recommendation {
+  priority: 'high' | 'medium' | 'low';
+  title: string;
+  description: string;
+  actionItems: string[];
+}
+
+export interface ModelAnalysis {
+  extractedTests?: TestCase[];
+  failures?: FailureVerdict[];
+  patterns?: Pattern[];
+  recommendations?: Recommendation[];
+  summary?: { total?: number; passed?: number; failed?: number; skipped?: number };
+}
+
+export interface BatchReport {
+  index: number;
+  // Failing tests in the batch, or 0 for a slice of raw report text
+  tests: number;
+  // The characters of the raw report a slice batch held; when it fails, the tests in them are missing
+  rawRange?: { from: number; to: number };
+  status: 'ok' | 'failed';
+  error?: string;
+}
+
+// A field the model got wrong: fixed up ("repaired") or replaced with the schema default ("defaulted")
+export interface FieldRepair {
+  path: string;
+  action: 'repaired' | 'defaulted';
+  detail: string;
+}
+
+export interface OutputRepair extends FieldRepair {
+  // The request the field came from when the run was split, e.g. "batch 2" or "merge"
+  scope?: string;
+}